@@ -4,11 +4,12 @@ import { id as ethersId, Wallet } from 'ethers';
 import {
     MerchantType,
     NarrativeEntry,
-    NARRATIVE_ACCOUNTS,
+    LedgerAccount,
     AssetAllocation,
     AnchorType,
     SpendResult,
-    IMerchantValueAdapter
+    IMerchantValueAdapter,
+    NARRATIVE_ACCOUNTS
 } from './types';
 import LedgerTable from './components/LedgerTable';
 import AssetAllocationChart from './components/AssetAllocationChart';
@@ -68,9 +69,11 @@ const App: React.FC = () => {
     const [adapters, setAdapters] = useState<IMerchantValueAdapter[]>([]);
     const [isValidating, setIsValidating] = useState<string | null>(null);
 
-    // Account Introspection State
-    const [monitorAccountId, setMonitorAccountId] = useState<number>(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN);
+    // Account Introspection State (reference accounts come from the registry, keyed by chart key)
+    const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+    const [monitorAccountKey, setMonitorAccountKey] = useState<string>('HONORING_ADAPTER_STABLECOIN');
     const [monitorBalance, setMonitorBalance] = useState<bigint>(0n);
+    const accountByKey = useCallback((key: string) => accounts.find(a => a.owner === key), [accounts]);
 
     // Derived Data
     const verifiedAttestationCount = useMemo(() => entries.filter(e => !!e.attestation).length, [entries]);
@@ -100,27 +103,30 @@ const App: React.FC = () => {
                 stableCoinBalance,
                 odfiBalance,
                 mintBalance,
-                adaptersRes
+                adaptersRes,
+                accountsRes
             ] = await Promise.all([
                 fetch(`${API_BASE_URL}/narrative`),
                 fetchBalance('HONORING_ADAPTER_STABLECOIN'),
                 fetchBalance('HONORING_ADAPTER_ODFI'),
                 fetchBalance('MINT'),
                 fetch(`${API_BASE_URL}/adapters`),
+                fetch(`${API_BASE_URL}/accounts?kind=reference&currency=USD`),
             ]);
 
-            if (!narrativeRes.ok || !adaptersRes.ok) throw new Error('Failed to fetch initial data');
+            if (!narrativeRes.ok || !adaptersRes.ok || !accountsRes.ok) throw new Error('Failed to fetch initial data');
 
             const narrativeData = await narrativeRes.json();
             const adaptersData = await adaptersRes.json();
+            const accountsData: LedgerAccount[] = await accountsRes.json();
 
             setEntries(narrativeData);
             setStableBalance(stableCoinBalance);
             setOdfiBalance(odfiBalance);
             setMintBalance(mintBalance);
             setAdapters(adaptersData);
+            setAccounts(accountsData);
 
-            const monitorAccountKey = Object.keys(NARRATIVE_ACCOUNTS).find(key => NARRATIVE_ACCOUNTS[key as any] === monitorAccountId) || 'UNKNOWN';
             const monitorAccountInfo = await fetchBalance(monitorAccountKey);
             setMonitorBalance(monitorAccountInfo);
 
@@ -130,7 +136,7 @@ const App: React.FC = () => {
         } catch (error) {
             console.error("[RefreshData] Failed to fetch system state:", error);
         }
-    }, [monitorAccountId]);
+    }, [monitorAccountKey]);
 
     useEffect(() => {
         refreshData();
@@ -541,8 +547,8 @@ const App: React.FC = () => {
                             <div className="grid grid-cols-3 gap-8 shrink-0">
                                 {[
                                     { label: 'Genesis Mint', id: NARRATIVE_ACCOUNTS.MINT, balance: mintBalance, color: 'orange', sub: 'SYSTEM_GENESIS', icon: Boxes },
-                                    { label: 'sFIAT Liquid', id: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN, balance: stableBalance, color: 'white', sub: 'OPERATIONAL_POOL', icon: Database },
-                                    { label: 'Family Reserve', id: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, balance: odfiBalance, color: 'white', sub: 'ODFI_BACKSTOP', icon: Shield }
+                                    { label: 'sFIAT Liquid', id: accountByKey('HONORING_ADAPTER_STABLECOIN')?.metadata?.chartNumber ?? '—', balance: stableBalance, color: 'white', sub: 'OPERATIONAL_POOL', icon: Database },
+                                    { label: 'Family Reserve', id: accountByKey('HONORING_ADAPTER_ODFI')?.metadata?.chartNumber ?? '—', balance: odfiBalance, color: 'white', sub: 'ODFI_BACKSTOP', icon: Shield }
                                 ].map((acc, i) => (
                                     <div key={i} className="p-8 rounded-[2.5rem] bg-[#090e1a] border border-white/[0.04] shadow-xl flex flex-col justify-between group h-48 relative overflow-hidden transition-all hover:bg-[#0c1221] hover:border-white/10">
                                         <div className="absolute top-0 right-0 p-8 opacity-[0.03] group-hover:opacity-[0.06] transition-all transform scale-150 rotate-12 pointer-events-none">
@@ -598,12 +604,12 @@ const App: React.FC = () => {
                                             <h3 className="text-xl font-black text-white uppercase italic tracking-tight leading-none">INTROSPECTION</h3>
                                         </div>
                                         <select
-                                            value={monitorAccountId}
-                                            onChange={(e) => setMonitorAccountId(Number(e.target.value))}
+                                            value={monitorAccountKey}
+                                            onChange={(e) => setMonitorAccountKey(e.target.value)}
                                             className="bg-[#090e1a] border border-white/5 rounded-2xl py-3 px-6 text-[12px] font-black text-slate-400 focus:outline-none focus:border-orange-500/50 appearance-none cursor-pointer shadow-xl uppercase tracking-widest"
                                         >
-                                            {Object.entries(NARRATIVE_ACCOUNTS).map(([key, val]) => (
-                                                <option key={val} value={val} className="bg-slate-900">{key.replace(/_/g, ' ')}</option>
+                                            {accounts.map(account => (
+                                                <option key={account.accountId} value={account.owner} className="bg-slate-900">{account.name}</option>
                                             ))}
                                         </select>
                                     </div>
@@ -26,3 +26,118 @@ CREATE TABLE IF NOT EXISTS journal_lines (
 
 CREATE INDEX idx_journal_event_id ON journal_entries(event_id);
 CREATE INDEX idx_journal_user_id ON journal_entries(user_id);
+
+-- Clearing audit log: every transfer submitted to TigerBeetle and its outcome.
+-- TigerBeetle stays the authority; this table only observes what was sent and answered.
+CREATE TABLE IF NOT EXISTS tigerbeetle_transfers (
+    id SERIAL PRIMARY KEY,
+    tigerbeetle_transfer_id TEXT NOT NULL UNIQUE, -- u128 as decimal string
+    debit_account_id TEXT NOT NULL,
+    credit_account_id TEXT NOT NULL,
+    amount NUMERIC(39,0) NOT NULL, -- Micro-units (u128)
+    ledger INTEGER NOT NULL,
+    code INTEGER NOT NULL,
+    flags INTEGER NOT NULL,
+    status VARCHAR(16) NOT NULL CHECK (status IN ('pending', 'posted', 'voided', 'expired', 'rejected')),
+    result VARCHAR(48) NOT NULL, -- ClearingReason of the submission
+    detail VARCHAR(64),          -- Raw TigerBeetle result behind a rejection
+    pending_id TEXT,             -- Pending transfer a post or void resolves
+    event_ref TEXT,              -- user_data_128: keccak of the CreditEvent id, masked to u128
+    blockchain_tx_hash VARCHAR(128),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    posted_at TIMESTAMP WITH TIME ZONE,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE -- When a pending transfer's timeout lapses; NULL: no timeout
+);
+
+CREATE INDEX IF NOT EXISTS idx_tb_transfers_debit ON tigerbeetle_transfers(debit_account_id);
+CREATE INDEX IF NOT EXISTS idx_tb_transfers_credit ON tigerbeetle_transfers(credit_account_id);
+CREATE INDEX IF NOT EXISTS idx_tb_transfers_status ON tigerbeetle_transfers(status);
+CREATE INDEX IF NOT EXISTS idx_tb_transfers_event ON tigerbeetle_transfers(event_ref);
+CREATE INDEX IF NOT EXISTS idx_tb_transfers_pending ON tigerbeetle_transfers(pending_id);
+
+-- Account registry: owner, class, display name, status and reserve of every registered ledger account.
+-- Written through by AccountRegistry and loaded back when the clearing service starts.
+CREATE TABLE IF NOT EXISTS tigerbeetle_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tigerbeetle_id TEXT NOT NULL UNIQUE, -- u128 as decimal string
+    account_type VARCHAR(16) NOT NULL CHECK (account_type IN ('user', 'reference')),
+    account_class VARCHAR(16) NOT NULL,  -- AccountClass: entitlement, settlement, liquidity, ...
+    owner_id TEXT NOT NULL,              -- userId, or chart key for reference accounts
+    ledger INTEGER NOT NULL,
+    code INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'frozen', 'closed')),
+    closing_transfer_id TEXT,            -- Pending closing transfer holding a frozen or closed account
+    reserve NUMERIC(39,0),               -- Minimum balance every debit must leave (micro-units)
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tb_accounts_owner ON tigerbeetle_accounts(owner_id);
+CREATE INDEX IF NOT EXISTS idx_tb_accounts_type ON tigerbeetle_accounts(account_type);
+CREATE INDEX IF NOT EXISTS idx_tb_accounts_class ON tigerbeetle_accounts(account_class);
+CREATE INDEX IF NOT EXISTS idx_tb_accounts_ledger ON tigerbeetle_accounts(ledger);
+
+-- Change feed cursors: commit timestamp of the last TigerBeetle transfer each consumer observed.
+-- The Narrative Mirror feed resumes from here after a restart.
+CREATE TABLE IF NOT EXISTS clearing_feed_cursors (
+    consumer VARCHAR(64) PRIMARY KEY,
+    last_timestamp NUMERIC(20,0) NOT NULL, -- TigerBeetle u64 commit timestamp (ns)
+    last_transfer_id TEXT,                 -- u128 as decimal string
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Attestor registry: keys whose signatures count towards the attestation quorum, each over a
+-- half-open window [active_from, active_until). Rotated keys stay so their attestations keep verifying.
+CREATE TABLE IF NOT EXISTS attestor_registry (
+    address VARCHAR(42) PRIMARY KEY,       -- Checksummed address
+    role VARCHAR(16) NOT NULL CHECK (role IN ('issuer', 'cosigner')),
+    active_from TIMESTAMP WITH TIME ZONE NOT NULL,
+    active_until TIMESTAMP WITH TIME ZONE,  -- NULL while the key is active
+    replaced_by VARCHAR(42),               -- Key that took over on rotation
+    registered_by VARCHAR(42),             -- Trustee that registered the key (NULL: seeded from configuration)
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Issued attestations with the event each one attests, written when their batch is sealed.
+-- GET /api/attestations/:id reads from here; the JSON copies carry bigints as decimal strings.
+CREATE TABLE IF NOT EXISTS attestations (
+    id VARCHAR(66) PRIMARY KEY,            -- bytes32 hex
+    event_id TEXT NOT NULL,
+    batch_id VARCHAR(66),                  -- NULL for per-event attestations issued before batching
+    merkle_root VARCHAR(66) NOT NULL,
+    scheme VARCHAR(16) NOT NULL CHECK (scheme IN ('eip712', 'personal_sign')),
+    issued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    attestation JSONB NOT NULL,
+    event JSONB NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attestations_event ON attestations(event_id);
+CREATE INDEX IF NOT EXISTS idx_attestations_batch ON attestations(batch_id);
+
+-- Corrections: compensating transfers for spends that cleared but were not honored, from request to
+-- a trustee's decision. Written through by CorrectionService and loaded back on startup.
+CREATE TABLE IF NOT EXISTS corrections (
+    id TEXT PRIMARY KEY,
+    event_id TEXT NOT NULL,                -- CreditEvent whose cleared spend is compensated
+    user_id TEXT NOT NULL,
+    ledger INTEGER NOT NULL,
+    amount NUMERIC(39,0) NOT NULL,         -- Micro-units returned to the member
+    reason TEXT NOT NULL,
+    requested_by TEXT NOT NULL,
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(16) NOT NULL CHECK (status IN ('pending_approval', 'applied', 'rejected', 'failed')),
+    counterparty TEXT NOT NULL,            -- u128 as decimal string: account the compensating transfer debits
+    transfer_id TEXT,                      -- Compensating transfer, once one was submitted
+    decided_by TEXT,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    detail VARCHAR(48),                    -- ClearingReason of the last failed approval
+    attempts INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_corrections_event ON corrections(event_id);
+CREATE INDEX IF NOT EXISTS idx_corrections_status ON corrections(status);
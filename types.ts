@@ -33,11 +33,25 @@ export type MerchantType = 'square' | 'tango' | 'instacart' | 'amazon' | 'walmar
 
 export type AnchorType = 'GROCERY' | 'UTILITY' | 'FUEL' | 'MOBILE' | 'HOUSING' | 'MEDICAL' | 'GENERAL_GOODS';
 
+export type AttestationScheme = 'eip712' | 'personal_sign';
+
+export interface AttestorSignature {
+    attestor: string;
+    signature: string;
+}
+
 export interface AttestationProof {
     merkleRoot: string;
+    /** Sibling hashes from the event's leaf up to merkleRoot */
     merkleProof: string[];
     eventHash: string;
+    /** How eventHash was computed: 'canonical-v1' hashes the whole event; unset on attestations that hashed id, type, userId, amount and timestamp only */
+    eventEncoding?: string;
     nonce: string;
+    /** Signed batch the root belongs to (unset on per-event attestations issued before batching) */
+    batchId?: string;
+    batchSize?: number;
+    leafIndex?: number;
 }
 
 export interface Attestation {
@@ -45,7 +59,11 @@ export interface Attestation {
     eventId: string;
     signature: string;
     attestor: string;
+    /** Every attestor signature over the batch root; signature/attestor above is the first of them */
+    signatures?: AttestorSignature[];
     timestamp: Date;
+    /** How the signature was made; unset on attestations stored before EIP-712 (personal_sign over JSON) */
+    scheme?: AttestationScheme;
     proof: AttestationProof;
     onChainHash?: string;
 }
@@ -174,6 +192,22 @@ export const NARRATIVE_ACCOUNTS = {
     OBSERVED_ANCHOR_MEDICAL_OBLIGATION: 9007,
 };
 
+/**
+ * Ledger account as listed by GET /api/accounts (u128 ids arrive as decimal strings).
+ */
+export interface LedgerAccount {
+    accountId: string;
+    ledger: number;
+    kind: 'user' | 'reference';
+    /** userId, or chart key for reference accounts */
+    owner: string;
+    accountClass: string;
+    name: string;
+    status: 'active' | 'frozen' | 'closed';
+    reserve?: string;
+    metadata?: { chartNumber?: number; [key: string]: unknown };
+}
+
 export interface AssetAllocation {
     label: string;
     percentage: number;
@@ -0,0 +1,92 @@
+/**
+ * Clearing Queue Benchmark
+ *
+ * Clears the same burst of concurrent spends unbatched (one transfer per request) and
+ * through the auto-batching queue, then prints throughput for each.
+ *
+ *   npx tsx val/bench/clearing_queue.bench.ts
+ *
+ * Environment:
+ *   CLEARING_BACKEND  memory (default) or tigerbeetle (replica at TB_ADDRESS, default 3000; cluster 0)
+ *   BENCH_TRANSFERS   transfers per run (default 20000)
+ *   BENCH_RTT_MS      simulated round trip per request on the memory backend (default 1)
+ */
+
+import { Client } from 'tigerbeetle-node';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { ClearingQueueOptions } from '../clearing/tigerbeetle/queue';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+
+const BACKEND = process.env.CLEARING_BACKEND === 'tigerbeetle' ? 'tigerbeetle' : 'memory';
+const TRANSFERS = Number(process.env.BENCH_TRANSFERS || 20_000);
+const RTT_MS = Number(process.env.BENCH_RTT_MS ?? 1);
+const USD = LEDGER_IDS.USD;
+
+// The in-memory ledger answers instantly; a replica costs a network round trip per request
+function withRoundTrip(client: Client, ms: number): Client {
+  const delay = () => new Promise(resolve => setTimeout(resolve, ms));
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (property !== 'createTransfers' || typeof value !== 'function') return value;
+      return async (batch: Parameters<Client['createTransfers']>[0]) => {
+        await delay();
+        return value.call(target, batch);
+      };
+    },
+  });
+}
+
+function buildService(queue: ClearingQueueOptions): TigerBeetleService {
+  if (BACKEND === 'tigerbeetle') return new TigerBeetleService({ queue });
+  return new TigerBeetleService({ client: withRoundTrip(new InMemoryTigerBeetle(), RTT_MS), queue });
+}
+
+async function run(label: string, queue: ClearingQueueOptions): Promise<void> {
+  const service = buildService(queue);
+  await service.initializeReferenceAccounts();
+
+  // A fresh user per run, funded for the whole burst, so runs never collide on ids
+  const runId = `${label}:${Date.now()}`;
+  const user = await service.ensureUserAccount(`bench:${runId}`, USD);
+  await service.createTransfer(
+    referenceAccountId('OBSERVED_TOKEN_REALIZATION', USD),
+    user,
+    BigInt(TRANSFERS),
+    USD,
+    { code: TRANSFER_CODES.DEPOSIT }
+  );
+  const batchesBefore = service.getQueueStats().batches;
+
+  const started = process.hrtime.bigint();
+  const results = await Promise.all(
+    Array.from({ length: TRANSFERS }, () =>
+      service.createTransfer(user, referenceAccountId('HONORING_ADAPTER_ODFI', USD), 1n, USD, { code: TRANSFER_CODES.PAYMENT })
+    )
+  );
+  const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+
+  const failed = results.filter(r => !r.ok).length;
+  const batches = service.getQueueStats().batches - batchesBefore;
+  console.log(
+    `${label.padEnd(10)} ${TRANSFERS} transfers in ${elapsedMs.toFixed(0)} ms ` +
+    `(${Math.round(TRANSFERS / (elapsedMs / 1000))} transfers/s, ${batches} requests, ${failed} failed)`
+  );
+}
+
+async function main(): Promise<void> {
+  console.log(`[Bench] backend=${BACKEND}${BACKEND === 'memory' ? ` rtt=${RTT_MS}ms` : ''}`);
+  await run('unbatched', { maxBatchSize: 1 });
+  await run('batched', {});
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('[Bench] Failed:', error);
+    process.exit(1);
+  }
+);
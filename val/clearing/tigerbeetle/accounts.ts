@@ -0,0 +1,121 @@
+/**
+ * TigerBeetle Account Classes
+ *
+ * Every ledger account belongs to a class, and the class decides the account flags and code.
+ * The "no negative balances" rule is enforced by TigerBeetle through these flags,
+ * not by application checks:
+ *
+ *   credit-normal (balance = credits - debits): debits_must_not_exceed_credits
+ *   debit-normal  (balance = debits - credits): credits_must_not_exceed_debits
+ *
+ * Flags and code are immutable once an account exists, so changing either is a migration
+ * to a successor account (see REFERENCE_ACCOUNT_VERSION).
+ */
+
+import { AccountFlags } from 'tigerbeetle-node';
+import { NARRATIVE_ACCOUNTS } from '../../shared/narrative-mirror-bridge';
+import { LEDGER_IDS, PRIMARY_CURRENCY } from './ledgers';
+import { ACCOUNT_CODES, AccountCode } from './codes';
+
+export type AccountClass =
+  | 'entitlement'  // User credit; spends debit it
+  | 'settlement'   // Honoring adapter realization; spends credit it
+  | 'liquidity'    // Currency exchange inventory; pays out on the destination ledger
+  | 'obligation'   // Observed liabilities
+  | 'source'       // Issuance origin; funding debits it
+  | 'expense'      // Observed expenditure
+  | 'memo'         // Shadow accounts with no balance rule
+  | 'limit'        // Member's velocity allowance; spends reserve it
+  | 'limit_source'; // Rate-limiting operator; issues allowance
+
+export const ACCOUNT_CLASS_FLAGS: Record<AccountClass, number> = {
+  entitlement: AccountFlags.debits_must_not_exceed_credits | AccountFlags.history,
+  settlement: AccountFlags.debits_must_not_exceed_credits | AccountFlags.history,
+  liquidity: AccountFlags.debits_must_not_exceed_credits | AccountFlags.history,
+  obligation: AccountFlags.debits_must_not_exceed_credits,
+  source: AccountFlags.credits_must_not_exceed_debits | AccountFlags.history,
+  expense: AccountFlags.credits_must_not_exceed_debits,
+  memo: AccountFlags.none,
+  limit: AccountFlags.debits_must_not_exceed_credits,
+  limit_source: AccountFlags.none,
+};
+
+export const ACCOUNT_CLASS_CODES: Record<AccountClass, AccountCode> = {
+  entitlement: ACCOUNT_CODES.USER,
+  settlement: ACCOUNT_CODES.MERCHANT,
+  liquidity: ACCOUNT_CODES.TREASURY,
+  obligation: ACCOUNT_CODES.ANCHOR,
+  source: ACCOUNT_CODES.TREASURY,
+  expense: ACCOUNT_CODES.SYSTEM_BUFFER,
+  memo: ACCOUNT_CODES.SYSTEM_BUFFER,
+  limit: ACCOUNT_CODES.VELOCITY_LIMIT,
+  limit_source: ACCOUNT_CODES.VELOCITY_LIMIT,
+};
+
+export type ReferenceAccountKey = keyof typeof NARRATIVE_ACCOUNTS;
+
+/**
+ * Class of each reference account in the chart of accounts.
+ * Typed as a full Record so a new chart entry fails the build until it is classified.
+ */
+export const REFERENCE_ACCOUNT_CLASSES: Record<ReferenceAccountKey, AccountClass> = {
+  HONORING_ADAPTER_ODFI: 'settlement',
+  HONORING_ADAPTER_STABLECOIN: 'settlement',
+  HONORING_ADAPTER_ACH: 'settlement',
+  HONORING_ADAPTER_CARD: 'settlement',
+
+  FX_LIQUIDITY: 'liquidity',
+
+  OBSERVED_AP: 'obligation',
+  OBSERVED_ANCHOR_GROCERY_OBLIGATION: 'obligation',
+  OBSERVED_ANCHOR_UTILITY_OBLIGATION: 'obligation',
+  OBSERVED_ANCHOR_FUEL_OBLIGATION: 'obligation',
+  OBSERVED_ANCHOR_MOBILE_OBLIGATION: 'obligation',
+  OBSERVED_ANCHOR_HOUSING_OBLIGATION: 'obligation',
+  OBSERVED_ANCHOR_MEDICAL_OBLIGATION: 'obligation',
+
+  ANCHOR_GROCERY_AUTHORIZATION_MEMO: 'memo',
+  ANCHOR_UTILITY_AUTHORIZATION_MEMO: 'memo',
+  ANCHOR_FUEL_AUTHORIZATION_MEMO: 'memo',
+  ANCHOR_MOBILE_AUTHORIZATION_MEMO: 'memo',
+  ANCHOR_HOUSING_AUTHORIZATION_MEMO: 'memo',
+  ANCHOR_MEDICAL_AUTHORIZATION_MEMO: 'memo',
+
+  OBSERVED_TOKEN_REALIZATION: 'source',
+
+  OBSERVED_OPS_EXPENSE: 'expense',
+  OBSERVED_PURCHASE_EXPENSE: 'expense',
+  OBSERVED_ANCHOR_FULFILLMENT_EXPENSE: 'expense',
+};
+
+/**
+ * Current generation of reference accounts. Every older version is migrated into it on startup.
+ *   v0: bare chart number as id, flags 0, code 1
+ *   v1: class flags, code 1
+ *   v2: class flags, class code (ACCOUNT_CODES)
+ */
+export const REFERENCE_ACCOUNT_VERSION = 2;
+
+/**
+ * TigerBeetle id of a reference account on a ledger, at a given version.
+ *
+ *   bits 96-127: version   bits 64-95: ledger slot   bits 0-63: chart number
+ *
+ * The primary (USD) ledger uses slot 0, so its ids are unchanged from before
+ * multi-currency support; every other ledger uses its ledger id as the slot.
+ */
+export function referenceAccountId(
+  key: ReferenceAccountKey,
+  ledger: number = LEDGER_IDS[PRIMARY_CURRENCY],
+  version: number = REFERENCE_ACCOUNT_VERSION
+): bigint {
+  const slot = ledger === LEDGER_IDS[PRIMARY_CURRENCY] ? 0n : BigInt(ledger);
+  return (BigInt(version) << 96n) | (slot << 64n) | BigInt(NARRATIVE_ACCOUNTS[key]);
+}
+
+/**
+ * Resolve a reference account key (e.g. 'HONORING_ADAPTER_ODFI'), or undefined for anything else.
+ */
+export function asReferenceAccountKey(value: string): ReferenceAccountKey | undefined {
+  return Object.hasOwn(NARRATIVE_ACCOUNTS, value) ? (value as ReferenceAccountKey) : undefined;
+}
@@ -0,0 +1,452 @@
+/**
+ * TigerBeetle Transfer Audit Log
+ *
+ * Every transfer the service submits, with the outcome TigerBeetle gave it, keyed by transfer id.
+ * A pending transfer's row follows it to posted, voided or expired when a later transfer resolves it,
+ * or to expired once its timeout has lapsed with nothing resolving it; the post or void gets its own
+ * row carrying the pending transfer's accounts, amount and event ref.
+ * The log observes clearing: writes are buffered off the clearing path, and a failed write is
+ * retried and never fails (or delays) the transfer.
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import { Transfer, TransferFlags, amount_max } from 'tigerbeetle-node';
+import { ClearingReason } from './types';
+import { BackoffOptions, ComponentHealth, DEFAULT_BACKOFF, backoffDelay } from '../../shared/health';
+
+export type AuditedTransferStatus = 'pending' | 'posted' | 'voided' | 'expired' | 'rejected';
+
+export interface AuditedTransfer {
+  transferId: bigint;
+  debitAccountId: bigint;
+  creditAccountId: bigint;
+  amount: bigint;
+  ledger: number;
+  code: number;
+  flags: number;
+  status: AuditedTransferStatus;
+  /** Outcome of the submission */
+  result: ClearingReason;
+  /** Raw TigerBeetle result name behind a rejection */
+  detail?: string;
+  /** Pending transfer a post or void resolves */
+  pendingId?: bigint;
+  /** user_data_128: the CreditEvent the transfer clears (see eventRefFor) */
+  eventRef?: bigint;
+  createdAt: Date;
+  postedAt?: Date;
+  voidedAt?: Date;
+  /** When a pending transfer's timeout lapses (unset: no timeout) */
+  expiresAt?: Date;
+}
+
+/** One submitted transfer and what TigerBeetle answered */
+export interface TransferSubmission {
+  transfer: Transfer;
+  result: ClearingReason;
+  detail?: string;
+  /** When TigerBeetle answered (default: when the submission is recorded) */
+  submittedAt?: Date;
+}
+
+export const TRANSFER_AUDIT_DEFAULT_LIMIT = 100;
+// Submissions waiting to be written before new ones are dropped, and how many go in one write
+export const TRANSFER_AUDIT_BUFFER_LIMIT = 50_000;
+export const TRANSFER_AUDIT_WRITE_BATCH = 1_000;
+// How often the background writer marks lapsed holds expired
+export const TRANSFER_AUDIT_SWEEP_INTERVAL_MS = 60_000;
+
+export interface TransferAuditLog {
+  record(submissions: TransferSubmission[]): Promise<void>;
+  /** Mark pending transfers whose timeout lapsed by `at` expired; resolves to the rows marked */
+  expireLapsed(at: Date): Promise<AuditedTransfer[]>;
+  findByEventRef(eventRef: bigint): Promise<AuditedTransfer[]>;
+  /** Newest first, either side of the transfer */
+  findByAccount(accountId: bigint, limit?: number): Promise<AuditedTransfer[]>;
+}
+
+// Replays are already on record; every other outcome is written
+function isRecorded(submission: TransferSubmission): boolean {
+  return submission.result !== 'exists' && submission.result !== 'exists_with_different_fields';
+}
+
+function resolves(transfer: Transfer): 'posted' | 'voided' | null {
+  if (transfer.flags & TransferFlags.post_pending_transfer) return 'posted';
+  if (transfer.flags & TransferFlags.void_pending_transfer) return 'voided';
+  return null;
+}
+
+/**
+ * The row for a submission. A post or void is sent with zeroed fields TigerBeetle fills from the
+ * pending transfer, so they are taken from the pending transfer's row.
+ */
+function auditedTransfer(submission: TransferSubmission, pending: AuditedTransfer | undefined, recordedAt: Date): AuditedTransfer {
+  const { transfer, result, detail } = submission;
+  const now = submission.submittedAt ?? recordedAt;
+  const resolution = resolves(transfer);
+  const status: AuditedTransferStatus = result !== 'created'
+    ? 'rejected'
+    : resolution ?? (transfer.flags & TransferFlags.pending ? 'pending' : 'posted');
+  const inherited = (value: bigint, fallback: bigint | undefined) => (value === 0n ? fallback ?? 0n : value);
+  const amount = resolution && (transfer.amount === amount_max || transfer.amount === 0n)
+    ? pending?.amount ?? transfer.amount
+    : transfer.amount;
+
+  return {
+    transferId: transfer.id,
+    debitAccountId: inherited(transfer.debit_account_id, pending?.debitAccountId),
+    creditAccountId: inherited(transfer.credit_account_id, pending?.creditAccountId),
+    amount,
+    ledger: transfer.ledger || pending?.ledger || 0,
+    code: transfer.code || pending?.code || 0,
+    flags: transfer.flags,
+    status,
+    result,
+    detail,
+    pendingId: transfer.pending_id || undefined,
+    eventRef: inherited(transfer.user_data_128, pending?.eventRef) || undefined,
+    createdAt: now,
+    postedAt: status === 'posted' ? now : undefined,
+    voidedAt: status === 'voided' ? now : undefined,
+    // TigerBeetle times the hold from its own commit; a post that still lands moves the row on again
+    expiresAt: status === 'pending' && transfer.timeout > 0 ? new Date(now.getTime() + transfer.timeout * 1000) : undefined,
+  };
+}
+
+/** What a resolving submission did to its pending transfer, if anything */
+function pendingTransition(submission: TransferSubmission): AuditedTransferStatus | null {
+  if (!submission.transfer.pending_id) return null;
+  if (submission.result === 'pending_transfer_expired') return 'expired';
+  return submission.result === 'created' ? resolves(submission.transfer) : null;
+}
+
+/**
+ * Process-local audit log (tests, memory backend).
+ */
+export class InMemoryTransferAuditLog implements TransferAuditLog {
+  private transfers: Map<bigint, AuditedTransfer> = new Map();
+
+  async record(submissions: TransferSubmission[]): Promise<void> {
+    const now = new Date();
+    for (const submission of submissions.filter(isRecorded)) {
+      const pending = this.transfers.get(submission.transfer.pending_id);
+      const existing = this.transfers.get(submission.transfer.id);
+      const row = auditedTransfer(submission, pending, now);
+      if (!existing || existing.status === 'rejected') {
+        this.transfers.set(submission.transfer.id, row);
+      }
+
+      const transition = pendingTransition(submission);
+      if (pending && transition) {
+        pending.status = transition;
+        if (transition === 'posted') pending.postedAt = row.createdAt;
+        if (transition === 'voided') pending.voidedAt = row.createdAt;
+      }
+    }
+  }
+
+  async expireLapsed(at: Date): Promise<AuditedTransfer[]> {
+    const lapsed = Array.from(this.transfers.values())
+      .filter(t => t.status === 'pending' && t.expiresAt && t.expiresAt <= at);
+    for (const transfer of lapsed) transfer.status = 'expired';
+    return lapsed;
+  }
+
+  async findByEventRef(eventRef: bigint): Promise<AuditedTransfer[]> {
+    return Array.from(this.transfers.values()).filter(t => t.eventRef === eventRef);
+  }
+
+  async findByAccount(accountId: bigint, limit: number = TRANSFER_AUDIT_DEFAULT_LIMIT): Promise<AuditedTransfer[]> {
+    return Array.from(this.transfers.values())
+      .filter(t => t.debitAccountId === accountId || t.creditAccountId === accountId)
+      .reverse()
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Audit log in the tigerbeetle_transfers table (db/init.sql). u128 values are stored as decimal strings.
+ */
+export class PostgresTransferAuditLog implements TransferAuditLog {
+  private pool: Pool;
+
+  constructor(pool: Pool | PoolConfig) {
+    this.pool = pool instanceof Pool ? pool : new Pool(pool);
+    // An idle connection dropping must not take the process down with it
+    this.pool.on('error', error => console.error('[TransferAudit] Postgres pool error:', error.message));
+  }
+
+  async record(submissions: TransferSubmission[]): Promise<void> {
+    const recorded = submissions.filter(isRecorded);
+    if (recorded.length === 0) return;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const now = new Date();
+      for (const submission of recorded) {
+        const { transfer } = submission;
+        let pending: AuditedTransfer | undefined;
+        if (transfer.pending_id) {
+          const res = await client.query<TransferAuditRow>(
+            'SELECT * FROM tigerbeetle_transfers WHERE tigerbeetle_transfer_id = $1',
+            [transfer.pending_id.toString()]
+          );
+          pending = res.rows[0] ? fromRow(res.rows[0]) : undefined;
+        }
+
+        const row = auditedTransfer(submission, pending, now);
+        await client.query(
+          `INSERT INTO tigerbeetle_transfers (
+             tigerbeetle_transfer_id, debit_account_id, credit_account_id, amount, ledger, code, flags,
+             status, result, detail, pending_id, event_ref, created_at, posted_at, voided_at, expires_at
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+           ON CONFLICT (tigerbeetle_transfer_id) DO UPDATE SET
+             debit_account_id = EXCLUDED.debit_account_id, credit_account_id = EXCLUDED.credit_account_id,
+             amount = EXCLUDED.amount, ledger = EXCLUDED.ledger, code = EXCLUDED.code, flags = EXCLUDED.flags,
+             status = EXCLUDED.status, result = EXCLUDED.result, detail = EXCLUDED.detail,
+             pending_id = EXCLUDED.pending_id, event_ref = EXCLUDED.event_ref, created_at = EXCLUDED.created_at,
+             posted_at = EXCLUDED.posted_at, voided_at = EXCLUDED.voided_at, expires_at = EXCLUDED.expires_at
+           WHERE tigerbeetle_transfers.status = 'rejected'`,
+          [
+            row.transferId.toString(), row.debitAccountId.toString(), row.creditAccountId.toString(),
+            row.amount.toString(), row.ledger, row.code, row.flags, row.status, row.result, row.detail ?? null,
+            row.pendingId?.toString() ?? null, row.eventRef?.toString() ?? null, row.createdAt,
+            row.postedAt ?? null, row.voidedAt ?? null, row.expiresAt ?? null,
+          ]
+        );
+
+        const transition = pendingTransition(submission);
+        if (pending && transition) {
+          await client.query(
+            `UPDATE tigerbeetle_transfers SET status = $2,
+               posted_at = CASE WHEN $2 = 'posted' THEN $3 ELSE posted_at END,
+               voided_at = CASE WHEN $2 = 'voided' THEN $3 ELSE voided_at END
+             WHERE tigerbeetle_transfer_id = $1`,
+            [transfer.pending_id.toString(), transition, row.createdAt]
+          );
+        }
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async expireLapsed(at: Date): Promise<AuditedTransfer[]> {
+    const res = await this.pool.query<TransferAuditRow>(
+      `UPDATE tigerbeetle_transfers SET status = 'expired'
+       WHERE status = 'pending' AND expires_at <= $1
+       RETURNING *`,
+      [at]
+    );
+    return res.rows.map(fromRow);
+  }
+
+  async findByEventRef(eventRef: bigint): Promise<AuditedTransfer[]> {
+    const res = await this.pool.query<TransferAuditRow>(
+      'SELECT * FROM tigerbeetle_transfers WHERE event_ref = $1 ORDER BY id',
+      [eventRef.toString()]
+    );
+    return res.rows.map(fromRow);
+  }
+
+  async findByAccount(accountId: bigint, limit: number = TRANSFER_AUDIT_DEFAULT_LIMIT): Promise<AuditedTransfer[]> {
+    const res = await this.pool.query<TransferAuditRow>(
+      'SELECT * FROM tigerbeetle_transfers WHERE debit_account_id = $1 OR credit_account_id = $1 ORDER BY id DESC LIMIT $2',
+      [accountId.toString(), limit]
+    );
+    return res.rows.map(fromRow);
+  }
+}
+
+export interface TransferAuditBufferStatus {
+  /** Submissions waiting to be written, including a batch waiting to be retried */
+  buffered: number;
+  /** Submissions dropped because the buffer was full; these are the only ones lost */
+  dropped: number;
+  /** Failed writes since the last one that succeeded (the batch stays buffered and is retried) */
+  failedWrites: number;
+}
+
+/**
+ * Writes to another audit log in the background, so clearing never waits on the audit store.
+ * Submissions are written in the order recorded, one write at a time, so a post or void is always
+ * written after its pending transfer. A batch stays at the head of the buffer until it is written:
+ * a failed write is retried with backoff and keeps counting against `limit`. Once `limit` submissions
+ * are waiting, further ones are dropped and reported rather than held in memory, and health turns
+ * degraded. Lapsed holds are marked expired as the writer drains, at most once per `sweepIntervalMs`,
+ * and before every read.
+ */
+export class BufferedTransferAuditLog implements TransferAuditLog {
+  private buffer: TransferSubmission[] = [];
+  private draining: Promise<void> | null = null;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private nextRetryAt: Date | null = null;
+  private dropped = 0;
+  private failedWrites = 0;
+  private lastError: string | null = null;
+  private lastErrorAt: Date | null = null;
+  private lastSweep = 0;
+  private limit: number;
+  private writeBatch: number;
+  private sweepIntervalMs: number;
+  private backoff: BackoffOptions;
+
+  constructor(
+    private log: TransferAuditLog,
+    options: { limit?: number; writeBatch?: number; sweepIntervalMs?: number; backoff?: BackoffOptions } = {}
+  ) {
+    this.limit = options.limit ?? TRANSFER_AUDIT_BUFFER_LIMIT;
+    this.writeBatch = options.writeBatch ?? TRANSFER_AUDIT_WRITE_BATCH;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? TRANSFER_AUDIT_SWEEP_INTERVAL_MS;
+    this.backoff = options.backoff ?? DEFAULT_BACKOFF;
+  }
+
+  /**
+   * Queue the submissions and return at once; flush() waits for them to be written.
+   */
+  async record(submissions: TransferSubmission[]): Promise<void> {
+    const room = Math.max(this.limit - this.buffer.length, 0);
+    if (submissions.length > room) {
+      this.dropped += submissions.length - room;
+      this.lastError = `Buffer full: ${this.dropped} submissions dropped`;
+      this.lastErrorAt = new Date();
+      console.error(`[TransferAudit] Buffer full: dropped ${submissions.length - room} submissions (${this.dropped} in total)`);
+    }
+    this.buffer.push(...submissions.slice(0, room));
+    this.startDrain();
+  }
+
+  /**
+   * Resolves once everything recorded so far is written, or a failed write is waiting for its retry
+   */
+  async flush(): Promise<void> {
+    while (this.draining) await this.draining;
+  }
+
+  async expireLapsed(at: Date): Promise<AuditedTransfer[]> {
+    await this.flush();
+    this.lastSweep = Date.now();
+    return this.log.expireLapsed(at);
+  }
+
+  async findByEventRef(eventRef: bigint): Promise<AuditedTransfer[]> {
+    await this.expireLapsed(new Date());
+    return this.log.findByEventRef(eventRef);
+  }
+
+  async findByAccount(accountId: bigint, limit?: number): Promise<AuditedTransfer[]> {
+    await this.expireLapsed(new Date());
+    return this.log.findByAccount(accountId, limit);
+  }
+
+  getStatus(): TransferAuditBufferStatus {
+    return { buffered: this.buffer.length, dropped: this.dropped, failedWrites: this.failedWrites };
+  }
+
+  /**
+   * 'degraded' while writes are failing, and for good once submissions were dropped: those rows are lost.
+   */
+  getHealth(): ComponentHealth {
+    return {
+      component: 'transfer_audit',
+      state: this.dropped > 0 || this.failedWrites > 0 ? 'degraded' : 'up',
+      latencyMs: null,
+      checkedAt: new Date(),
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      consecutiveFailures: this.failedWrites,
+      nextReconnectAt: this.nextRetryAt,
+      details: { ...this.getStatus() },
+    };
+  }
+
+  // A failed write waiting out its backoff is retried by its timer, not by new submissions
+  private startDrain(): void {
+    if (this.buffer.length > 0 && !this.retryTimer) this.draining ??= this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    for (;;) {
+      while (this.buffer.length > 0) {
+        const batch = this.buffer.slice(0, this.writeBatch);
+        try {
+          await this.log.record(batch);
+        } catch (e) {
+          this.scheduleRetry(batch.length, e);
+          this.draining = null;
+          return;
+        }
+        // Submissions recorded meanwhile were appended, so the batch is still at the head
+        this.buffer.splice(0, batch.length);
+        this.failedWrites = 0;
+        this.nextRetryAt = null;
+      }
+      if (Date.now() - this.lastSweep < this.sweepIntervalMs) break;
+      // Submissions recorded during the sweep are picked up on the next pass
+      this.lastSweep = Date.now();
+      await this.log.expireLapsed(new Date())
+        .catch(e => console.error('[TransferAudit] Expiry sweep failed:', e instanceof Error ? e.message : e));
+    }
+    this.draining = null;
+  }
+
+  private scheduleRetry(batchSize: number, error: unknown): void {
+    const delay = backoffDelay(this.failedWrites, this.backoff);
+    this.failedWrites++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastErrorAt = new Date();
+    this.nextRetryAt = new Date(Date.now() + delay);
+    console.error(`[TransferAudit] Write of ${batchSize} submissions failed, retrying in ${delay}ms:`, this.lastError);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.startDrain();
+    }, delay);
+    this.retryTimer.unref?.();
+  }
+}
+
+/** A tigerbeetle_transfers row as pg returns it: u128 and NUMERIC columns come back as strings */
+interface TransferAuditRow {
+  tigerbeetle_transfer_id: string;
+  debit_account_id: string;
+  credit_account_id: string;
+  amount: string;
+  ledger: number;
+  code: number;
+  flags: number;
+  status: AuditedTransferStatus;
+  result: ClearingReason;
+  detail: string | null;
+  pending_id: string | null;
+  event_ref: string | null;
+  created_at: Date;
+  posted_at: Date | null;
+  voided_at: Date | null;
+  expires_at: Date | null;
+}
+
+function fromRow(row: TransferAuditRow): AuditedTransfer {
+  return {
+    transferId: BigInt(row.tigerbeetle_transfer_id),
+    debitAccountId: BigInt(row.debit_account_id),
+    creditAccountId: BigInt(row.credit_account_id),
+    amount: BigInt(row.amount),
+    ledger: row.ledger,
+    code: row.code,
+    flags: row.flags,
+    status: row.status,
+    result: row.result,
+    detail: row.detail ?? undefined,
+    pendingId: row.pending_id ? BigInt(row.pending_id) : undefined,
+    eventRef: row.event_ref ? BigInt(row.event_ref) : undefined,
+    createdAt: row.created_at,
+    postedAt: row.posted_at ?? undefined,
+    voidedAt: row.voided_at ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+  };
+}
@@ -7,8 +7,82 @@
  * "Ledgers update, money does not move."
  */
 
-import { createClient, Transfer, Account, Client } from 'tigerbeetle-node';
+import {
+  createClient,
+  Transfer,
+  Account,
+  AccountBalance,
+  AccountFilter,
+  AccountFilterFlags,
+  AccountFlags,
+  Client,
+  CreateAccountError,
+  CreateTransferError,
+  CreateTransfersError,
+  QueryFilter,
+  QueryFilterFlags,
+  TransferFlags,
+  amount_max,
+  id as tigerBeetleId,
+} from 'tigerbeetle-node';
+import { id as keccakId } from 'ethers';
+import {
+  ACCOUNT_HISTORY_DEFAULT_LIMIT,
+  ACCOUNT_HISTORY_MAX_LIMIT,
+  AccountHistoryQuery,
+  AccountMigrationResult,
+  AccountProvisionResult,
+  AccountProvisionRequest,
+  AccountStatusChange,
+  ClearingBackend,
+  ClearingConfig,
+  ClearingPersistence,
+  ClearingResult,
+  IClearingService,
+  LedgerBalance,
+  LinkedTransferResult,
+  TRANSFER_ERROR_REASONS,
+  TransferDetails,
+  TransferLeg,
+  TransferQuery,
+} from './types';
+import { TRANSFER_CODES } from './codes';
+import { CLEARING_BATCH_MAX, ClearingQueue, ClearingQueueOptions, ClearingQueueStats } from './queue';
+import {
+  AccountRegistry,
+  AccountRegistryStore,
+  AccountStatus,
+  AccountStatusError,
+  AccountStatusOperation,
+  PostgresAccountRegistryStore,
+  RegisteredAccount,
+  ReserveThresholdError,
+} from './registry';
+import { LEDGER_IDS, PRIMARY_CURRENCY, SUPPORTED_CURRENCIES } from './ledgers';
+import {
+  DEFAULT_VELOCITY_LIMITS,
+  VELOCITY_WINDOWS,
+  VELOCITY_WINDOW_SECONDS,
+  VelocityAllowance,
+  VelocityLimits,
+  VelocityWindow,
+  velocityLedgerFor,
+} from './velocity';
+import { InMemoryTigerBeetle } from './memory';
+import {
+  ACCOUNT_CLASS_CODES,
+  ACCOUNT_CLASS_FLAGS,
+  AccountClass,
+  REFERENCE_ACCOUNT_CLASSES,
+  REFERENCE_ACCOUNT_VERSION,
+  ReferenceAccountKey,
+  referenceAccountId,
+} from './accounts';
 import { NARRATIVE_ACCOUNTS as ORACLE_ACCOUNTS, AccountType } from '../../shared/narrative-mirror-bridge';
+import { BackoffOptions, ComponentHealth, ConnectionMonitor, ProbeOutcome } from '../../shared/health';
+import { postgresConfigFromEnv } from '../../shared/postgres';
+import { Pool } from 'pg';
+import { BufferedTransferAuditLog, InMemoryTransferAuditLog, PostgresTransferAuditLog, TransferAuditLog, TransferSubmission } from './audit';
 
 // Configuration
 const TB_CLUSTER_ID = 0n;
@@ -23,110 +97,712 @@ const TRANSFER_FLAGS = {
   void_PENDING_TRANSFER: 8,
 };
 
-export class TigerBeetleService {
+// User entitlement accounts live alongside the reference accounts, one per currency ledger.
+//   v0: flags 0, code 2 (primary ledger only)   v1: entitlement flags, code 2   v2: ACCOUNT_CODES.USER
+const USER_ACCOUNT_VERSION = 2;
+
+const U128_MASK = 0xffffffffffffffffffffffffffffffffn;
+
+export class TigerBeetleService implements IClearingService {
   private client!: Client;
   private isConnected: boolean = false;
+  // Replica connections are rebuilt on reconnect; an injected client is only probed again
+  private ownsClient: boolean = false;
+  private health: ConnectionMonitor;
+  // Every transfer goes through the queue so concurrent callers share batches
+  private queue: ClearingQueue;
+  // Written in the background: clearing never waits on the audit store
+  private audit: BufferedTransferAuditLog;
+
+  // userId -> account id for accounts already ensured by this process
+  private userAccounts: Map<string, bigint> = new Map();
+  private registry: AccountRegistry;
+  private registryLoad: Promise<number> | undefined;
+  // `${ledger}:${userId}` -> limit account per window, for members whose allowance is already funded
+  private velocityAccounts: Map<string, Record<VelocityWindow, bigint>> = new Map();
+  private velocityLimits: VelocityLimits;
 
-  constructor() {
+  /**
+   * @param options.client Pre-built client (e.g. InMemoryTigerBeetle). Defaults to a replica connection.
+   * @param options.queue Batch size and flush timer for the clearing queue.
+   * @param options.velocityLimits Caps credited to a member's limit accounts when first created.
+   * @param options.probeTimeoutMs How long a health probe waits for the cluster.
+   * @param options.backoff Reconnect delays after a failed probe.
+   * @param options.audit Where every submitted transfer and its outcome is recorded (default: in memory).
+   * @param options.auditBuffer Limit, write batch size and expiry sweep interval of the background audit writer.
+   * @param options.registryStore Durable copy of the account registry (default: none, memory only).
+   */
+  constructor(options: {
+    client?: Client;
+    queue?: ClearingQueueOptions;
+    velocityLimits?: VelocityLimits;
+    probeTimeoutMs?: number;
+    backoff?: BackoffOptions;
+    audit?: TransferAuditLog;
+    auditBuffer?: ConstructorParameters<typeof BufferedTransferAuditLog>[1];
+    registryStore?: AccountRegistryStore;
+  } = {}) {
+    this.queue = new ClearingQueue(batch => this.sendBatch(batch), options.queue);
+    this.audit = new BufferedTransferAuditLog(options.audit || new InMemoryTransferAuditLog(), options.auditBuffer);
+    this.registry = new AccountRegistry(options.registryStore);
+    this.velocityLimits = options.velocityLimits || DEFAULT_VELOCITY_LIMITS;
+    this.health = new ConnectionMonitor('tigerbeetle', () => this.probe(), () => this.reconnect(), {
+      timeoutMs: options.probeTimeoutMs,
+      backoff: options.backoff,
+      onChange: health => {
+        // Clearing calls answer client_unavailable while the cluster is unreachable
+        this.isConnected = health.state !== 'down';
+        const retry = health.nextReconnectAt ? `, reconnecting at ${health.nextReconnectAt.toISOString()}` : '';
+        console.log(`[TigerBeetle] Connection ${health.state}${health.lastError && health.state !== 'up' ? `: ${health.lastError}` : ''}${retry}`);
+      },
+    });
+
+    if (options.client) {
+      this.client = options.client;
+      this.isConnected = true;
+      return;
+    }
+
+    this.ownsClient = true;
     try {
-      this.client = createClient({
-        cluster_id: TB_CLUSTER_ID,
-        replica_addresses: TB_REPLICA_ADDRESSES,
-      });
+      this.client = this.connect();
       this.isConnected = true;
       console.log(`[TigerBeetle] Client initialized on cluster ${TB_CLUSTER_ID}`);
     } catch (e) {
       console.error('[TigerBeetle] Failed to initialize client:', e);
-      // We don't throw here so the app can start without critical TB failure,
-      // but methods will fail if called.
-      this.isConnected = false;
+      // We don't throw here so the app can start without critical TB failure;
+      // methods answer client_unavailable until a reconnect succeeds.
+      this.health.markDown(e);
+    }
+  }
+
+  private connect(): Client {
+    return createClient({
+      cluster_id: TB_CLUSTER_ID,
+      replica_addresses: TB_REPLICA_ADDRESSES,
+    });
+  }
+
+  /**
+   * Liveness probe: look up a reference account on the primary ledger within the probe timeout.
+   * A cluster that answers without it is up but not initialized.
+   */
+  private async probe(): Promise<ProbeOutcome> {
+    if (!this.client) throw new Error('TigerBeetle client not initialized');
+    const [account] = await this.client.lookupAccounts([referenceAccountId('HONORING_ADAPTER_ODFI')]);
+    const details = { cluster: TB_CLUSTER_ID.toString(), replicas: this.ownsClient ? TB_REPLICA_ADDRESSES : ['in-process'] };
+    return account
+      ? { details }
+      : { details, degraded: 'Reference accounts are not initialized' };
+  }
+
+  private async reconnect(): Promise<void> {
+    if (!this.ownsClient) return;
+    try {
+      this.client?.destroy();
+    } catch {
+      // Already torn down
     }
+    this.client = this.connect();
+  }
+
+  /**
+   * Send one queued batch and record every transfer in it with its outcome.
+   * Recording only queues the submissions; the audit writer keeps their order, so a post is
+   * always written after its pending transfer.
+   */
+  private async sendBatch(batch: Transfer[]): Promise<CreateTransfersError[]> {
+    const errors = await this.client.createTransfers(batch);
+    const submittedAt = new Date();
+    const results = new Map(errors.map(e => [e.index, e.result]));
+    const submissions: TransferSubmission[] = batch.map((transfer, i) => {
+      const code = results.get(i);
+      return code === undefined
+        ? { transfer, result: 'created', submittedAt }
+        : { transfer, result: TRANSFER_ERROR_REASONS[code], detail: CreateTransferError[code], submittedAt };
+    });
+    void this.audit.record(submissions);
+    return errors;
+  }
+
+  getTransferAudit(): BufferedTransferAuditLog {
+    return this.audit;
+  }
+
+  /**
+   * Probe the cluster now. A failed probe marks clearing unavailable and reconnects with backoff.
+   */
+  async checkHealth(): Promise<ComponentHealth> {
+    return this.health.check();
+  }
+
+  getHealth(): ComponentHealth {
+    return this.health.getHealth();
   }
   
   /**
    * Initialize standard accounts if they don't exist.
-   * Mirrors Oracle Ledger constants.
+   * Mirrors Oracle Ledger constants. Flags and code come from each account's class, and any
+   * account from an older version is swept into its successor and closed.
    */
   async initializeReferenceAccounts(): Promise<void> {
+    // Names, reserves and statuses recorded by earlier runs come back before anything registers
+    this.registryLoad ??= this.registry.load().catch(error => {
+      console.error('[TigerBeetle] Failed to load the account registry:', error instanceof Error ? error.message : error);
+      return 0;
+    });
+    await this.registryLoad;
     if (!this.isConnected) return;
 
     const accountsToCreate: Account[] = [];
-    const now = BigInt(Math.floor(Date.now() / 1000));
+    const accountKeys: ReferenceAccountKey[] = [];
+
+    // Every reference account exists once per currency ledger
+    for (const currency of SUPPORTED_CURRENCIES) {
+      for (const [key, value] of Object.entries(ORACLE_ACCOUNTS)) {
+        const accountKey = key as ReferenceAccountKey;
+        accountKeys.push(accountKey);
+        accountsToCreate.push({
+          id: referenceAccountId(accountKey, LEDGER_IDS[currency]),
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 0n,
+          user_data_128: 0n,
+          user_data_64: 0n,
+          user_data_32: value, // Chart number, stable across versions and ledgers
+          reserved: 0,
+          ledger: LEDGER_IDS[currency],
+          code: ACCOUNT_CLASS_CODES[REFERENCE_ACCOUNT_CLASSES[accountKey]],
+          flags: ACCOUNT_CLASS_FLAGS[REFERENCE_ACCOUNT_CLASSES[accountKey]],
+          timestamp: 0n,
+        });
+      }
+    }
+
+    const result = await this.createAccounts(accountsToCreate);
+    if (!result.ok) {
+      console.warn('[TigerBeetle] Reference account creation returned errors:', result.failures);
+    }
+    accountsToCreate.forEach((account, i) => {
+      this.registry.register({
+        accountId: account.id,
+        ledger: account.ledger,
+        kind: 'reference',
+        owner: accountKeys[i],
+        accountClass: REFERENCE_ACCOUNT_CLASSES[accountKeys[i]],
+        name: accountKeys[i].replace(/_/g, ' '),
+        metadata: { chartNumber: account.user_data_32 },
+      });
+    });
+    console.log(`[TigerBeetle] Ensure ${accountsToCreate.length} reference accounts exist (${result.created.length} created, ${result.existing.length} existing).`);
 
-    // Helper to map Oracle ID format to TB Account
-    const mapAccount = (id: number, ledger: number, code: number) => ({
-      id: BigInt(id),
+    // One lookup finds which older versions still exist; only those need a migration
+    const candidates: { key: ReferenceAccountKey; legacyId: bigint; successorId: bigint }[] = [];
+    for (const currency of SUPPORTED_CURRENCIES) {
+      for (const key of Object.keys(ORACLE_ACCOUNTS) as ReferenceAccountKey[]) {
+        for (let version = 0; version < REFERENCE_ACCOUNT_VERSION; version++) {
+          candidates.push({
+            key,
+            legacyId: referenceAccountId(key, LEDGER_IDS[currency], version),
+            successorId: referenceAccountId(key, LEDGER_IDS[currency]),
+          });
+        }
+      }
+    }
+    const existing = new Set((await this.client.lookupAccounts(candidates.map(c => c.legacyId))).map(a => a.id));
+
+    for (const { key, legacyId, successorId } of candidates.filter(c => existing.has(c.legacyId))) {
+      const migration = await this.migrateLegacyAccount(legacyId, successorId);
+      if (migration.status === 'migrated') {
+        console.log(`[TigerBeetle] Migrated ${key} (${legacyId}) to v${REFERENCE_ACCOUNT_VERSION} (swept ${migration.swept})`);
+      } else if (migration.status === 'deferred' || migration.status === 'failed') {
+        console.warn(`[TigerBeetle] Migration of ${key} (${legacyId}) ${migration.status}: ${migration.detail}`);
+      }
+    }
+  }
+
+  /**
+   * Create accounts directly (for setup/testing)
+   * Accounts that already exist with identical fields count as existing, not failed.
+   */
+  async createAccounts(accounts: Account[]): Promise<AccountProvisionResult> {
+    const result: AccountProvisionResult = { ok: true, created: [], existing: [], failures: [] };
+    if (!this.isConnected) {
+      return {
+        ...result,
+        ok: false,
+        failures: accounts.map(a => ({ accountId: a.id, detail: 'client_unavailable' })),
+      };
+    }
+
+    try {
+      const errors = await this.client.createAccounts(accounts);
+      const errorsByIndex = new Map(errors.map(e => [e.index, e.result]));
+      accounts.forEach((account, index) => {
+        const code = errorsByIndex.get(index);
+        if (code === undefined) {
+          result.created.push(account.id);
+        } else if (code === CreateAccountError.exists) {
+          result.existing.push(account.id);
+        } else {
+          result.failures.push({ accountId: account.id, detail: CreateAccountError[code] });
+        }
+      });
+    } catch (e) {
+      console.error('[TigerBeetle] Account creation exception:', e);
+      return {
+        ...result,
+        ok: false,
+        failures: accounts.map(a => ({ accountId: a.id, detail: e instanceof Error ? e.message : 'client_error' })),
+      };
+    }
+
+    if (result.failures.length > 0) {
+      console.error('[TigerBeetle] Account creation failed:', result.failures);
+      result.ok = false;
+    }
+    return result;
+  }
+
+  /**
+   * Deterministic TigerBeetle account id for a user on a currency ledger.
+   * Every process derives the same id, so on-demand creation stays idempotent.
+   */
+  userAccountId(userId: string, ledger: number = LEDGER_IDS[PRIMARY_CURRENCY]): bigint {
+    return userAccountIdAtVersion(userId, ledger, USER_ACCOUNT_VERSION);
+  }
+
+  /**
+   * Ids of the user's accounts from older versions on this ledger, newest first.
+   */
+  private legacyUserAccountIds(userId: string, ledger: number): bigint[] {
+    const ids: bigint[] = [];
+    for (let version = USER_ACCOUNT_VERSION - 1; version >= 0; version--) {
+      const id = userAccountIdAtVersion(userId, ledger, version);
+      if (id !== undefined) ids.push(id);
+    }
+    return ids;
+  }
+
+  /**
+   * Open (or find) a member's account and record how it is listed.
+   */
+  async provisionAccount(request: AccountProvisionRequest): Promise<RegisteredAccount> {
+    const accountId = await this.ensureUserAccount(request.owner, request.ledger);
+    return this.registry.describe(accountId, { name: request.name, metadata: request.metadata });
+  }
+
+  /**
+   * Ensure the user's entitlement account exists, creating it on first use.
+   * The account is keyed by a hash of the userId in user_data_128.
+   * Accounts from older versions for the same user are migrated into it.
+   */
+  async ensureUserAccount(userId: string, ledger: number = LEDGER_IDS[PRIMARY_CURRENCY]): Promise<bigint> {
+    const cacheKey = `${ledger}:${userId}`;
+    const cached = this.userAccounts.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const accountId = this.userAccountId(userId, ledger);
+    // A freeze or close covers the member on every ledger, so no new ledger account is opened meanwhile
+    const memberStatus = this.memberStatus(userId);
+    if (!this.registry.get(accountId) && memberStatus !== 'active') {
+      throw new AccountStatusError(accountId, memberStatus, 'open',
+        `Cannot open account ${accountId}: member ${userId} is ${memberStatus}`);
+    }
+    const result = await this.createAccounts([{
+      id: accountId,
       debits_pending: 0n,
       debits_posted: 0n,
       credits_pending: 0n,
       credits_posted: 0n,
-      user_data_128: 0n,
+      user_data_128: hashToU128(userId),
       user_data_64: 0n,
       user_data_32: 0,
       reserved: 0,
-      ledger: nr(ledger),
-      code: nr(code),
-      flags: 0,
-      timestamp: 0n, // Auto-set by TB
+      ledger,
+      code: ACCOUNT_CLASS_CODES.entitlement,
+      flags: ACCOUNT_CLASS_FLAGS.entitlement,
+      timestamp: 0n,
+    }]);
+
+    // A frozen or closed account carries the closed flag, so it no longer matches the create request
+    const closed = !result.ok && result.failures[0].detail === 'exists_with_different_flags'
+      && await this.isClosedUserAccount(accountId);
+    if (!result.ok && !closed) {
+      throw new Error(`[TigerBeetle] User account creation failed for ${userId}: ${result.failures[0].detail}`);
+    }
+    if (!this.registry.get(accountId)) {
+      this.registry.register({ accountId, ledger, kind: 'user', owner: userId, accountClass: 'entitlement' });
+      if (closed) await this.recoverAccountStatus(accountId);
+    }
+
+    for (const legacyId of this.legacyUserAccountIds(userId, ledger)) {
+      const migration = await this.migrateLegacyAccount(legacyId, accountId);
+      if (migration.status === 'deferred' || migration.status === 'failed') {
+        // The new account is usable; the legacy balance is picked up on a later ensure
+        console.warn(`[TigerBeetle] Migration of user ${userId} ${migration.status}: ${migration.detail}`);
+        return accountId;
+      }
+    }
+
+    this.userAccounts.set(cacheKey, accountId);
+    return accountId;
+  }
+
+  getRegistry(): AccountRegistry {
+    return this.registry;
+  }
+
+  /**
+   * A member's status across every ledger: closed if any of their accounts is closed, else frozen
+   * if any is frozen. Members without registered accounts are active.
+   */
+  memberStatus(userId: string): AccountStatus {
+    const statuses = this.registry.list({ kind: 'user', owner: userId }).map(account => account.status);
+    return statuses.includes('closed') ? 'closed' : statuses.includes('frozen') ? 'frozen' : 'active';
+  }
+
+  /**
+   * Freeze a member (TigerBeetle close-account recipe, without the balancing transfer). Every ledger
+   * account the member owns is shut in one linked chain by a pending closing transfer that never
+   * times out; the balances stay in place and unfreezeAccount voids the closing transfers to re-open them.
+   */
+  async freezeAccount(accountId: bigint): Promise<AccountStatusChange> {
+    const accounts = this.memberAccounts(accountId, 'freeze', ['active']);
+    const closings = accounts.map(account => ({
+      ...this.blankTransfer(),
+      debit_account_id: account.accountId,
+      credit_account_id: referenceAccountId('OBSERVED_TOKEN_REALIZATION', account.ledger),
+      amount: 0n,
+      ledger: account.ledger,
+      code: TRANSFER_CODES.ACCOUNT_FREEZE,
+      flags: TRANSFER_FLAGS.PENDING | TransferFlags.closing_debit,
+    }));
+    const result = await this.submitStatusChain(closings);
+    if (!result.ok) return { ...result, accountId, accountIds: [accountId], status: accounts[0].status };
+
+    accounts.forEach((account, i) => this.registry.setStatus(account.accountId, 'frozen', closings[i].id));
+    return { ...result, transferId: closings[0].id, accountId, accountIds: accounts.map(a => a.accountId), status: 'frozen' };
+  }
+
+  async unfreezeAccount(accountId: bigint): Promise<AccountStatusChange> {
+    const accounts = this.memberAccounts(accountId, 'unfreeze', ['frozen']);
+    const voids = accounts.map(account => ({
+      ...this.blankTransfer(),
+      pending_id: account.closingTransferId!,
+      flags: TRANSFER_FLAGS.void_PENDING_TRANSFER,
+    }));
+    const result = await this.submitStatusChain(voids);
+    if (!result.ok) return { ...result, accountId, accountIds: [accountId], status: accounts[0].status };
+
+    for (const account of accounts) this.registry.setStatus(account.accountId, 'active');
+    return { ...result, transferId: voids[0].id, accountId, accountIds: accounts.map(a => a.accountId), status: 'active' };
+  }
+
+  /**
+   * Close a member for good (TigerBeetle close-account recipe). One linked chain covers every ledger
+   * account the member owns: it lifts any freeze, sweeps the whole available balance back to
+   * OBSERVED_TOKEN_REALIZATION with a balancing transfer, and shuts the account with a pending closing
+   * transfer that never times out. `swept` is the balance moved from `accountId` itself.
+   */
+  async closeAccount(accountId: bigint): Promise<AccountStatusChange> {
+    const accounts = this.memberAccounts(accountId, 'close', ['active', 'frozen']);
+    for (const account of accounts) {
+      const balance = await this.getLedgerBalance(account.accountId);
+      if (balance && balance.pending !== 0n) {
+        throw new AccountStatusError(accountId, accounts[0].status, 'close',
+          `Cannot close account ${accountId}: ${balance.pending} units are still reserved on account ${account.accountId}`);
+      }
+    }
+
+    const transfers: Transfer[] = [];
+    const sweeps: Transfer[] = [];
+    const closings: Transfer[] = [];
+    for (const account of accounts) {
+      const control = referenceAccountId('OBSERVED_TOKEN_REALIZATION', account.ledger);
+      if (account.status === 'frozen') {
+        transfers.push({
+          ...this.blankTransfer(),
+          pending_id: account.closingTransferId!,
+          flags: TRANSFER_FLAGS.void_PENDING_TRANSFER,
+        });
+      }
+      const sweep: Transfer = {
+        ...this.blankTransfer(),
+        debit_account_id: account.accountId,
+        credit_account_id: control,
+        amount: amount_max,
+        ledger: account.ledger,
+        code: TRANSFER_CODES.ACCOUNT_CLOSE,
+        flags: TransferFlags.balancing_debit,
+      };
+      const closing: Transfer = {
+        ...this.blankTransfer(),
+        debit_account_id: account.accountId,
+        credit_account_id: control,
+        amount: 0n,
+        ledger: account.ledger,
+        code: TRANSFER_CODES.ACCOUNT_CLOSE,
+        flags: TRANSFER_FLAGS.PENDING | TransferFlags.closing_debit,
+      };
+      transfers.push(sweep, closing);
+      sweeps.push(sweep);
+      closings.push(closing);
+    }
+
+    const result = await this.submitStatusChain(transfers);
+    if (!result.ok) return { ...result, accountId, accountIds: [accountId], status: accounts[0].status };
+
+    const [swept] = await this.client.lookupTransfers([sweeps[0].id]);
+    accounts.forEach((account, i) => this.registry.setStatus(account.accountId, 'closed', closings[i].id));
+    return {
+      ...result,
+      transferId: closings[0].id,
+      accountId,
+      accountIds: accounts.map(a => a.accountId),
+      status: 'closed',
+      swept: swept?.amount ?? 0n,
+    };
+  }
+
+  /**
+   * Set the balance every debit of an account must leave behind (0 removes it). Only accounts whose
+   * flags cap debits at credits can hold a reserve: that cap is what fails the control transfer.
+   */
+  async setReserveThreshold(accountId: bigint, reserve: bigint): Promise<RegisteredAccount> {
+    if (reserve < 0n) {
+      throw new ReserveThresholdError(accountId, `Reserve for account ${accountId} must not be negative`);
+    }
+    if (!this.registry.get(accountId)) {
+      throw new ReserveThresholdError(accountId, `Account ${accountId} is not registered`);
+    }
+
+    const [account] = await this.client.lookupAccounts([accountId]);
+    if (!account || (account.flags & AccountFlags.debits_must_not_exceed_credits) === 0) {
+      throw new ReserveThresholdError(accountId, `Account ${accountId} does not limit debits to credits; it cannot hold a reserve`);
+    }
+    const control = await this.createAccounts([classAccount(reserveControlId(account.ledger), 'memo', account.ledger)]);
+    if (!control.ok) {
+      throw new Error(`[TigerBeetle] Reserve control account creation failed: ${control.failures[0].detail}`);
+    }
+    return this.registry.setReserve(accountId, reserve);
+  }
+
+  // Only member (user) accounts in one of the allowed states can change status
+  private memberAccount(accountId: bigint, operation: AccountStatusOperation, allowed: AccountStatus[]): RegisteredAccount {
+    const account = this.registry.get(accountId);
+    if (!account || account.kind !== 'user') {
+      throw new AccountStatusError(accountId, 'unregistered', operation);
+    }
+    if (!allowed.includes(account.status)) {
+      throw new AccountStatusError(accountId, account.status, operation);
+    }
+    return account;
+  }
+
+  // The member account named by the request first, then the member's other ledger accounts in an allowed state
+  private memberAccounts(accountId: bigint, operation: AccountStatusOperation, allowed: AccountStatus[]): RegisteredAccount[] {
+    const account = this.memberAccount(accountId, operation, allowed);
+    const others = this.registry.list({ kind: 'user', owner: account.owner })
+      .filter(other => other.accountId !== accountId && allowed.includes(other.status));
+    return [account, ...others];
+  }
+
+  // Link a status change's transfers so every ledger account changes together or none does
+  private submitStatusChain(transfers: Transfer[]): Promise<LinkedTransferResult> {
+    return this.submitLinked(transfers.map((transfer, i) => ({
+      ...transfer,
+      flags: transfer.flags | (i < transfers.length - 1 ? TRANSFER_FLAGS.LINKED : 0),
+    })));
+  }
+
+  private async isClosedUserAccount(accountId: bigint): Promise<boolean> {
+    const [account] = await this.client.lookupAccounts([accountId]);
+    return account !== undefined && account.flags === (ACCOUNT_CLASS_FLAGS.entitlement | AccountFlags.closed);
+  }
+
+  /**
+   * Rebuild a closed account's registry status from its last debit, which is the closing transfer
+   * (nothing can debit the account after it).
+   */
+  private async recoverAccountStatus(accountId: bigint): Promise<void> {
+    const [last] = await this.getAccountTransfers(accountId, { side: 'debits', reverse: true, limit: 1 });
+    if (!last || (last.flags & TransferFlags.closing_debit) === 0) return;
+    this.registry.setStatus(accountId, last.code === TRANSFER_CODES.ACCOUNT_FREEZE ? 'frozen' : 'closed', last.id);
+  }
+
+  /**
+   * Limit legs for a spend of `amount` on a currency ledger, one per window, to be linked to the
+   * spend (TigerBeetle rate-limiting recipe). Each holds the amount on the member's limit account
+   * until its window times out; a cleared spend never posts or voids them.
+   * Leg ids derive from the spend's eventRef, so a replayed spend replays its limit legs too.
+   */
+  async velocityLegs(userId: string, ledger: number, amount: bigint, details: TransferDetails): Promise<TransferLeg[]> {
+    const accounts = await this.ensureVelocityAccounts(userId, ledger);
+    return VELOCITY_WINDOWS.map(window => ({
+      id: details.eventRef !== undefined ? hashToU128(`velocity:${window}:${details.eventRef}`) : undefined,
+      debitAccount: accounts[window],
+      creditAccount: velocityOperatorId(ledger),
+      amount,
+      ledger: velocityLedgerFor(ledger),
+      details: { ...details, code: TRANSFER_CODES.VELOCITY_RESERVATION },
+      pendingTimeoutSeconds: VELOCITY_WINDOW_SECONDS[window],
+    }));
+  }
+
+  /**
+   * Cap, usage and remaining allowance of each window, without provisioning anything.
+   * A member who never spent on this ledger reports the default caps.
+   */
+  async getVelocityAllowance(userId: string, ledger: number = LEDGER_IDS[PRIMARY_CURRENCY]): Promise<VelocityAllowance[]> {
+    const ids = VELOCITY_WINDOWS.map(window => velocityAccountId(userId, window, ledger));
+    const accounts = this.isConnected ? await this.client.lookupAccounts(ids) : [];
+
+    return VELOCITY_WINDOWS.map((window, i) => {
+      const account = accounts.find(a => a.id === ids[i]);
+      const limit = account ? account.credits_posted - account.debits_posted : this.velocityLimits[window];
+      const used = account ? account.debits_pending : 0n;
+      return {
+        window,
+        windowSeconds: VELOCITY_WINDOW_SECONDS[window],
+        ledger,
+        accountId: ids[i],
+        limit,
+        used,
+        remaining: limit - used,
+      };
     });
+  }
 
-    // We use Ledger=1 for USD, Code=1 for Reference Accounts
-    // Iterate through ORACLE_ACCOUNTS
-    for (const [key, value] of Object.entries(ORACLE_ACCOUNTS)) {
-      accountsToCreate.push({
-        id: BigInt(value),
-        debits_pending: 0n,
-        debits_posted: 0n,
-        credits_pending: 0n,
-        credits_posted: 0n,
-        user_data_128: 0n,
-        user_data_64: 0n,
-        user_data_32: 0,
-        reserved: 0,
-        ledger: 1, // 1 = USD Ledger
-        code: 1,   // 1 = System Account
-        flags: 0,
-        timestamp: 0n,
+  /**
+   * Change a member's caps. The difference to each current cap moves between the operator and the
+   * limit account in one linked chain, so the windows change together. A cap cannot drop below what
+   * the member already used in that window: the chain fails with insufficient_funds.
+   */
+  async setVelocityLimits(
+    userId: string,
+    limits: Partial<VelocityLimits>,
+    ledger: number = LEDGER_IDS[PRIMARY_CURRENCY]
+  ): Promise<LinkedTransferResult> {
+    const accounts = await this.ensureVelocityAccounts(userId, ledger);
+    const operator = velocityOperatorId(ledger);
+    const transfers: Transfer[] = [];
+
+    for (const { window, limit } of await this.getVelocityAllowance(userId, ledger)) {
+      const target = limits[window];
+      if (target === undefined || target === limit) continue;
+      const raise = target > limit;
+      transfers.push({
+        ...this.blankTransfer(),
+        debit_account_id: raise ? operator : accounts[window],
+        credit_account_id: raise ? accounts[window] : operator,
+        amount: raise ? target - limit : limit - target,
+        ledger: velocityLedgerFor(ledger),
+        code: TRANSFER_CODES.VELOCITY_ALLOWANCE,
+        flags: TRANSFER_FLAGS.LINKED,
       });
     }
+    if (transfers.length === 0) {
+      return { ok: true, transferId: 0n, transferIds: [], reason: 'exists' };
+    }
+    transfers[transfers.length - 1].flags = TRANSFER_FLAGS.NONE;
+    return this.submitLinked(transfers);
+  }
 
-    try {
-      const errors = await this.client.createAccounts(accountsToCreate);
-      if (errors.length > 0) {
-        // Filter out "exists" errors, as that's expected on restart
-        const realErrors = errors.filter(e => e.result !== 1); // 1 = exists (roughly, check enum in real impl)
-        // Actually TB error enums are strictly typed. 
-        // For now, simple logging. "exists" is often index 1 in many systems but TB uses a specific enum.
-        // We'll log all errors for visible debugging.
-        if (realErrors.length > 0) {
-           console.warn('[TigerBeetle] Account creation returned potential errors:', errors);
-        }
-      }
-      console.log(`[TigerBeetle] Ensure ${accountsToCreate.length} reference accounts exist.`);
-    } catch (e) {
-      console.error('[TigerBeetle] Error creating reference accounts:', e);
+  /**
+   * Create the member's limit accounts (and the ledger's operator) and credit each its initial cap.
+   * The initial credit has a fixed id, so it lands once however often this runs.
+   */
+  private async ensureVelocityAccounts(userId: string, ledger: number): Promise<Record<VelocityWindow, bigint>> {
+    const cacheKey = `${ledger}:${userId}`;
+    const cached = this.velocityAccounts.get(cacheKey);
+    if (cached) return cached;
+
+    const velocityLedger = velocityLedgerFor(ledger);
+    const operator = velocityOperatorId(ledger);
+    const accounts = Object.fromEntries(
+      VELOCITY_WINDOWS.map(window => [window, velocityAccountId(userId, window, ledger)])
+    ) as Record<VelocityWindow, bigint>;
+
+    const created = await this.createAccounts([
+      classAccount(operator, 'limit_source', velocityLedger),
+      ...VELOCITY_WINDOWS.map(window => classAccount(accounts[window], 'limit', velocityLedger)),
+    ]);
+    if (!created.ok) {
+      throw new Error(`[TigerBeetle] Velocity account creation failed for ${userId}: ${created.failures[0].detail}`);
+    }
+
+    const funding = await this.submitLinked(VELOCITY_WINDOWS.map((window, i) => ({
+      ...this.blankTransfer(hashToU128(`velocity:${window}:${ledger}:${userId}:initial`)),
+      debit_account_id: operator,
+      credit_account_id: accounts[window],
+      amount: this.velocityLimits[window],
+      ledger: velocityLedger,
+      code: TRANSFER_CODES.VELOCITY_ALLOWANCE,
+      flags: i < VELOCITY_WINDOWS.length - 1 ? TRANSFER_FLAGS.LINKED : TRANSFER_FLAGS.NONE,
+    })));
+    // A different stored amount means the defaults changed after this member was funded; their cap stands
+    if (!funding.ok && funding.reason !== 'exists_with_different_fields') {
+      throw new Error(`[TigerBeetle] Velocity allowance funding failed for ${userId}: ${funding.detail}`);
     }
+
+    this.velocityAccounts.set(cacheKey, accounts);
+    return accounts;
   }
 
   /**
-   * Create accounts directly (for setup/testing)
+   * Move a legacy account into its successor (account flags cannot be changed in place).
+   *
+   * One linked chain sweeps the net posted balance to the successor and closes the
+   * legacy account with a pending closing transfer that never times out, so nothing
+   * can clear against it afterwards. The successor's flags apply to the sweep:
+   * a legacy balance that breaks its class rule fails here instead of being carried over.
    */
-  async createAccounts(accounts: Account[]): Promise<boolean> {
-    if (!this.isConnected) return false;
+  async migrateLegacyAccount(legacyId: bigint, successorId: bigint): Promise<AccountMigrationResult> {
+    const result: AccountMigrationResult = { legacyId, successorId, status: 'absent', swept: 0n };
+    if (!this.isConnected) return { ...result, status: 'failed', detail: 'client_unavailable' };
+
     try {
-      const errors = await this.client.createAccounts(accounts);
-      if (errors.length > 0) {
-        // Filter out "exists" (1) if redundant
-        const realErrors = errors.filter(e => e.result !== 1);
-        if (realErrors.length > 0) {
-          console.error('[TigerBeetle] Account creation failed:', realErrors);
-          return false;
-        }
+      const [legacy] = await this.client.lookupAccounts([legacyId]);
+      if (!legacy) return result;
+      if ((legacy.flags & AccountFlags.closed) !== 0) return { ...result, status: 'already_migrated' };
+      if (legacy.debits_pending !== 0n || legacy.credits_pending !== 0n) {
+        return { ...result, status: 'deferred', detail: 'legacy_account_has_pending_transfers' };
       }
-      return true;
+
+      const net = legacy.credits_posted - legacy.debits_posted;
+      const transfers: Transfer[] = [];
+      if (net !== 0n) {
+        transfers.push({
+          ...this.blankTransfer(hashToU128(`account-migration:${legacyId}:sweep`)),
+          debit_account_id: net > 0n ? legacyId : successorId,
+          credit_account_id: net > 0n ? successorId : legacyId,
+          amount: net > 0n ? net : -net,
+          ledger: legacy.ledger,
+          code: TRANSFER_CODES.ACCOUNT_MIGRATION,
+          flags: TRANSFER_FLAGS.LINKED,
+        });
+      }
+      transfers.push({
+        ...this.blankTransfer(hashToU128(`account-migration:${legacyId}:close`)),
+        debit_account_id: legacyId,
+        credit_account_id: successorId,
+        amount: 0n,
+        ledger: legacy.ledger,
+        code: TRANSFER_CODES.ACCOUNT_MIGRATION,
+        flags: TRANSFER_FLAGS.PENDING | TransferFlags.closing_debit,
+      });
+
+      const errors = await this.queue.submit(transfers);
+      const failure = errors.find(e => e.result !== CreateTransferError.linked_event_failed) ?? errors[0];
+      if (failure) {
+        return { ...result, status: 'failed', detail: CreateTransferError[failure.result] };
+      }
+      return { ...result, status: 'migrated', swept: net };
     } catch (e) {
-      console.error('[TigerBeetle] Account creation exception:', e);
-      return false;
+      console.error('[TigerBeetle] Account migration exception:', e);
+      return { ...result, status: 'failed', detail: e instanceof Error ? e.message : 'client_error' };
     }
   }
 
@@ -134,51 +810,341 @@ export class TigerBeetleService {
     debitAccount: bigint,
     creditAccount: bigint,
     amount: bigint,
-    ledger: number = 1,
+    ledger: number,
+    details: TransferDetails,
     id?: bigint
-  ): Promise<boolean> {
-    if (!this.isConnected) return false;
-
-    const transferId = id || (BigInt(Date.now()) * 10000n + BigInt(Math.floor(Math.random() * 10000)));
+  ): Promise<ClearingResult> {
+    return this.submitGuarded({
+      ...this.blankTransfer(id),
+      ...transferDetailFields(details),
+      debit_account_id: debitAccount,
+      credit_account_id: creditAccount,
+      amount: amount,
+      ledger: ledger,
+      flags: TRANSFER_FLAGS.NONE,
+    });
+  }
 
-    const transfer: Transfer = {
-      id: transferId,
+  /**
+   * Reserve funds with a pending transfer (phase one of a two-phase transfer).
+   * TigerBeetle releases the reservation by itself once `timeoutSeconds` elapse.
+   */
+  async createPendingTransfer(
+    debitAccount: bigint,
+    creditAccount: bigint,
+    amount: bigint,
+    timeoutSeconds: number,
+    ledger: number,
+    details: TransferDetails,
+    id?: bigint
+  ): Promise<ClearingResult> {
+    return this.submitGuarded({
+      ...this.blankTransfer(id),
+      ...transferDetailFields(details),
       debit_account_id: debitAccount,
       credit_account_id: creditAccount,
       amount: amount,
+      timeout: timeoutSeconds,
+      ledger: ledger,
+      flags: TRANSFER_FLAGS.PENDING,
+    });
+  }
+
+  /**
+   * Post the full amount of a pending transfer.
+   * Accounts, ledger, code and user data are left zero so TigerBeetle inherits them from the pending transfer.
+   */
+  async postPendingTransfer(pendingId: bigint, id?: bigint): Promise<ClearingResult> {
+    return this.submitTransfer({
+      ...this.blankTransfer(id),
+      amount: amount_max,
+      pending_id: pendingId,
+      flags: TRANSFER_FLAGS.POST_PENDING_TRANSFER,
+    });
+  }
+
+  /**
+   * Void a pending transfer, restoring the reserved amount to its accounts.
+   */
+  async voidPendingTransfer(pendingId: bigint, id?: bigint): Promise<ClearingResult> {
+    return this.submitTransfer({
+      ...this.blankTransfer(id),
+      pending_id: pendingId,
+      flags: TRANSFER_FLAGS.void_PENDING_TRANSFER,
+    });
+  }
+
+  /**
+   * Submit an ordered list of legs as one TigerBeetle linked chain: every leg is created or none is.
+   * A failure names the leg that broke the chain (see submitLinked).
+   */
+  async createLinkedTransfers(legs: TransferLeg[]): Promise<LinkedTransferResult> {
+    if (legs.length === 0 || legs.length > CLEARING_BATCH_MAX) {
+      throw new Error(`A linked chain needs 1 to ${CLEARING_BATCH_MAX} legs, got ${legs.length}`);
+    }
+
+    return this.submitGuardedChain(legs.map((leg, i) => ({
+      ...this.blankTransfer(leg.id),
+      ...transferDetailFields(leg.details),
+      debit_account_id: leg.debitAccount,
+      credit_account_id: leg.creditAccount,
+      amount: leg.amount,
+      timeout: leg.pendingTimeoutSeconds ?? 0,
+      ledger: leg.ledger,
+      flags: (leg.pendingTimeoutSeconds !== undefined ? TRANSFER_FLAGS.PENDING : TRANSFER_FLAGS.NONE)
+        | (i < legs.length - 1 ? TRANSFER_FLAGS.LINKED : 0),
+    })));
+  }
+
+  /**
+   * Post several pending transfers atomically (e.g. both legs of an exchange).
+   */
+  async postPendingTransfers(pendingIds: bigint[], ids: bigint[]): Promise<LinkedTransferResult> {
+    return this.submitLinked(pendingIds.map((pendingId, i) => ({
+      ...this.blankTransfer(ids[i]),
+      amount: amount_max,
+      pending_id: pendingId,
+      flags: TRANSFER_FLAGS.POST_PENDING_TRANSFER | (i < pendingIds.length - 1 ? TRANSFER_FLAGS.LINKED : 0),
+    })));
+  }
+
+  /**
+   * Void several pending transfers atomically.
+   */
+  async voidPendingTransfers(pendingIds: bigint[], ids: bigint[]): Promise<LinkedTransferResult> {
+    return this.submitLinked(pendingIds.map((pendingId, i) => ({
+      ...this.blankTransfer(ids[i]),
+      pending_id: pendingId,
+      flags: TRANSFER_FLAGS.void_PENDING_TRANSFER | (i < pendingIds.length - 1 ? TRANSFER_FLAGS.LINKED : 0),
+    })));
+  }
+
+  private blankTransfer(id?: bigint): Transfer {
+    return {
+      id: id || tigerBeetleId(), // Time-based and monotonic: unique even within one millisecond
+      debit_account_id: 0n,
+      credit_account_id: 0n,
+      amount: 0n,
       pending_id: 0n,
       user_data_128: 0n,
       user_data_64: 0n,
       user_data_32: 0,
       timeout: 0,
-      ledger: ledger,
-      code: 1,
-      flags: 0,
+      ledger: 0,
+      code: 0,
+      flags: TRANSFER_FLAGS.NONE,
       timestamp: 0n,
     };
+  }
+
+  /**
+   * Submit a single transfer and name its outcome.
+   * An "exists" answer is only trusted after the stored transfer is compared with the request.
+   */
+  private async submitTransfer(transfer: Transfer): Promise<ClearingResult> {
+    if (!this.isConnected) {
+      return { ok: false, transferId: transfer.id, reason: 'client_unavailable', detail: 'client_unavailable' };
+    }
 
     try {
-      const errors = await this.client.createTransfers([transfer]);
-      if (errors.length > 0) {
-        // Idempotency Check:
-        // Error 46 = exists (transfer with this ID already exists)
-        // In a perfect system we'd verify the existing transfer matches params.
-        // For now, we accept "exists" as "already processed" -> success.
-        const realErrors = errors.filter(e => e.result !== 46);
-        
-        if (realErrors.length > 0) {
-          console.error('[TigerBeetle] Transfer failed:', realErrors);
-          return false;
-        } else {
-          console.warn(`[TigerBeetle] Transfer ${transferId} already exists (Idempotent success)`);
-          return true;
-        }
+      const errors = await this.queue.submit([transfer]);
+      if (errors.length === 0) {
+        return { ok: true, transferId: transfer.id, reason: 'created' };
+      }
+
+      const code = errors[0].result;
+      const reason = TRANSFER_ERROR_REASONS[code];
+      if (reason === 'exists') {
+        return this.verifyExistingTransfer(transfer);
+      }
+      if (reason === 'created') {
+        return { ok: true, transferId: transfer.id, reason: 'created' };
       }
-      return true;
+
+      console.error(`[TigerBeetle] Transfer ${transfer.id} rejected: ${CreateTransferError[code]}`);
+      return { ok: false, transferId: transfer.id, reason, detail: CreateTransferError[code] };
     } catch (e) {
       console.error('[TigerBeetle] Transfer exception:', e);
-      return false;
+      return {
+        ok: false,
+        transferId: transfer.id,
+        reason: 'client_error',
+        detail: e instanceof Error ? e.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Submit a linked chain and name its outcome.
+   * The result carries the id and reason of the transfer that broke the chain, not the
+   * linked_event_failed echoed by the others. A fully replayed chain is verified leg by leg.
+   */
+  private async submitLinked(transfers: Transfer[]): Promise<LinkedTransferResult> {
+    const first = transfers[0].id;
+    const transferIds = transfers.map(t => t.id);
+    if (!this.isConnected) {
+      return { ok: false, transferId: first, transferIds, reason: 'client_unavailable', detail: 'client_unavailable' };
+    }
+
+    try {
+      const errors = await this.queue.submit(transfers);
+      if (errors.length === 0) {
+        return { ok: true, transferId: first, transferIds, reason: 'created' };
+      }
+
+      const breaking = errors.find(e => e.result !== CreateTransferError.linked_event_failed) ?? errors[0];
+      const code = breaking.result;
+      const reason = TRANSFER_ERROR_REASONS[code];
+      if (reason === 'exists') {
+        // A replayed chain fails on its first leg; every leg must match for the replay to be a success
+        for (const [i, transfer] of transfers.entries()) {
+          const verified = await this.verifyExistingTransfer(transfer);
+          if (!verified.ok) return { ...verified, transferIds, failedLeg: i };
+        }
+        return { ok: true, transferId: first, transferIds, reason: 'exists' };
+      }
+
+      const failedId = transfers[breaking.index].id;
+      console.error(`[TigerBeetle] Linked transfer ${failedId} (leg ${breaking.index}) rejected: ${CreateTransferError[code]}`);
+      return { ok: false, transferId: failedId, transferIds, failedLeg: breaking.index, reason, detail: CreateTransferError[code] };
+    } catch (e) {
+      console.error('[TigerBeetle] Linked transfer exception:', e);
+      return {
+        ok: false,
+        transferId: first,
+        transferIds,
+        reason: 'client_error',
+        detail: e instanceof Error ? e.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Submit one new transfer, guarded by a reserve check when its debit account has a reserve.
+   */
+  private async submitGuarded(transfer: Transfer): Promise<ClearingResult> {
+    if (!this.registry.get(transfer.debit_account_id)?.reserve) return this.submitTransfer(transfer);
+    const { failedLeg, transferIds, ...result } = await this.submitGuardedChain([transfer]);
+    return result;
+  }
+
+  /**
+   * Submit a linked chain of new transfers with a reserve check for every debited account that has a
+   * reserve. A breached reserve is reported as 'below_reserve' against the caller's own leg; control
+   * transfers never appear in the result.
+   */
+  private async submitGuardedChain(transfers: Transfer[]): Promise<LinkedTransferResult> {
+    const { chain, origin } = this.withReserveChecks(transfers);
+    if (chain === transfers) return this.submitLinked(transfers);
+
+    const result = await this.submitLinked(chain);
+    const transferIds = transfers.map(t => t.id);
+    if (result.failedLeg === undefined) {
+      return { ...result, transferId: result.ok ? transferIds[0] : result.transferId, transferIds };
     }
+
+    const leg = origin[result.failedLeg];
+    const breached = chain[result.failedLeg].code === TRANSFER_CODES.RESERVE_CHECK && result.reason === 'insufficient_funds';
+    return {
+      ...result,
+      transferId: transferIds[leg],
+      transferIds,
+      failedLeg: leg,
+      ...(breached && { reason: 'below_reserve' as const }),
+    };
+  }
+
+  /**
+   * Insert the TigerBeetle balance-conditional transfer recipe after the last transfer that debits each
+   * account with a reserve: a pending transfer of the reserve to the control account, then its void.
+   * The pending transfer only fits if the account still holds the reserve after its debits, so a breach
+   * fails the whole chain atomically; the void hands the reserve straight back. `origin` maps every
+   * transfer of the chain to the index of the caller's transfer it belongs to.
+   */
+  private withReserveChecks(transfers: Transfer[]): { chain: Transfer[]; origin: number[] } {
+    const lastDebit = new Map<bigint, number>();
+    transfers.forEach((transfer, i) => {
+      if (this.registry.get(transfer.debit_account_id)?.reserve) lastDebit.set(transfer.debit_account_id, i);
+    });
+    if (lastDebit.size === 0) return { chain: transfers, origin: transfers.map((_, i) => i) };
+
+    const chain: Transfer[] = [];
+    const origin: number[] = [];
+    transfers.forEach((transfer, i) => {
+      chain.push({ ...transfer, flags: transfer.flags | TRANSFER_FLAGS.LINKED });
+      origin.push(i);
+      if (lastDebit.get(transfer.debit_account_id) !== i) return;
+
+      // Ids derive from the guarded transfer, so a replayed chain replays its checks
+      const check: Transfer = {
+        ...this.blankTransfer(hashToU128(`reserve-check:${transfer.id}`)),
+        debit_account_id: transfer.debit_account_id,
+        credit_account_id: reserveControlId(transfer.ledger),
+        amount: this.registry.get(transfer.debit_account_id)!.reserve!,
+        ledger: transfer.ledger,
+        code: TRANSFER_CODES.RESERVE_CHECK,
+        flags: TRANSFER_FLAGS.PENDING | TRANSFER_FLAGS.LINKED,
+      };
+      chain.push(check, {
+        ...this.blankTransfer(hashToU128(`reserve-check:${transfer.id}:void`)),
+        amount: check.amount, // Explicit so a replayed void compares equal to the stored one
+        pending_id: check.id,
+        flags: TRANSFER_FLAGS.void_PENDING_TRANSFER | TRANSFER_FLAGS.LINKED,
+      });
+      origin.push(i, i);
+    });
+    chain[chain.length - 1].flags &= ~TRANSFER_FLAGS.LINKED;
+    return { chain, origin };
+  }
+
+  /**
+   * Idempotency check: a replayed id is only a success if it describes the same obligation.
+   * Fields left zero on post/void transfers are inherited from the pending transfer, so they are skipped.
+   */
+  private async verifyExistingTransfer(requested: Transfer): Promise<ClearingResult> {
+    const [existing] = await this.client.lookupTransfers([requested.id]);
+    if (!existing) {
+      return { ok: false, transferId: requested.id, reason: 'client_error', detail: 'exists_but_not_found' };
+    }
+
+    const inherits = requested.pending_id !== 0n;
+    const mismatched: string[] = [];
+    const compare = (field: keyof Transfer, optional: boolean) => {
+      if (optional && (requested[field] === 0n || requested[field] === 0)) return;
+      if (requested[field] !== existing[field]) mismatched.push(field);
+    };
+
+    compare('debit_account_id', inherits);
+    compare('credit_account_id', inherits);
+    compare('ledger', inherits);
+    compare('code', inherits);
+    if (requested.amount !== amount_max) compare('amount', false);
+    compare('pending_id', false);
+    compare('user_data_128', false);
+    compare('user_data_64', false);
+    compare('user_data_32', false);
+    compare('timeout', false);
+    compare('flags', false);
+
+    if (mismatched.length > 0) {
+      console.error(`[TigerBeetle] Transfer ${requested.id} exists with different ${mismatched.join(', ')}`);
+      return {
+        ok: false,
+        transferId: requested.id,
+        reason: 'exists_with_different_fields',
+        detail: `exists_with_different_${mismatched.join('_and_')}`,
+      };
+    }
+
+    console.warn(`[TigerBeetle] Transfer ${requested.id} already exists (Idempotent success)`);
+    return { ok: true, transferId: requested.id, reason: 'exists' };
+  }
+
+  /**
+   * Batches sent by the clearing queue so far.
+   */
+  getQueueStats(): ClearingQueueStats {
+    return this.queue.getStats();
   }
 
   /**
@@ -203,14 +1169,185 @@ export class TigerBeetleService {
       return 0n;
     }
   }
+
+  /**
+   * Get posted and pending balance for an account.
+   * Returns null if the account does not exist in TigerBeetle.
+   */
+  async getLedgerBalance(accountId: bigint): Promise<LedgerBalance | null> {
+    if (!this.isConnected) return null;
+
+    const accounts = await this.client.lookupAccounts([accountId]);
+    if (accounts.length === 0) return null;
+
+    const acc = accounts[0];
+    return {
+      accountId,
+      posted: acc.credits_posted - acc.debits_posted,
+      pending: acc.debits_pending,
+    };
+  }
+
+  /**
+   * Get the user's entitlement balance without provisioning an account.
+   * Users not yet migrated report their newest legacy account; users without any account have a zero balance.
+   */
+  async getUserBalance(userId: string, ledger: number = LEDGER_IDS[PRIMARY_CURRENCY]): Promise<LedgerBalance> {
+    const accountId = this.userAccountId(userId, ledger);
+    for (const id of [accountId, ...this.legacyUserAccountIds(userId, ledger)]) {
+      const balance = await this.getLedgerBalance(id);
+      if (balance) return balance;
+    }
+    return { accountId, posted: 0n, pending: 0n };
+  }
+
+  /**
+   * Transfers that touched an account, oldest first unless `reverse` is set.
+   */
+  async getAccountTransfers(accountId: bigint, query: AccountHistoryQuery = {}): Promise<Transfer[]> {
+    if (!this.isConnected) return [];
+    return this.client.getAccountTransfers(this.accountFilter(accountId, query));
+  }
+
+  /**
+   * Historical balances of an account, one per transfer that touched it.
+   * Only accounts with the `history` flag keep balances; others return an empty list.
+   */
+  async getAccountBalances(accountId: bigint, query: AccountHistoryQuery = {}): Promise<AccountBalance[]> {
+    if (!this.isConnected) return [];
+    return this.client.getAccountBalances(this.accountFilter(accountId, query));
+  }
+
+  /**
+   * Transfers on any account in commit order, oldest first unless `reverse` is set.
+   */
+  async queryTransfers(query: TransferQuery = {}): Promise<Transfer[]> {
+    if (!this.isConnected) return [];
+    const filter: QueryFilter = {
+      user_data_128: query.eventRef || 0n,
+      user_data_64: 0n,
+      user_data_32: 0,
+      ledger: query.ledger || 0,
+      code: query.code || 0,
+      timestamp_min: query.timestampMin || 0n,
+      timestamp_max: query.timestampMax || 0n,
+      limit: Math.min(Math.max(query.limit || ACCOUNT_HISTORY_DEFAULT_LIMIT, 1), ACCOUNT_HISTORY_MAX_LIMIT),
+      flags: query.reverse ? QueryFilterFlags.reversed : QueryFilterFlags.none,
+    };
+    return this.client.queryTransfers(filter);
+  }
+
+  private accountFilter(accountId: bigint, query: AccountHistoryQuery): AccountFilter {
+    const side = query.side || 'both';
+    let flags = AccountFilterFlags.none;
+    if (side !== 'credits') flags |= AccountFilterFlags.debits;
+    if (side !== 'debits') flags |= AccountFilterFlags.credits;
+    if (query.reverse) flags |= AccountFilterFlags.reversed;
+
+    return {
+      account_id: accountId,
+      user_data_128: query.eventRef || 0n,
+      user_data_64: 0n,
+      user_data_32: 0,
+      code: query.code || 0,
+      timestamp_min: query.timestampMin || 0n,
+      timestamp_max: query.timestampMax || 0n,
+      limit: Math.min(Math.max(query.limit || ACCOUNT_HISTORY_DEFAULT_LIMIT, 1), ACCOUNT_HISTORY_MAX_LIMIT),
+      flags,
+    };
+  }
+}
+
+/**
+ * Build a clearing service for the configured backend.
+ * The memory backend is a fresh, empty ledger per call.
+ */
+export function createClearingService(config: ClearingConfig = {}): TigerBeetleService {
+  const backend: ClearingBackend = config.backend || 'tigerbeetle';
+  if (backend === 'memory') {
+    console.warn('[TigerBeetle] Using in-memory clearing backend (state is not persisted)');
+    return new TigerBeetleService({ client: new InMemoryTigerBeetle(), queue: config.queue, velocityLimits: config.velocityLimits });
+  }
+  // The audit log and the registry share one pool
+  let pool: Pool | undefined;
+  const postgres = () => (pool ??= new Pool(postgresConfigFromEnv()));
+  return new TigerBeetleService({
+    queue: config.queue,
+    velocityLimits: config.velocityLimits,
+    probeTimeoutMs: config.probeTimeoutMs,
+    backoff: config.backoff,
+    audit: (config.transferAudit || 'postgres') === 'postgres' ? new PostgresTransferAuditLog(postgres()) : undefined,
+    registryStore: (config.accountRegistry || 'postgres') === 'postgres' ? new PostgresAccountRegistryStore(postgres()) : undefined,
+  });
 }
 
 // Singleton
 let instance: TigerBeetleService | null = null;
 export function getTigerBeetle(): TigerBeetleService {
-  if (!instance) instance = new TigerBeetleService();
+  if (!instance) {
+    instance = createClearingService({
+      backend: (process.env.CLEARING_BACKEND as ClearingBackend) || 'tigerbeetle',
+      transferAudit: process.env.TRANSFER_AUDIT as ClearingPersistence | undefined,
+      accountRegistry: process.env.ACCOUNT_REGISTRY as ClearingPersistence | undefined,
+    });
+  }
   return instance;
 }
 
+/**
+ * user_data_128 linking a transfer to the CreditEvent it clears (the SpendEngine derives transfer ids the same way).
+ */
+export function eventRefFor(eventId: string): bigint {
+  return hashToU128(eventId);
+}
+
 // Helpers
 function nr(n: number): number { return n; }
+
+function transferDetailFields(details: TransferDetails): Pick<Transfer, 'code' | 'user_data_128' | 'user_data_64'> {
+  return {
+    code: details.code,
+    user_data_128: details.eventRef ?? 0n,
+    user_data_64: BigInt(details.anchorType ?? 0),
+  };
+}
+
+function userAccountIdAtVersion(userId: string, ledger: number, version: number): bigint | undefined {
+  const primary = ledger === LEDGER_IDS[PRIMARY_CURRENCY];
+  if (version === 0) return primary ? hashToU128(`user-account:${userId}`) : undefined;
+  return hashToU128(primary ? `user-account:v${version}:${userId}` : `user-account:v${version}:${ledger}:${userId}`);
+}
+
+function velocityAccountId(userId: string, window: VelocityWindow, ledger: number): bigint {
+  return hashToU128(`velocity:${window}:${ledger}:${userId}`);
+}
+
+function velocityOperatorId(ledger: number): bigint {
+  return hashToU128(`velocity-operator:${ledger}`);
+}
+
+function reserveControlId(ledger: number): bigint {
+  return hashToU128(`reserve-control:${ledger}`);
+}
+
+function classAccount(id: bigint, accountClass: AccountClass, ledger: number): Account {
+  return {
+    id,
+    debits_pending: 0n,
+    debits_posted: 0n,
+    credits_pending: 0n,
+    credits_posted: 0n,
+    user_data_128: 0n,
+    user_data_64: 0n,
+    user_data_32: 0,
+    reserved: 0,
+    ledger,
+    code: ACCOUNT_CLASS_CODES[accountClass],
+    flags: ACCOUNT_CLASS_FLAGS[accountClass],
+    timestamp: 0n,
+  };
+}
+
+function hashToU128(value: string): bigint {
+  return BigInt(keccakId(value)) & U128_MASK;
+}
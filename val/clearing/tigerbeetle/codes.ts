@@ -0,0 +1,79 @@
+/**
+ * TigerBeetle Account & Transfer Codes
+ *
+ * Shared constants from TIGERBEETLE_LEDGER_SCHEMA.md. The `code` field says what an
+ * account is or why a transfer happened, so the ledger is readable without the
+ * Narrative Mirror.
+ */
+
+import { AnchorType } from '../../shared/narrative-mirror-bridge';
+
+export const ACCOUNT_CODES = {
+  USER: 1,           // End-user wallet
+  MERCHANT: 2,       // Business receiving payment
+  TREASURY: 3,       // Root treasury (minting source)
+  ESCROW: 4,         // Locked funds for contracts
+  FEE_POOL: 5,       // Protocol fees
+  ANCHOR: 6,         // Anchor obligation account
+  SYSTEM_BUFFER: 7,  // Temporary holding during auth
+  VELOCITY_LIMIT: 8, // Spend allowance on a rate-limiting ledger
+} as const;
+
+export type AccountCode = typeof ACCOUNT_CODES[keyof typeof ACCOUNT_CODES];
+
+export const TRANSFER_CODES = {
+  // Basic operations
+  DEPOSIT: 1,
+  WITHDRAWAL: 2,
+  PAYMENT: 3,
+  REFUND: 4,
+  FEE: 5,
+
+  // Anchor operations
+  ANCHOR_AUTHORIZATION: 10,
+  ANCHOR_FULFILLMENT: 11,
+  ANCHOR_EXPIRY: 12,
+
+  // Escrow operations
+  ESCROW_LOCK: 20,
+  ESCROW_RELEASE: 21,
+  ESCROW_VOID: 22,
+
+  // Settlement
+  SETTLEMENT: 30,
+  SETTLEMENT_REVERSAL: 31,
+
+  // Ledger maintenance
+  ACCOUNT_MIGRATION: 40,
+  ACCOUNT_FREEZE: 41,
+  ACCOUNT_CLOSE: 42,
+
+  // Velocity limits
+  VELOCITY_ALLOWANCE: 50,   // Operator sets a member's cap
+  VELOCITY_RESERVATION: 51, // Spend holds part of the cap until the window times out
+
+  // Balance conditions
+  RESERVE_CHECK: 60,        // Pending control transfer proving a debit leaves the reserve in place
+
+  // Corrections
+  SPEND_CORRECTION: 70,     // Compensating transfer for a cleared spend, approved by a trustee
+} as const;
+
+export type TransferCode = typeof TRANSFER_CODES[keyof typeof TRANSFER_CODES];
+
+/**
+ * Anchor type carried in a transfer's user_data_64 (0 = not anchor-backed).
+ * Matches the last digit of the OBSERVED_ANCHOR_*_OBLIGATION chart numbers.
+ */
+export const ANCHOR_TYPE_CODES: Record<AnchorType, number> = {
+  GROCERY: 1,
+  UTILITY: 2,
+  FUEL: 3,
+  MOBILE: 4,
+  HOUSING: 5,
+  MEDICAL: 6,
+};
+
+export function anchorTypeFromCode(code: number): AnchorType | undefined {
+  return (Object.keys(ANCHOR_TYPE_CODES) as AnchorType[]).find(type => ANCHOR_TYPE_CODES[type] === code);
+}
@@ -0,0 +1,133 @@
+/**
+ * Local Exchange Rate Table
+ *
+ * Rates are quoted against the primary currency (1 USD = rate units) and held as
+ * fixed-point integers so conversions never touch floating point.
+ * Conversions round in favor of the liquidity accounts to deter arbitrage.
+ */
+
+import { Currency, PRIMARY_CURRENCY, SUPPORTED_CURRENCIES, resolveCurrency } from './ledgers';
+import { referenceAccountId } from './accounts';
+import { PendingExchange, TransferLeg } from './types';
+
+const RATE_DECIMALS = 9;
+const RATE_SCALE = 10n ** BigInt(RATE_DECIMALS);
+
+export const DEFAULT_EXCHANGE_RATES: Record<Currency, string> = {
+  USD: '1',
+  EUR: '0.92',
+  GBP: '0.79',
+  USDC: '1',
+  sFIAT: '1',
+};
+
+export interface ExchangeQuote {
+  from: Currency;
+  to: Currency;
+  /** Debited from the payer on the `from` ledger */
+  sourceAmount: bigint;
+  /** Credited to the payee on the `to` ledger */
+  destinationAmount: bigint;
+  /** Units of `to` per unit of `from`, as a decimal string */
+  rate: string;
+}
+
+export class ExchangeRateTable {
+  private rates: Map<Currency, bigint> = new Map();
+
+  constructor(rates: Partial<Record<string, string>> = {}) {
+    for (const [currency, rate] of Object.entries({ ...DEFAULT_EXCHANGE_RATES, ...rates })) {
+      this.setRate(currency, rate!);
+    }
+  }
+
+  /**
+   * Set how many units of `currency` one unit of the primary currency buys.
+   */
+  setRate(currency: string, rate: string): void {
+    const resolved = resolveCurrency(currency);
+    const fixed = parseFixed(rate);
+    if (fixed <= 0n) throw new Error(`Exchange rate for ${resolved} must be positive: ${rate}`);
+    if (resolved === PRIMARY_CURRENCY && fixed !== RATE_SCALE) {
+      throw new Error(`Exchange rate for ${PRIMARY_CURRENCY} is fixed at 1`);
+    }
+    this.rates.set(resolved, fixed);
+  }
+
+  getRates(): Record<Currency, string> {
+    const result = {} as Record<Currency, string>;
+    for (const currency of SUPPORTED_CURRENCIES) {
+      result[currency] = formatFixed(this.rate(currency));
+    }
+    return result;
+  }
+
+  /**
+   * Quote the source amount needed to deliver `destinationAmount` of `to`.
+   * The payer is charged the rounded-up amount.
+   */
+  quoteForDestination(from: string, to: string, destinationAmount: bigint): ExchangeQuote {
+    const source = resolveCurrency(from);
+    const destination = resolveCurrency(to);
+    const numerator = destinationAmount * this.rate(source);
+    const denominator = this.rate(destination);
+    return {
+      from: source,
+      to: destination,
+      sourceAmount: (numerator + denominator - 1n) / denominator,
+      destinationAmount,
+      rate: formatFixed((this.rate(destination) * RATE_SCALE) / this.rate(source)),
+    };
+  }
+
+  private rate(currency: Currency): bigint {
+    const rate = this.rates.get(currency);
+    if (rate === undefined) throw new Error(`No exchange rate for ${currency}`);
+    return rate;
+  }
+}
+
+/**
+ * Legs of a cross-currency reservation (TigerBeetle currency-exchange recipe), for createLinkedTransfers:
+ *   source ledger:      payer -> FX_LIQUIDITY        (sourceAmount)
+ *   destination ledger: FX_LIQUIDITY -> payee        (destinationAmount)
+ * The liquidity accounts on both ledgers belong to the same provider, so the rate is recorded
+ * by the two amounts. Resolve with postPendingTransfers / voidPendingTransfers on both ids.
+ */
+export function exchangeLegs(exchange: PendingExchange): TransferLeg[] {
+  const [sourceId, destinationId] = exchange.ids;
+  return [
+    {
+      id: sourceId,
+      debitAccount: exchange.debitAccount,
+      creditAccount: referenceAccountId('FX_LIQUIDITY', exchange.sourceLedger),
+      amount: exchange.sourceAmount,
+      ledger: exchange.sourceLedger,
+      details: exchange.details,
+      pendingTimeoutSeconds: exchange.timeoutSeconds,
+    },
+    {
+      id: destinationId,
+      debitAccount: referenceAccountId('FX_LIQUIDITY', exchange.destinationLedger),
+      creditAccount: exchange.creditAccount,
+      amount: exchange.destinationAmount,
+      ledger: exchange.destinationLedger,
+      details: exchange.details,
+      pendingTimeoutSeconds: exchange.timeoutSeconds,
+    },
+  ];
+}
+
+function parseFixed(value: string): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid exchange rate: ${value}`);
+  const fraction = (match[2] || '').padEnd(RATE_DECIMALS, '0');
+  if (fraction.length > RATE_DECIMALS) throw new Error(`Exchange rate has more than ${RATE_DECIMALS} decimals: ${value}`);
+  return BigInt(match[1]) * RATE_SCALE + BigInt(fraction);
+}
+
+function formatFixed(value: bigint): string {
+  const whole = value / RATE_SCALE;
+  const fraction = (value % RATE_SCALE).toString().padStart(RATE_DECIMALS, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
@@ -0,0 +1,55 @@
+/**
+ * TigerBeetle Ledgers
+ *
+ * One ledger per currency (see LEDGER_IDS in TIGERBEETLE_LEDGER_SCHEMA.md).
+ * TigerBeetle never moves value between ledgers; cross-currency clearing is
+ * a linked exchange through liquidity accounts (see exchange.ts).
+ *
+ * Every ledger uses the same asset scale: amounts are micro-units (10^6).
+ */
+
+export const LEDGER_IDS = {
+  // Fiat currencies
+  USD: 1,
+  EUR: 2,
+  GBP: 3,
+
+  // Crypto assets
+  USDC: 101,
+
+  // Platform tokens
+  sFIAT: 998,
+} as const;
+
+export type Currency = keyof typeof LEDGER_IDS;
+
+/** Ledger every account lived on before multi-currency support */
+export const PRIMARY_CURRENCY: Currency = 'USD';
+
+export const SUPPORTED_CURRENCIES = Object.keys(LEDGER_IDS) as Currency[];
+
+export class UnsupportedCurrencyError extends Error {
+  constructor(public currency: string) {
+    super(`Unsupported currency: ${currency}. Supported: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    this.name = 'UnsupportedCurrencyError';
+  }
+}
+
+/**
+ * Normalize a currency code (case-insensitive, e.g. 'usdc' -> 'USDC', 'sfiat' -> 'sFIAT').
+ * Missing currency means the primary currency.
+ */
+export function resolveCurrency(currency?: string): Currency {
+  if (!currency) return PRIMARY_CURRENCY;
+  const match = SUPPORTED_CURRENCIES.find(c => c.toUpperCase() === currency.toUpperCase());
+  if (!match) throw new UnsupportedCurrencyError(currency);
+  return match;
+}
+
+export function ledgerFor(currency?: string): number {
+  return LEDGER_IDS[resolveCurrency(currency)];
+}
+
+export function currencyFor(ledger: number): Currency | undefined {
+  return SUPPORTED_CURRENCIES.find(c => LEDGER_IDS[c] === ledger);
+}
@@ -0,0 +1,653 @@
+/**
+ * In-Memory TigerBeetle
+ *
+ * Deterministic, in-process stand-in for the tigerbeetle-node Client.
+ * Follows the replica's state machine rules for the features we clear with:
+ * idempotent ids, account balance flags, pending/post/void/expiry,
+ * closing transfers, balancing transfers, linked chains and account history.
+ *
+ * It is a test and local-development backend. It is NOT a clearing authority:
+ * state lives only as long as the process.
+ */
+
+import {
+  Account,
+  AccountBalance,
+  AccountFilter,
+  AccountFilterFlags,
+  AccountFlags,
+  Client,
+  CreateAccountError,
+  CreateAccountsError,
+  CreateTransferError,
+  CreateTransfersError,
+  QueryFilter,
+  QueryFilterFlags,
+  Transfer,
+  TransferFlags,
+  amount_max,
+} from 'tigerbeetle-node';
+
+const U128_MAX = amount_max;
+const NS_PER_SECOND = 1_000_000_000n;
+
+const ACCOUNT_FLAGS_ALL =
+  AccountFlags.linked |
+  AccountFlags.debits_must_not_exceed_credits |
+  AccountFlags.credits_must_not_exceed_debits |
+  AccountFlags.history |
+  AccountFlags.imported |
+  AccountFlags.closed;
+
+const TRANSFER_FLAGS_ALL =
+  TransferFlags.linked |
+  TransferFlags.pending |
+  TransferFlags.post_pending_transfer |
+  TransferFlags.void_pending_transfer |
+  TransferFlags.balancing_debit |
+  TransferFlags.balancing_credit |
+  TransferFlags.closing_debit |
+  TransferFlags.closing_credit |
+  TransferFlags.imported;
+
+// Results that depend on ledger state; their ids can never be reused (id_already_failed)
+const TRANSIENT_TRANSFER_ERRORS = new Set<CreateTransferError>([
+  CreateTransferError.debit_account_not_found,
+  CreateTransferError.credit_account_not_found,
+  CreateTransferError.pending_transfer_not_found,
+  CreateTransferError.exceeds_credits,
+  CreateTransferError.exceeds_debits,
+  CreateTransferError.debit_account_already_closed,
+  CreateTransferError.credit_account_already_closed,
+]);
+
+type PendingStatus = 'pending' | 'posted' | 'voided' | 'expired';
+
+interface HistoryEntry {
+  transfer: Transfer;
+  balance: AccountBalance;
+}
+
+/**
+ * Nanosecond clock. Defaults to wall time; tests inject a manual clock to drive expiry.
+ */
+export type LedgerClock = () => bigint;
+
+export const wallClock: LedgerClock = () => BigInt(Date.now()) * 1_000_000n;
+
+export class InMemoryTigerBeetle implements Client {
+  private accounts: Map<bigint, Account> = new Map();
+  private transfers: Map<bigint, Transfer> = new Map();
+  private accountLog: Account[] = [];   // insertion (timestamp) order
+  private transferLog: Transfer[] = []; // insertion (timestamp) order
+  private pendingStatus: Map<bigint, PendingStatus> = new Map();
+  private pendingWithTimeout: Set<bigint> = new Set();
+  private failedTransferIds: Set<bigint> = new Set();
+  private history: Map<bigint, HistoryEntry[]> = new Map();
+  private lastTimestamp: bigint = 0n;
+  private destroyed: boolean = false;
+
+  // Undo log for the linked chain currently being applied (null outside a chain)
+  private undoLog: (() => void)[] | null = null;
+
+  constructor(private clock: LedgerClock = wallClock) {}
+
+  // ===========================================================================
+  // CLIENT API
+  // ===========================================================================
+
+  createAccounts = async (batch: Account[]): Promise<CreateAccountsError[]> => {
+    this.assertOpen();
+    this.expirePendingTransfers();
+    return this.applyBatch(batch, (account) => this.createAccount(account)).map(
+      ({ index, result }) => ({ index, result: result as CreateAccountError })
+    );
+  };
+
+  createTransfers = async (batch: Transfer[]): Promise<CreateTransfersError[]> => {
+    this.assertOpen();
+    this.expirePendingTransfers();
+    return this.applyBatch(batch, (transfer) => this.createTransfer(transfer)).map(
+      ({ index, result }) => ({ index, result: result as CreateTransferError })
+    );
+  };
+
+  lookupAccounts = async (batch: bigint[]): Promise<Account[]> => {
+    this.assertOpen();
+    this.expirePendingTransfers();
+    return batch
+      .map(id => this.accounts.get(id))
+      .filter((a): a is Account => a !== undefined)
+      .map(a => ({ ...a }));
+  };
+
+  lookupTransfers = async (batch: bigint[]): Promise<Transfer[]> => {
+    this.assertOpen();
+    return batch
+      .map(id => this.transfers.get(id))
+      .filter((t): t is Transfer => t !== undefined)
+      .map(t => ({ ...t }));
+  };
+
+  getAccountTransfers = async (filter: AccountFilter): Promise<Transfer[]> => {
+    this.assertOpen();
+    this.expirePendingTransfers();
+    if (!this.validAccountFilter(filter)) return [];
+
+    const matches = this.transferLog.filter(t => this.matchesAccountFilter(t, filter));
+    return this.window(matches, filter.limit, (filter.flags & AccountFilterFlags.reversed) !== 0)
+      .map(t => ({ ...t }));
+  };
+
+  getAccountBalances = async (filter: AccountFilter): Promise<AccountBalance[]> => {
+    this.assertOpen();
+    this.expirePendingTransfers();
+    if (!this.validAccountFilter(filter)) return [];
+
+    const account = this.accounts.get(filter.account_id);
+    if (!account || (account.flags & AccountFlags.history) === 0) return [];
+
+    const entries = (this.history.get(filter.account_id) || [])
+      .filter(entry => this.matchesAccountFilter(entry.transfer, filter));
+    return this.window(entries, filter.limit, (filter.flags & AccountFilterFlags.reversed) !== 0)
+      .map(entry => ({ ...entry.balance }));
+  };
+
+  queryAccounts = async (filter: QueryFilter): Promise<Account[]> => {
+    this.assertOpen();
+    this.expirePendingTransfers();
+    const matches = this.accountLog.filter(a => this.matchesQueryFilter(a, filter));
+    return this.window(matches, filter.limit, (filter.flags & QueryFilterFlags.reversed) !== 0)
+      .map(a => ({ ...this.accounts.get(a.id)! }));
+  };
+
+  queryTransfers = async (filter: QueryFilter): Promise<Transfer[]> => {
+    this.assertOpen();
+    const matches = this.transferLog.filter(t => this.matchesQueryFilter(t, filter));
+    return this.window(matches, filter.limit, (filter.flags & QueryFilterFlags.reversed) !== 0)
+      .map(t => ({ ...t }));
+  };
+
+  destroy = (): void => {
+    this.destroyed = true;
+  };
+
+  // ===========================================================================
+  // BATCH + LINKED CHAIN SEMANTICS
+  // ===========================================================================
+
+  /**
+   * Apply events in order. Events flagged `linked` form a chain with the next event;
+   * a failure anywhere in the chain rolls the whole chain back.
+   */
+  private applyBatch<T extends { flags: number }>(
+    batch: T[],
+    apply: (event: T) => number
+  ): { index: number; result: number }[] {
+    const results: { index: number; result: number }[] = [];
+    let chainStart: number | null = null;
+    let chainFailed = false;
+
+    for (let index = 0; index < batch.length; index++) {
+      const event = batch[index];
+      const linked = (event.flags & TransferFlags.linked) !== 0; // same bit for accounts
+
+      if (chainStart === null && linked) {
+        chainStart = index;
+        chainFailed = false;
+        this.undoLog = [];
+      }
+
+      let result: number;
+      if (chainFailed) {
+        result = CreateTransferError.linked_event_failed;
+      } else if (linked && index === batch.length - 1) {
+        result = CreateTransferError.linked_event_chain_open;
+      } else {
+        result = apply(event);
+      }
+
+      if (result !== 0 && chainStart !== null && !chainFailed) {
+        // Roll back everything the chain applied so far and fail the earlier events
+        chainFailed = true;
+        this.rollbackChain();
+        for (let i = chainStart; i < index; i++) {
+          results.push({ index: i, result: CreateTransferError.linked_event_failed });
+        }
+      }
+
+      if (result !== 0) {
+        results.push({ index, result });
+      }
+
+      if (chainStart !== null && !linked) {
+        // This event closes the chain
+        chainStart = null;
+        chainFailed = false;
+        this.undoLog = null;
+      }
+    }
+
+    if (chainStart !== null) {
+      // Chain left open at the end of the batch (already reported per event)
+      this.undoLog = null;
+    }
+
+    return results.sort((a, b) => a.index - b.index);
+  }
+
+  private rollbackChain(): void {
+    const undo = this.undoLog || [];
+    for (let i = undo.length - 1; i >= 0; i--) undo[i]();
+    this.undoLog = [];
+  }
+
+  private recordUndo(fn: () => void): void {
+    if (this.undoLog) this.undoLog.push(fn);
+  }
+
+  private updateAccount(account: Account, mutate: (a: Account) => void): void {
+    const before = { ...account };
+    mutate(account);
+    this.recordUndo(() => Object.assign(account, before));
+  }
+
+  private nextTimestamp(): bigint {
+    const now = this.clock();
+    this.lastTimestamp = now > this.lastTimestamp ? now : this.lastTimestamp + 1n;
+    return this.lastTimestamp;
+  }
+
+  // ===========================================================================
+  // ACCOUNTS
+  // ===========================================================================
+
+  private createAccount(a: Account): CreateAccountError {
+    if ((a.flags & AccountFlags.imported) !== 0) return CreateAccountError.imported_event_not_expected;
+    if (a.timestamp !== 0n) return CreateAccountError.timestamp_must_be_zero;
+    if (a.reserved !== 0) return CreateAccountError.reserved_field;
+    if ((a.flags & ~ACCOUNT_FLAGS_ALL) !== 0) return CreateAccountError.reserved_flag;
+    if (a.id === 0n) return CreateAccountError.id_must_not_be_zero;
+    if (a.id === U128_MAX) return CreateAccountError.id_must_not_be_int_max;
+
+    const existing = this.accounts.get(a.id);
+    if (existing) {
+      if (a.flags !== existing.flags) return CreateAccountError.exists_with_different_flags;
+      if (a.user_data_128 !== existing.user_data_128) return CreateAccountError.exists_with_different_user_data_128;
+      if (a.user_data_64 !== existing.user_data_64) return CreateAccountError.exists_with_different_user_data_64;
+      if (a.user_data_32 !== existing.user_data_32) return CreateAccountError.exists_with_different_user_data_32;
+      if (a.ledger !== existing.ledger) return CreateAccountError.exists_with_different_ledger;
+      if (a.code !== existing.code) return CreateAccountError.exists_with_different_code;
+      return CreateAccountError.exists;
+    }
+
+    if ((a.flags & AccountFlags.debits_must_not_exceed_credits) !== 0 &&
+        (a.flags & AccountFlags.credits_must_not_exceed_debits) !== 0) {
+      return CreateAccountError.flags_are_mutually_exclusive;
+    }
+    if (a.debits_pending !== 0n) return CreateAccountError.debits_pending_must_be_zero;
+    if (a.debits_posted !== 0n) return CreateAccountError.debits_posted_must_be_zero;
+    if (a.credits_pending !== 0n) return CreateAccountError.credits_pending_must_be_zero;
+    if (a.credits_posted !== 0n) return CreateAccountError.credits_posted_must_be_zero;
+    if (a.ledger === 0) return CreateAccountError.ledger_must_not_be_zero;
+    if (a.code === 0) return CreateAccountError.code_must_not_be_zero;
+
+    const account: Account = { ...a, timestamp: this.nextTimestamp() };
+    this.accounts.set(account.id, account);
+    this.accountLog.push(account);
+    this.recordUndo(() => {
+      this.accounts.delete(account.id);
+      this.accountLog.pop();
+    });
+    return CreateAccountError.ok;
+  }
+
+  // ===========================================================================
+  // TRANSFERS
+  // ===========================================================================
+
+  private createTransfer(t: Transfer): CreateTransferError {
+    const result = this.validateAndApplyTransfer(t);
+    if (TRANSIENT_TRANSFER_ERRORS.has(result)) {
+      this.failedTransferIds.add(t.id);
+    }
+    return result;
+  }
+
+  private validateAndApplyTransfer(t: Transfer): CreateTransferError {
+    const has = (flag: TransferFlags) => (t.flags & flag) !== 0;
+
+    if (has(TransferFlags.imported)) return CreateTransferError.imported_event_not_expected;
+    if (t.timestamp !== 0n) return CreateTransferError.timestamp_must_be_zero;
+    if ((t.flags & ~TRANSFER_FLAGS_ALL) !== 0) return CreateTransferError.reserved_flag;
+    if (t.id === 0n) return CreateTransferError.id_must_not_be_zero;
+    if (t.id === U128_MAX) return CreateTransferError.id_must_not_be_int_max;
+
+    const existing = this.transfers.get(t.id);
+    if (existing) return this.transferExists(t, existing);
+    if (this.failedTransferIds.has(t.id)) return CreateTransferError.id_already_failed;
+
+    if (has(TransferFlags.post_pending_transfer) || has(TransferFlags.void_pending_transfer)) {
+      return this.postOrVoidPendingTransfer(t);
+    }
+
+    if (t.debit_account_id === 0n) return CreateTransferError.debit_account_id_must_not_be_zero;
+    if (t.debit_account_id === U128_MAX) return CreateTransferError.debit_account_id_must_not_be_int_max;
+    if (t.credit_account_id === 0n) return CreateTransferError.credit_account_id_must_not_be_zero;
+    if (t.credit_account_id === U128_MAX) return CreateTransferError.credit_account_id_must_not_be_int_max;
+    if (t.credit_account_id === t.debit_account_id) return CreateTransferError.accounts_must_be_different;
+    if (t.pending_id !== 0n) return CreateTransferError.pending_id_must_be_zero;
+    if (!has(TransferFlags.pending)) {
+      if (t.timeout !== 0) return CreateTransferError.timeout_reserved_for_pending_transfer;
+      if (has(TransferFlags.closing_debit) || has(TransferFlags.closing_credit)) {
+        return CreateTransferError.closing_transfer_must_be_pending;
+      }
+    }
+    if (t.ledger === 0) return CreateTransferError.ledger_must_not_be_zero;
+    if (t.code === 0) return CreateTransferError.code_must_not_be_zero;
+
+    const dr = this.accounts.get(t.debit_account_id);
+    if (!dr) return CreateTransferError.debit_account_not_found;
+    const cr = this.accounts.get(t.credit_account_id);
+    if (!cr) return CreateTransferError.credit_account_not_found;
+    if (dr.ledger !== cr.ledger) return CreateTransferError.accounts_must_have_the_same_ledger;
+    if (t.ledger !== dr.ledger) return CreateTransferError.transfer_must_have_the_same_ledger_as_accounts;
+    if ((dr.flags & AccountFlags.closed) !== 0) return CreateTransferError.debit_account_already_closed;
+    if ((cr.flags & AccountFlags.closed) !== 0) return CreateTransferError.credit_account_already_closed;
+
+    let amount = t.amount;
+    if (has(TransferFlags.balancing_debit)) {
+      amount = min(amount, saturatingSub(dr.credits_posted, dr.debits_posted + dr.debits_pending));
+    }
+    if (has(TransferFlags.balancing_credit)) {
+      amount = min(amount, saturatingSub(cr.debits_posted, cr.credits_posted + cr.credits_pending));
+    }
+
+    if (has(TransferFlags.pending)) {
+      if (amount + dr.debits_pending > U128_MAX) return CreateTransferError.overflows_debits_pending;
+      if (amount + cr.credits_pending > U128_MAX) return CreateTransferError.overflows_credits_pending;
+    }
+    if (amount + dr.debits_posted > U128_MAX) return CreateTransferError.overflows_debits_posted;
+    if (amount + cr.credits_posted > U128_MAX) return CreateTransferError.overflows_credits_posted;
+    if (amount + dr.debits_pending + dr.debits_posted > U128_MAX) return CreateTransferError.overflows_debits;
+    if (amount + cr.credits_pending + cr.credits_posted > U128_MAX) return CreateTransferError.overflows_credits;
+
+    if ((dr.flags & AccountFlags.debits_must_not_exceed_credits) !== 0 &&
+        dr.debits_pending + dr.debits_posted + amount > dr.credits_posted) {
+      return CreateTransferError.exceeds_credits;
+    }
+    if ((cr.flags & AccountFlags.credits_must_not_exceed_debits) !== 0 &&
+        cr.credits_pending + cr.credits_posted + amount > cr.debits_posted) {
+      return CreateTransferError.exceeds_debits;
+    }
+
+    const stored: Transfer = { ...t, amount, timestamp: this.nextTimestamp() };
+    this.insertTransfer(stored);
+
+    const pending = has(TransferFlags.pending);
+    this.updateAccount(dr, a => {
+      if (pending) a.debits_pending += amount; else a.debits_posted += amount;
+      if (has(TransferFlags.closing_debit)) a.flags |= AccountFlags.closed;
+    });
+    this.updateAccount(cr, a => {
+      if (pending) a.credits_pending += amount; else a.credits_posted += amount;
+      if (has(TransferFlags.closing_credit)) a.flags |= AccountFlags.closed;
+    });
+
+    if (pending) {
+      this.setPendingStatus(stored.id, 'pending');
+      if (stored.timeout > 0) {
+        this.pendingWithTimeout.add(stored.id);
+        this.recordUndo(() => this.pendingWithTimeout.delete(stored.id));
+      }
+    }
+
+    this.recordHistory(stored, dr, cr);
+    return CreateTransferError.ok;
+  }
+
+  private postOrVoidPendingTransfer(t: Transfer): CreateTransferError {
+    const has = (flag: TransferFlags) => (t.flags & flag) !== 0;
+    const post = has(TransferFlags.post_pending_transfer);
+
+    if (post && has(TransferFlags.void_pending_transfer)) return CreateTransferError.flags_are_mutually_exclusive;
+    if (has(TransferFlags.pending)) return CreateTransferError.flags_are_mutually_exclusive;
+    if (has(TransferFlags.balancing_debit)) return CreateTransferError.flags_are_mutually_exclusive;
+    if (has(TransferFlags.balancing_credit)) return CreateTransferError.flags_are_mutually_exclusive;
+    if (has(TransferFlags.closing_debit)) return CreateTransferError.flags_are_mutually_exclusive;
+    if (has(TransferFlags.closing_credit)) return CreateTransferError.flags_are_mutually_exclusive;
+    if (t.pending_id === 0n) return CreateTransferError.pending_id_must_not_be_zero;
+    if (t.pending_id === U128_MAX) return CreateTransferError.pending_id_must_not_be_int_max;
+    if (t.pending_id === t.id) return CreateTransferError.pending_id_must_be_different;
+    if (t.timeout !== 0) return CreateTransferError.timeout_reserved_for_pending_transfer;
+
+    const p = this.transfers.get(t.pending_id);
+    if (!p) return CreateTransferError.pending_transfer_not_found;
+    if ((p.flags & TransferFlags.pending) === 0) return CreateTransferError.pending_transfer_not_pending;
+
+    const dr = this.accounts.get(p.debit_account_id)!;
+    const cr = this.accounts.get(p.credit_account_id)!;
+
+    if (t.debit_account_id > 0n && t.debit_account_id !== p.debit_account_id) {
+      return CreateTransferError.pending_transfer_has_different_debit_account_id;
+    }
+    if (t.credit_account_id > 0n && t.credit_account_id !== p.credit_account_id) {
+      return CreateTransferError.pending_transfer_has_different_credit_account_id;
+    }
+    if (t.ledger > 0 && t.ledger !== p.ledger) return CreateTransferError.pending_transfer_has_different_ledger;
+    if (t.code > 0 && t.code !== p.code) return CreateTransferError.pending_transfer_has_different_code;
+
+    const amount = post
+      ? (t.amount === U128_MAX ? p.amount : t.amount)
+      : (t.amount === 0n ? p.amount : t.amount);
+    if (amount > p.amount) return CreateTransferError.exceeds_pending_transfer_amount;
+    if (!post && amount < p.amount) return CreateTransferError.pending_transfer_has_different_amount;
+
+    switch (this.pendingStatus.get(p.id)) {
+      case 'posted': return CreateTransferError.pending_transfer_already_posted;
+      case 'voided': return CreateTransferError.pending_transfer_already_voided;
+      case 'expired': return CreateTransferError.pending_transfer_expired;
+    }
+
+    const timestamp = this.nextTimestamp();
+    if (p.timeout > 0 && p.timestamp + BigInt(p.timeout) * NS_PER_SECOND <= timestamp) {
+      this.expirePendingTransfer(p);
+      return CreateTransferError.pending_transfer_expired;
+    }
+
+    if ((dr.flags & AccountFlags.closed) !== 0 && post) return CreateTransferError.debit_account_already_closed;
+    if ((cr.flags & AccountFlags.closed) !== 0 && post) return CreateTransferError.credit_account_already_closed;
+
+    const stored: Transfer = {
+      ...t,
+      debit_account_id: p.debit_account_id,
+      credit_account_id: p.credit_account_id,
+      user_data_128: t.user_data_128 > 0n ? t.user_data_128 : p.user_data_128,
+      user_data_64: t.user_data_64 > 0n ? t.user_data_64 : p.user_data_64,
+      user_data_32: t.user_data_32 > 0 ? t.user_data_32 : p.user_data_32,
+      ledger: p.ledger,
+      code: p.code,
+      timeout: 0,
+      amount,
+      timestamp,
+    };
+    this.insertTransfer(stored);
+    this.setPendingStatus(p.id, post ? 'posted' : 'voided');
+    this.pendingWithTimeout.delete(p.id);
+    this.recordUndo(() => { if (p.timeout > 0) this.pendingWithTimeout.add(p.id); });
+
+    this.updateAccount(dr, a => {
+      a.debits_pending -= p.amount;
+      if (post) a.debits_posted += amount;
+      if (!post && (p.flags & TransferFlags.closing_debit) !== 0) a.flags &= ~AccountFlags.closed;
+    });
+    this.updateAccount(cr, a => {
+      a.credits_pending -= p.amount;
+      if (post) a.credits_posted += amount;
+      if (!post && (p.flags & TransferFlags.closing_credit) !== 0) a.flags &= ~AccountFlags.closed;
+    });
+
+    this.recordHistory(stored, dr, cr);
+    return CreateTransferError.ok;
+  }
+
+  private transferExists(t: Transfer, e: Transfer): CreateTransferError {
+    if (t.flags !== e.flags) return CreateTransferError.exists_with_different_flags;
+    if (t.pending_id !== e.pending_id) return CreateTransferError.exists_with_different_pending_id;
+    if (t.timeout !== e.timeout) return CreateTransferError.exists_with_different_timeout;
+
+    const resolving = (t.flags & (TransferFlags.post_pending_transfer | TransferFlags.void_pending_transfer)) !== 0;
+    if (resolving) {
+      const p = this.transfers.get(t.pending_id)!;
+      if (t.debit_account_id !== 0n && t.debit_account_id !== e.debit_account_id) {
+        return CreateTransferError.exists_with_different_debit_account_id;
+      }
+      if (t.credit_account_id !== 0n && t.credit_account_id !== e.credit_account_id) {
+        return CreateTransferError.exists_with_different_credit_account_id;
+      }
+      const requested = (t.flags & TransferFlags.void_pending_transfer) !== 0
+        ? (t.amount === 0n ? p.amount : t.amount)
+        : (t.amount === U128_MAX ? p.amount : t.amount);
+      if (requested !== e.amount) return CreateTransferError.exists_with_different_amount;
+      if (t.user_data_128 !== 0n && t.user_data_128 !== e.user_data_128) return CreateTransferError.exists_with_different_user_data_128;
+      if (t.user_data_64 !== 0n && t.user_data_64 !== e.user_data_64) return CreateTransferError.exists_with_different_user_data_64;
+      if (t.user_data_32 !== 0 && t.user_data_32 !== e.user_data_32) return CreateTransferError.exists_with_different_user_data_32;
+      if (t.ledger !== 0 && t.ledger !== e.ledger) return CreateTransferError.exists_with_different_ledger;
+      if (t.code !== 0 && t.code !== e.code) return CreateTransferError.exists_with_different_code;
+      return CreateTransferError.exists;
+    }
+
+    if (t.debit_account_id !== e.debit_account_id) return CreateTransferError.exists_with_different_debit_account_id;
+    if (t.credit_account_id !== e.credit_account_id) return CreateTransferError.exists_with_different_credit_account_id;
+    const balancing = (t.flags & (TransferFlags.balancing_debit | TransferFlags.balancing_credit)) !== 0;
+    if (balancing ? t.amount < e.amount : t.amount !== e.amount) return CreateTransferError.exists_with_different_amount;
+    if (t.user_data_128 !== e.user_data_128) return CreateTransferError.exists_with_different_user_data_128;
+    if (t.user_data_64 !== e.user_data_64) return CreateTransferError.exists_with_different_user_data_64;
+    if (t.user_data_32 !== e.user_data_32) return CreateTransferError.exists_with_different_user_data_32;
+    if (t.ledger !== e.ledger) return CreateTransferError.exists_with_different_ledger;
+    if (t.code !== e.code) return CreateTransferError.exists_with_different_code;
+    return CreateTransferError.exists;
+  }
+
+  private insertTransfer(transfer: Transfer): void {
+    this.transfers.set(transfer.id, transfer);
+    this.transferLog.push(transfer);
+    this.recordUndo(() => {
+      this.transfers.delete(transfer.id);
+      this.transferLog.pop();
+    });
+  }
+
+  private setPendingStatus(id: bigint, status: PendingStatus): void {
+    const before = this.pendingStatus.get(id);
+    this.pendingStatus.set(id, status);
+    this.recordUndo(() => {
+      if (before === undefined) this.pendingStatus.delete(id);
+      else this.pendingStatus.set(id, before);
+    });
+  }
+
+  private recordHistory(transfer: Transfer, dr: Account, cr: Account): void {
+    for (const account of [dr, cr]) {
+      if ((account.flags & AccountFlags.history) === 0) continue;
+      const entries = this.history.get(account.id) || [];
+      entries.push({
+        transfer,
+        balance: {
+          debits_pending: account.debits_pending,
+          debits_posted: account.debits_posted,
+          credits_pending: account.credits_pending,
+          credits_posted: account.credits_posted,
+          timestamp: transfer.timestamp,
+        },
+      });
+      this.history.set(account.id, entries);
+      this.recordUndo(() => { entries.pop(); });
+    }
+  }
+
+  // ===========================================================================
+  // EXPIRY
+  // ===========================================================================
+
+  /**
+   * Release every pending transfer whose timeout has elapsed.
+   * Like the replica, expiry restores reserved amounts and re-opens accounts closed by the transfer.
+   */
+  private expirePendingTransfers(): void {
+    if (this.pendingWithTimeout.size === 0) return;
+    const now = this.clock();
+    for (const id of Array.from(this.pendingWithTimeout)) {
+      const p = this.transfers.get(id)!;
+      if (p.timestamp + BigInt(p.timeout) * NS_PER_SECOND <= now) {
+        this.expirePendingTransfer(p);
+      }
+    }
+  }
+
+  private expirePendingTransfer(p: Transfer): void {
+    const dr = this.accounts.get(p.debit_account_id)!;
+    const cr = this.accounts.get(p.credit_account_id)!;
+
+    // Expiry is not part of any chain, so it is never rolled back
+    const undo = this.undoLog;
+    this.undoLog = null;
+    this.pendingWithTimeout.delete(p.id);
+    this.pendingStatus.set(p.id, 'expired');
+    dr.debits_pending -= p.amount;
+    cr.credits_pending -= p.amount;
+    if ((p.flags & TransferFlags.closing_debit) !== 0) dr.flags &= ~AccountFlags.closed;
+    if ((p.flags & TransferFlags.closing_credit) !== 0) cr.flags &= ~AccountFlags.closed;
+    this.undoLog = undo;
+  }
+
+  // ===========================================================================
+  // FILTERS
+  // ===========================================================================
+
+  private validAccountFilter(filter: AccountFilter): boolean {
+    if (filter.account_id === 0n || filter.account_id === U128_MAX) return false;
+    if (filter.limit === 0) return false;
+    if ((filter.flags & (AccountFilterFlags.debits | AccountFilterFlags.credits)) === 0) return false;
+    if (filter.timestamp_max !== 0n && filter.timestamp_min > filter.timestamp_max) return false;
+    return true;
+  }
+
+  private matchesAccountFilter(t: Transfer, filter: AccountFilter): boolean {
+    const debits = (filter.flags & AccountFilterFlags.debits) !== 0 && t.debit_account_id === filter.account_id;
+    const credits = (filter.flags & AccountFilterFlags.credits) !== 0 && t.credit_account_id === filter.account_id;
+    if (!debits && !credits) return false;
+    return this.matchesCommonFilter(t, filter);
+  }
+
+  private matchesQueryFilter(item: Account | Transfer, filter: QueryFilter): boolean {
+    if (filter.ledger !== 0 && item.ledger !== filter.ledger) return false;
+    return this.matchesCommonFilter(item, filter);
+  }
+
+  private matchesCommonFilter(
+    item: Account | Transfer,
+    filter: Pick<QueryFilter, 'user_data_128' | 'user_data_64' | 'user_data_32' | 'code' | 'timestamp_min' | 'timestamp_max'>
+  ): boolean {
+    if (filter.user_data_128 !== 0n && item.user_data_128 !== filter.user_data_128) return false;
+    if (filter.user_data_64 !== 0n && item.user_data_64 !== filter.user_data_64) return false;
+    if (filter.user_data_32 !== 0 && item.user_data_32 !== filter.user_data_32) return false;
+    if (filter.code !== 0 && item.code !== filter.code) return false;
+    if (filter.timestamp_min !== 0n && item.timestamp < filter.timestamp_min) return false;
+    if (filter.timestamp_max !== 0n && item.timestamp > filter.timestamp_max) return false;
+    return true;
+  }
+
+  private window<T>(items: T[], limit: number, reversed: boolean): T[] {
+    const ordered = reversed ? [...items].reverse() : items;
+    return ordered.slice(0, limit);
+  }
+
+  private assertOpen(): void {
+    if (this.destroyed) throw new Error('Client was closed.');
+  }
+}
+
+// Helpers
+function min(a: bigint, b: bigint): bigint { return a < b ? a : b; }
+function saturatingSub(a: bigint, b: bigint): bigint { return a > b ? a - b : 0n; }
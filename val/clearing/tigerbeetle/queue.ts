@@ -0,0 +1,133 @@
+/**
+ * TigerBeetle Clearing Queue
+ *
+ * Coalesces concurrent transfer submissions into one createTransfers batch.
+ * A batch is flushed when it reaches the client limit or after a short timer, and only
+ * one batch is in flight at a time: submissions arriving meanwhile form the next batch.
+ *
+ * A submission is a group of transfers that always lands contiguously in one batch, so a
+ * linked chain is never split. Each submission gets back the errors for its own transfers,
+ * indexed within the submission, exactly as if it had called createTransfers alone.
+ */
+
+import { CreateTransferError, CreateTransfersError, Transfer } from 'tigerbeetle-node';
+
+/** Most transfers TigerBeetle accepts in one request */
+export const CLEARING_BATCH_MAX = 8189;
+
+export const CLEARING_FLUSH_INTERVAL_MS = 2;
+
+export interface ClearingQueueOptions {
+  /** Flush once this many transfers are queued (default and ceiling: CLEARING_BATCH_MAX) */
+  maxBatchSize?: number;
+  /** Flush a partial batch after this long (default CLEARING_FLUSH_INTERVAL_MS) */
+  flushIntervalMs?: number;
+}
+
+/** Queue counters, for benchmarks and status reporting */
+export interface ClearingQueueStats {
+  batches: number;
+  transfers: number;
+  largestBatch: number;
+}
+
+interface QueuedSubmission {
+  transfers: Transfer[];
+  resolve: (errors: CreateTransfersError[]) => void;
+  reject: (error: unknown) => void;
+}
+
+export class ClearingQueue {
+  private readonly maxBatchSize: number;
+  private readonly flushIntervalMs: number;
+
+  private queued: QueuedSubmission[] = [];
+  private queuedTransfers = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  // Tail of the in-flight batches; each flush chains onto it
+  private inFlight: Promise<void> = Promise.resolve();
+  private stats: ClearingQueueStats = { batches: 0, transfers: 0, largestBatch: 0 };
+
+  constructor(
+    private readonly send: (batch: Transfer[]) => Promise<CreateTransfersError[]>,
+    options: ClearingQueueOptions = {}
+  ) {
+    this.maxBatchSize = Math.min(options.maxBatchSize ?? CLEARING_BATCH_MAX, CLEARING_BATCH_MAX);
+    this.flushIntervalMs = options.flushIntervalMs ?? CLEARING_FLUSH_INTERVAL_MS;
+    if (this.maxBatchSize < 1) throw new Error(`Clearing batch size must be positive: ${options.maxBatchSize}`);
+  }
+
+  /**
+   * Queue transfers for the next batch and resolve with their errors (empty when all succeeded).
+   */
+  submit(transfers: Transfer[]): Promise<CreateTransfersError[]> {
+    if (transfers.length === 0) return Promise.resolve([]);
+    if (transfers.length > this.maxBatchSize) {
+      return Promise.reject(new Error(`Submission of ${transfers.length} transfers exceeds the batch size of ${this.maxBatchSize}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      // Keep the submission whole: close the current batch if it would not fit
+      if (this.queuedTransfers + transfers.length > this.maxBatchSize) {
+        void this.flush();
+      }
+      this.queued.push({ transfers, resolve, reject });
+      this.queuedTransfers += transfers.length;
+
+      if (this.queuedTransfers >= this.maxBatchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      }
+    });
+  }
+
+  /**
+   * Send everything queued now. Resolves once every batch flushed so far has settled.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.queued.length > 0) {
+      const submissions = this.queued;
+      this.queued = [];
+      this.queuedTransfers = 0;
+      this.inFlight = this.inFlight.then(() => this.sendBatch(submissions));
+    }
+    return this.inFlight;
+  }
+
+  getStats(): ClearingQueueStats {
+    return { ...this.stats };
+  }
+
+  private async sendBatch(submissions: QueuedSubmission[]): Promise<void> {
+    const batch = submissions.flatMap(s => s.transfers);
+    this.stats.batches++;
+    this.stats.transfers += batch.length;
+    this.stats.largestBatch = Math.max(this.stats.largestBatch, batch.length);
+
+    let errors: CreateTransfersError[];
+    try {
+      errors = await this.send(batch);
+    } catch (e) {
+      for (const submission of submissions) submission.reject(e);
+      return;
+    }
+
+    const results: CreateTransferError[] = new Array(batch.length).fill(CreateTransferError.ok);
+    for (const error of errors) results[error.index] = error.result;
+
+    let offset = 0;
+    for (const submission of submissions) {
+      const own: CreateTransfersError[] = [];
+      for (let i = 0; i < submission.transfers.length; i++) {
+        if (results[offset + i] !== CreateTransferError.ok) own.push({ index: i, result: results[offset + i] });
+      }
+      offset += submission.transfers.length;
+      submission.resolve(own);
+    }
+  }
+}
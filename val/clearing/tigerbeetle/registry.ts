@@ -0,0 +1,224 @@
+/**
+ * TigerBeetle Account Registry
+ *
+ * What each ledger account is and whether it may be used. TigerBeetle itself only knows
+ * that an account is closed; the registry records why (frozen or closed for good) and
+ * which pending closing transfer holds it, so a freeze can be lifted by voiding it.
+ * It also holds each account's reserve: the balance every debit must leave behind, and the
+ * owner, class and display name the API lists accounts by. With a store, every change is
+ * written through to the tigerbeetle_accounts table and loaded back on startup.
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import { ACCOUNT_CLASS_CODES, AccountClass } from './accounts';
+
+export type AccountStatus = 'active' | 'frozen' | 'closed';
+
+export type AccountKind = 'user' | 'reference';
+
+export interface RegisteredAccount {
+  accountId: bigint;
+  ledger: number;
+  kind: AccountKind;
+  /** userId for user accounts, chart key for reference accounts */
+  owner: string;
+  accountClass: AccountClass;
+  /** Display name (defaults to the owner) */
+  name: string;
+  status: AccountStatus;
+  /** Pending closing transfer that keeps a frozen or closed account shut */
+  closingTransferId?: bigint;
+  /** Minimum balance a debit must leave; enforced by a linked control transfer (0 or unset: none) */
+  reserve?: bigint;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AccountRegistryFilter {
+  kind?: AccountKind;
+  accountClass?: AccountClass;
+  owner?: string;
+  ledger?: number;
+  status?: AccountStatus;
+}
+
+/** Durable copy of the registry; the in-memory map stays the one the service reads */
+export interface AccountRegistryStore {
+  load(): Promise<RegisteredAccount[]>;
+  save(account: RegisteredAccount): Promise<void>;
+}
+
+export type AccountStatusOperation = 'freeze' | 'unfreeze' | 'close' | 'open';
+
+export class AccountStatusError extends Error {
+  constructor(
+    public accountId: bigint,
+    public status: AccountStatus | 'unregistered',
+    public operation: AccountStatusOperation,
+    message: string = status === 'unregistered'
+      ? `Cannot ${operation} account ${accountId}: not a registered member account`
+      : `Cannot ${operation} account ${accountId}: account is ${status}`
+  ) {
+    super(message);
+    this.name = 'AccountStatusError';
+  }
+}
+
+export class ReserveThresholdError extends Error {
+  constructor(public accountId: bigint, message: string) {
+    super(message);
+    this.name = 'ReserveThresholdError';
+  }
+}
+
+export class AccountRegistry {
+  private accounts: Map<bigint, RegisteredAccount> = new Map();
+  // Writes reach the store in the order the changes were made
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private store?: AccountRegistryStore) {}
+
+  /**
+   * Load the stored registry. Stored entries win over ones registered before the load.
+   */
+  async load(): Promise<number> {
+    if (!this.store) return 0;
+    const stored = await this.store.load();
+    for (const account of stored) this.accounts.set(account.accountId, account);
+    return stored.length;
+  }
+
+  /**
+   * Resolves once every change so far has been written to the store.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Record an account. An account already registered keeps its status and name.
+   */
+  register(
+    account: Pick<RegisteredAccount, 'accountId' | 'ledger' | 'kind' | 'owner' | 'accountClass'>
+      & Partial<Pick<RegisteredAccount, 'name' | 'metadata'>>
+  ): RegisteredAccount {
+    const existing = this.accounts.get(account.accountId);
+    if (existing) return existing;
+
+    const now = new Date();
+    const registered: RegisteredAccount = {
+      ...account,
+      name: account.name || account.owner,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.accounts.set(account.accountId, registered);
+    this.persist(registered);
+    return registered;
+  }
+
+  get(accountId: bigint): RegisteredAccount | undefined {
+    return this.accounts.get(accountId);
+  }
+
+  list(filter: AccountRegistryFilter = {}): RegisteredAccount[] {
+    return Array.from(this.accounts.values()).filter(account =>
+      (filter.kind === undefined || account.kind === filter.kind) &&
+      (filter.accountClass === undefined || account.accountClass === filter.accountClass) &&
+      (filter.owner === undefined || account.owner === filter.owner) &&
+      (filter.ledger === undefined || account.ledger === filter.ledger) &&
+      (filter.status === undefined || account.status === filter.status)
+    );
+  }
+
+  describe(accountId: bigint, details: Partial<Pick<RegisteredAccount, 'name' | 'metadata'>>): RegisteredAccount {
+    const account = this.accounts.get(accountId);
+    if (!account) throw new Error(`Account ${accountId} is not registered`);
+
+    if (details.name) account.name = details.name;
+    if (details.metadata) account.metadata = { ...account.metadata, ...details.metadata };
+    account.updatedAt = new Date();
+    this.persist(account);
+    return account;
+  }
+
+  setStatus(accountId: bigint, status: AccountStatus, closingTransferId?: bigint): RegisteredAccount {
+    const account = this.accounts.get(accountId);
+    if (!account) throw new Error(`Account ${accountId} is not registered`);
+
+    account.status = status;
+    account.closingTransferId = closingTransferId;
+    account.updatedAt = new Date();
+    this.persist(account);
+    return account;
+  }
+
+  setReserve(accountId: bigint, reserve: bigint): RegisteredAccount {
+    const account = this.accounts.get(accountId);
+    if (!account) throw new Error(`Account ${accountId} is not registered`);
+
+    account.reserve = reserve;
+    account.updatedAt = new Date();
+    this.persist(account);
+    return account;
+  }
+
+  // The registry keeps working when the store does not; a lost write is reported, not thrown
+  private persist(account: RegisteredAccount): void {
+    if (!this.store) return;
+    const store = this.store;
+    const snapshot = { ...account };
+    this.writes = this.writes
+      .then(() => store.save(snapshot))
+      .catch(error => console.error(`[AccountRegistry] Failed to store account ${account.accountId}:`, error instanceof Error ? error.message : error));
+  }
+}
+
+/**
+ * Registry store in the tigerbeetle_accounts table (db/init.sql). u128 values are stored as decimal strings.
+ */
+export class PostgresAccountRegistryStore implements AccountRegistryStore {
+  private pool: Pool;
+
+  constructor(pool: Pool | PoolConfig) {
+    this.pool = pool instanceof Pool ? pool : new Pool(pool);
+  }
+
+  async load(): Promise<RegisteredAccount[]> {
+    const res = await this.pool.query('SELECT * FROM tigerbeetle_accounts ORDER BY created_at');
+    return res.rows.map(row => ({
+      accountId: BigInt(row.tigerbeetle_id),
+      ledger: row.ledger,
+      kind: row.account_type,
+      owner: row.owner_id,
+      accountClass: row.account_class,
+      name: row.name,
+      status: row.status,
+      closingTransferId: row.closing_transfer_id ? BigInt(row.closing_transfer_id) : undefined,
+      reserve: row.reserve !== null ? BigInt(row.reserve) : undefined,
+      metadata: row.metadata ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async save(account: RegisteredAccount): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO tigerbeetle_accounts (
+         tigerbeetle_id, account_type, account_class, owner_id, ledger, code, name, status,
+         closing_transfer_id, reserve, metadata, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (tigerbeetle_id) DO UPDATE SET
+         name = EXCLUDED.name, status = EXCLUDED.status, closing_transfer_id = EXCLUDED.closing_transfer_id,
+         reserve = EXCLUDED.reserve, metadata = EXCLUDED.metadata, updated_at = EXCLUDED.updated_at`,
+      [
+        account.accountId.toString(), account.kind, account.accountClass, account.owner, account.ledger,
+        ACCOUNT_CLASS_CODES[account.accountClass], account.name, account.status, account.closingTransferId?.toString() ?? null,
+        account.reserve?.toString() ?? null, account.metadata ? JSON.stringify(account.metadata) : null,
+        account.createdAt, account.updatedAt,
+      ]
+    );
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * TigerBeetle Clearing Types
+ *
+ * Account, transfer and result schemas shared by the clearing authority
+ * and its callers. Every ledger outcome is named; nothing collapses to a boolean.
+ */
+
+import { Account, AccountBalance, CreateTransferError, Transfer } from 'tigerbeetle-node';
+import { TransferCode } from './codes';
+import { ClearingQueueOptions } from './queue';
+import { AccountRegistry, AccountStatus, RegisteredAccount } from './registry';
+import { VelocityAllowance, VelocityLimits } from './velocity';
+import { BackoffOptions, ComponentHealth } from '../../shared/health';
+import { BufferedTransferAuditLog } from './audit';
+
+/**
+ * Named reason for a clearing outcome.
+ * 'created' and 'exists' are successes; everything else is a rejection.
+ */
+export type ClearingReason =
+  | 'created'
+  | 'exists'
+  | 'exists_with_different_fields'
+  | 'id_already_failed'
+  | 'linked_event_failed'
+  | 'malformed_transfer'
+  | 'imported_event_invalid'
+  | 'account_not_found'
+  | 'ledger_mismatch'
+  | 'pending_transfer_not_found'
+  | 'pending_transfer_mismatch'
+  | 'pending_transfer_already_posted'
+  | 'pending_transfer_already_voided'
+  | 'pending_transfer_expired'
+  | 'account_closed'
+  | 'balance_overflow'
+  | 'insufficient_funds'
+  | 'credit_limit_exceeded'
+  | 'below_reserve'
+  | 'client_unavailable'
+  | 'client_error';
+
+export type ClearingRejectionReason = Exclude<ClearingReason, 'created' | 'exists'>;
+
+export interface ClearingResult {
+  ok: boolean;
+  transferId: bigint;
+  reason: ClearingReason;
+  /** Raw TigerBeetle result name (or exception message) behind a rejection */
+  detail?: string;
+}
+
+export interface AccountProvisionResult {
+  ok: boolean;
+  created: bigint[];
+  existing: bigint[];
+  failures: { accountId: bigint; detail: string }[];
+}
+
+/**
+ * Outcome of moving a legacy account into its successor.
+ * 'migrated': balance swept and legacy account closed; 'deferred': legacy account
+ * still holds pending transfers and is retried on the next run.
+ */
+export interface AccountMigrationResult {
+  legacyId: bigint;
+  successorId: bigint;
+  status: 'absent' | 'migrated' | 'already_migrated' | 'deferred' | 'failed';
+  /** Net (credits - debits) balance carried to the successor */
+  swept: bigint;
+  detail?: string;
+}
+
+/**
+ * Outcome of a freeze, unfreeze or close. `status` is the account's status afterwards.
+ */
+export interface AccountStatusChange extends ClearingResult {
+  accountId: bigint;
+  /** Every ledger account of the member the change covers (just `accountId` when it failed) */
+  accountIds: bigint[];
+  status: AccountStatus;
+  /** Balance moved to the control account by a close */
+  swept?: bigint;
+}
+
+/**
+ * Net balance of a ledger account as reported by the clearing authority.
+ * posted = credits_posted - debits_posted, pending = debits held by pending transfers.
+ */
+export interface LedgerBalance {
+  accountId: bigint;
+  posted: bigint;
+  pending: bigint;
+}
+
+/**
+ * Why a transfer happened and what it belongs to. Posting and voiding inherit all three.
+ */
+export interface TransferDetails {
+  code: TransferCode;
+  /** user_data_128: the originating CreditEvent id (see eventIdToBigInt) */
+  eventRef?: bigint;
+  /** user_data_64: ANCHOR_TYPE_CODES value, 0 when not anchor-backed */
+  anchorType?: number;
+}
+
+/**
+ * One leg of a linked chain. All legs of a chain succeed or fail together.
+ */
+export interface TransferLeg {
+  /** Defaults to a generated id */
+  id?: bigint;
+  debitAccount: bigint;
+  creditAccount: bigint;
+  amount: bigint;
+  ledger: number;
+  details: TransferDetails;
+  /** Reserve the leg as a pending transfer that times out after this many seconds */
+  pendingTimeoutSeconds?: number;
+}
+
+/**
+ * Outcome of a linked chain. On failure, transferId and failedLeg name the leg that broke it.
+ */
+export interface LinkedTransferResult extends ClearingResult {
+  failedLeg?: number;
+  /** Id of every leg, in chain order */
+  transferIds: bigint[];
+}
+
+/**
+ * A cross-currency reservation: the payer is debited on the source ledger and the
+ * payee credited on the destination ledger, through the FX_LIQUIDITY accounts.
+ */
+export interface PendingExchange {
+  /** [source leg id, destination leg id] */
+  ids: [bigint, bigint];
+  debitAccount: bigint;
+  creditAccount: bigint;
+  sourceLedger: number;
+  destinationLedger: number;
+  sourceAmount: bigint;
+  destinationAmount: bigint;
+  timeoutSeconds: number;
+  /** Applied to both legs */
+  details: TransferDetails;
+}
+
+/**
+ * A member account to open (or find) and how to list it
+ */
+export interface AccountProvisionRequest {
+  /** userId */
+  owner: string;
+  /** Currency ledger (default: primary) */
+  ledger?: number;
+  name?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Filters for an account's transfer or balance history.
+ * Timestamps are TigerBeetle cluster time (nanoseconds since the Unix epoch), both bounds inclusive.
+ */
+export interface AccountHistoryQuery {
+  timestampMin?: bigint;
+  timestampMax?: bigint;
+  /** Transfer code; 0 or unset matches any */
+  code?: number;
+  /** user_data_128: only transfers linked to this CreditEvent (see eventRefFor); unset matches any */
+  eventRef?: bigint;
+  /** Which side of the transfer the account is on (default: both) */
+  side?: 'debits' | 'credits' | 'both';
+  /** Maximum results (default ACCOUNT_HISTORY_DEFAULT_LIMIT) */
+  limit?: number;
+  /** Newest first */
+  reverse?: boolean;
+}
+
+/**
+ * Transfers across every account (query_transfers). Timestamps are TigerBeetle commit timestamps,
+ * unique and increasing, so a query from just past the last one seen continues where it stopped.
+ */
+export interface TransferQuery extends Omit<AccountHistoryQuery, 'side'> {
+  /** 0 or unset matches every ledger */
+  ledger?: number;
+}
+
+export const ACCOUNT_HISTORY_DEFAULT_LIMIT = 50;
+export const ACCOUNT_HISTORY_MAX_LIMIT = 8189; // Largest batch a single TigerBeetle query returns
+
+/**
+ * Which ledger backs clearing.
+ * 'tigerbeetle' talks to a replica; 'memory' runs the in-process stand-in (tests, local runs).
+ */
+export type ClearingBackend = 'tigerbeetle' | 'memory';
+
+/**
+ * Where the transfer audit log and the account registry are kept: their Postgres tables, or process memory.
+ * The memory backend always keeps both in memory.
+ */
+export type ClearingPersistence = 'postgres' | 'memory';
+
+export interface ClearingConfig {
+  backend?: ClearingBackend;
+  /** Audit log for a replica-backed service (default 'postgres') */
+  transferAudit?: ClearingPersistence;
+  /** Account registry store for a replica-backed service (default 'postgres') */
+  accountRegistry?: ClearingPersistence;
+  /** Batching of concurrent transfers into one createTransfers request */
+  queue?: ClearingQueueOptions;
+  /** Caps given to a member's limit accounts when they are first created */
+  velocityLimits?: VelocityLimits;
+  /** How long a health probe waits for the cluster (default DEFAULT_PROBE_TIMEOUT_MS) */
+  probeTimeoutMs?: number;
+  /** Reconnect delays after a failed probe (default DEFAULT_BACKOFF) */
+  backoff?: BackoffOptions;
+}
+
+/**
+ * The clearing authority as seen by the SpendEngine and the API.
+ * Implemented by TigerBeetleService over any tigerbeetle-node Client.
+ */
+export interface IClearingService {
+  initializeReferenceAccounts(): Promise<void>;
+  checkHealth(): Promise<ComponentHealth>;
+  getHealth(): ComponentHealth;
+  createAccounts(accounts: Account[]): Promise<AccountProvisionResult>;
+  userAccountId(userId: string, ledger?: number): bigint;
+  ensureUserAccount(userId: string, ledger?: number): Promise<bigint>;
+  migrateLegacyAccount(legacyId: bigint, successorId: bigint): Promise<AccountMigrationResult>;
+  getRegistry(): AccountRegistry;
+  memberStatus(userId: string): AccountStatus;
+  provisionAccount(request: AccountProvisionRequest): Promise<RegisteredAccount>;
+  getTransferAudit(): BufferedTransferAuditLog;
+  freezeAccount(accountId: bigint): Promise<AccountStatusChange>;
+  unfreezeAccount(accountId: bigint): Promise<AccountStatusChange>;
+  closeAccount(accountId: bigint): Promise<AccountStatusChange>;
+  setReserveThreshold(accountId: bigint, reserve: bigint): Promise<RegisteredAccount>;
+  velocityLegs(userId: string, ledger: number, amount: bigint, details: TransferDetails): Promise<TransferLeg[]>;
+  getVelocityAllowance(userId: string, ledger?: number): Promise<VelocityAllowance[]>;
+  setVelocityLimits(userId: string, limits: Partial<VelocityLimits>, ledger?: number): Promise<LinkedTransferResult>;
+
+  createTransfer(
+    debitAccount: bigint,
+    creditAccount: bigint,
+    amount: bigint,
+    ledger: number,
+    details: TransferDetails,
+    id?: bigint
+  ): Promise<ClearingResult>;
+  createPendingTransfer(
+    debitAccount: bigint,
+    creditAccount: bigint,
+    amount: bigint,
+    timeoutSeconds: number,
+    ledger: number,
+    details: TransferDetails,
+    id?: bigint
+  ): Promise<ClearingResult>;
+  postPendingTransfer(pendingId: bigint, id?: bigint): Promise<ClearingResult>;
+  voidPendingTransfer(pendingId: bigint, id?: bigint): Promise<ClearingResult>;
+  createLinkedTransfers(legs: TransferLeg[]): Promise<LinkedTransferResult>;
+  postPendingTransfers(pendingIds: bigint[], ids: bigint[]): Promise<LinkedTransferResult>;
+  voidPendingTransfers(pendingIds: bigint[], ids: bigint[]): Promise<LinkedTransferResult>;
+
+  getAccountBalance(accountId: bigint): Promise<bigint>;
+  getLedgerBalance(accountId: bigint): Promise<LedgerBalance | null>;
+  getUserBalance(userId: string, ledger?: number): Promise<LedgerBalance>;
+  getAccountTransfers(accountId: bigint, query?: AccountHistoryQuery): Promise<Transfer[]>;
+  getAccountBalances(accountId: bigint, query?: AccountHistoryQuery): Promise<AccountBalance[]>;
+  queryTransfers(query?: TransferQuery): Promise<Transfer[]>;
+}
+
+/**
+ * Every CreateTransferError code mapped to its named reason.
+ * Typed as a full Record so a new TigerBeetle code fails the build until it is classified.
+ */
+export const TRANSFER_ERROR_REASONS: Record<CreateTransferError, ClearingReason> = {
+  [CreateTransferError.ok]: 'created',
+  [CreateTransferError.linked_event_failed]: 'linked_event_failed',
+  [CreateTransferError.linked_event_chain_open]: 'malformed_transfer',
+  [CreateTransferError.imported_event_expected]: 'imported_event_invalid',
+  [CreateTransferError.imported_event_not_expected]: 'imported_event_invalid',
+  [CreateTransferError.timestamp_must_be_zero]: 'malformed_transfer',
+  [CreateTransferError.imported_event_timestamp_out_of_range]: 'imported_event_invalid',
+  [CreateTransferError.imported_event_timestamp_must_not_advance]: 'imported_event_invalid',
+  [CreateTransferError.reserved_flag]: 'malformed_transfer',
+  [CreateTransferError.id_must_not_be_zero]: 'malformed_transfer',
+  [CreateTransferError.id_must_not_be_int_max]: 'malformed_transfer',
+  [CreateTransferError.exists_with_different_flags]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_pending_id]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_timeout]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_debit_account_id]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_credit_account_id]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_amount]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_user_data_128]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_user_data_64]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_user_data_32]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_ledger]: 'exists_with_different_fields',
+  [CreateTransferError.exists_with_different_code]: 'exists_with_different_fields',
+  [CreateTransferError.exists]: 'exists',
+  [CreateTransferError.id_already_failed]: 'id_already_failed',
+  [CreateTransferError.flags_are_mutually_exclusive]: 'malformed_transfer',
+  [CreateTransferError.debit_account_id_must_not_be_zero]: 'malformed_transfer',
+  [CreateTransferError.debit_account_id_must_not_be_int_max]: 'malformed_transfer',
+  [CreateTransferError.credit_account_id_must_not_be_zero]: 'malformed_transfer',
+  [CreateTransferError.credit_account_id_must_not_be_int_max]: 'malformed_transfer',
+  [CreateTransferError.accounts_must_be_different]: 'malformed_transfer',
+  [CreateTransferError.pending_id_must_be_zero]: 'malformed_transfer',
+  [CreateTransferError.pending_id_must_not_be_zero]: 'malformed_transfer',
+  [CreateTransferError.pending_id_must_not_be_int_max]: 'malformed_transfer',
+  [CreateTransferError.pending_id_must_be_different]: 'malformed_transfer',
+  [CreateTransferError.timeout_reserved_for_pending_transfer]: 'malformed_transfer',
+  [CreateTransferError.closing_transfer_must_be_pending]: 'malformed_transfer',
+  [CreateTransferError.ledger_must_not_be_zero]: 'malformed_transfer',
+  [CreateTransferError.code_must_not_be_zero]: 'malformed_transfer',
+  [CreateTransferError.debit_account_not_found]: 'account_not_found',
+  [CreateTransferError.credit_account_not_found]: 'account_not_found',
+  [CreateTransferError.accounts_must_have_the_same_ledger]: 'ledger_mismatch',
+  [CreateTransferError.transfer_must_have_the_same_ledger_as_accounts]: 'ledger_mismatch',
+  [CreateTransferError.pending_transfer_not_found]: 'pending_transfer_not_found',
+  [CreateTransferError.pending_transfer_not_pending]: 'pending_transfer_mismatch',
+  [CreateTransferError.pending_transfer_has_different_debit_account_id]: 'pending_transfer_mismatch',
+  [CreateTransferError.pending_transfer_has_different_credit_account_id]: 'pending_transfer_mismatch',
+  [CreateTransferError.pending_transfer_has_different_ledger]: 'pending_transfer_mismatch',
+  [CreateTransferError.pending_transfer_has_different_code]: 'pending_transfer_mismatch',
+  [CreateTransferError.exceeds_pending_transfer_amount]: 'pending_transfer_mismatch',
+  [CreateTransferError.pending_transfer_has_different_amount]: 'pending_transfer_mismatch',
+  [CreateTransferError.pending_transfer_already_posted]: 'pending_transfer_already_posted',
+  [CreateTransferError.pending_transfer_already_voided]: 'pending_transfer_already_voided',
+  [CreateTransferError.pending_transfer_expired]: 'pending_transfer_expired',
+  [CreateTransferError.imported_event_timestamp_must_not_regress]: 'imported_event_invalid',
+  [CreateTransferError.imported_event_timestamp_must_postdate_debit_account]: 'imported_event_invalid',
+  [CreateTransferError.imported_event_timestamp_must_postdate_credit_account]: 'imported_event_invalid',
+  [CreateTransferError.imported_event_timeout_must_be_zero]: 'imported_event_invalid',
+  [CreateTransferError.debit_account_already_closed]: 'account_closed',
+  [CreateTransferError.credit_account_already_closed]: 'account_closed',
+  [CreateTransferError.overflows_debits_pending]: 'balance_overflow',
+  [CreateTransferError.overflows_credits_pending]: 'balance_overflow',
+  [CreateTransferError.overflows_debits_posted]: 'balance_overflow',
+  [CreateTransferError.overflows_credits_posted]: 'balance_overflow',
+  [CreateTransferError.overflows_debits]: 'balance_overflow',
+  [CreateTransferError.overflows_credits]: 'balance_overflow',
+  [CreateTransferError.overflows_timeout]: 'balance_overflow',
+  [CreateTransferError.exceeds_credits]: 'insufficient_funds',
+  [CreateTransferError.exceeds_debits]: 'credit_limit_exceeded',
+};
+
+/**
+ * Human-readable explanation for each rejection, suitable for API clients.
+ */
+export const CLEARING_REJECTION_MESSAGES: Record<ClearingRejectionReason, string> = {
+  exists_with_different_fields: 'Transfer id already used for a different obligation',
+  id_already_failed: 'Transfer id already failed and cannot be retried',
+  linked_event_failed: 'Another leg of the linked clearing failed',
+  malformed_transfer: 'Transfer is malformed',
+  imported_event_invalid: 'Imported event is invalid',
+  account_not_found: 'Ledger account not found',
+  ledger_mismatch: 'Accounts are on different ledgers',
+  pending_transfer_not_found: 'Reservation not found',
+  pending_transfer_mismatch: 'Reservation does not match the resolving transfer',
+  pending_transfer_already_posted: 'Reservation already posted',
+  pending_transfer_already_voided: 'Reservation already voided',
+  pending_transfer_expired: 'Reservation expired',
+  account_closed: 'Ledger account is closed',
+  balance_overflow: 'Ledger balance would overflow',
+  insufficient_funds: 'Insufficient funds',
+  credit_limit_exceeded: 'Credit account limit exceeded',
+  below_reserve: 'Debit would leave the account below its reserve',
+  client_unavailable: 'Clearing authority unavailable',
+  client_error: 'Clearing authority error',
+};
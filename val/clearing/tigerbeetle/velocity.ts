@@ -0,0 +1,51 @@
+/**
+ * TigerBeetle Velocity Limits
+ *
+ * Daily and weekly spend caps enforced by the ledger (TigerBeetle rate-limiting recipe).
+ * Every currency ledger has a companion rate-limiting ledger with one operator account and,
+ * per member, one limit account per window. A limit account is credited its cap once; each
+ * spend reserves its amount there with a pending transfer linked to the spend, which is never
+ * posted and times out after the window. Racing spends cannot overshoot the cap, and the
+ * allowance refills by itself as old spends age out.
+ */
+
+export type VelocityWindow = 'daily' | 'weekly';
+
+export const VELOCITY_WINDOW_SECONDS: Record<VelocityWindow, number> = {
+  daily: 86_400,
+  weekly: 604_800,
+};
+
+/** Order of the limit legs appended to a spend's linked chain */
+export const VELOCITY_WINDOWS = Object.keys(VELOCITY_WINDOW_SECONDS) as VelocityWindow[];
+
+/** Cap per window, in micro-units of the spend's funding currency */
+export type VelocityLimits = Record<VelocityWindow, bigint>;
+
+export const DEFAULT_VELOCITY_LIMITS: VelocityLimits = {
+  daily: 1_000_000_000n,  // 1,000 units
+  weekly: 5_000_000_000n, // 5,000 units
+};
+
+// Rate-limiting ledgers sit at a fixed offset from their currency ledger (USD 1 -> 10001)
+export const VELOCITY_LEDGER_OFFSET = 10_000;
+
+export function velocityLedgerFor(ledger: number): number {
+  return VELOCITY_LEDGER_OFFSET + ledger;
+}
+
+/**
+ * What a member may still spend in one window.
+ * limit = credits_posted - debits_posted, used = debits_pending (unexpired spends), remaining = limit - used.
+ */
+export interface VelocityAllowance {
+  window: VelocityWindow;
+  windowSeconds: number;
+  /** Currency ledger the cap applies to */
+  ledger: number;
+  /** Limit account on the rate-limiting ledger (created on the member's first spend) */
+  accountId: bigint;
+  limit: bigint;
+  used: bigint;
+  remaining: bigint;
+}
@@ -1,78 +1,380 @@
+import { getAddress, id, hexlify, randomBytes, TypedDataDomain, TypedDataField, verifyTypedData, Wallet, ZeroAddress } from 'ethers';
+import { CreditEvent, Attestation, AttestorSignature } from '../events/types';
+import { MerkleTree, merkleLeaf, verifyMerkleProof } from './merkle';
+import { AttestorRegistry } from './attestor_registry';
+import { AttestationStore } from './attestation_store';
+import { legacyEventHash } from './attestation_legacy';
+import { CANONICAL_EVENT_ENCODING, canonicalEventHash } from './canonical';
 
-import { id, hexlify, randomBytes, Wallet, verifyMessage } from 'ethers';
-import { CreditEvent, Attestation, AttestationProof } from '../events/types';
+export const ATTESTATION_BATCH_WINDOW_MS = 50;
+export const ATTESTATION_BATCH_MAX_SIZE = 4096;
+
+export const ATTESTATION_DOMAIN_NAME = 'SOVR Value Attestation Layer';
+/** Bumped whenever CreditAttestation changes; signatures under another version do not verify */
+export const ATTESTATION_DOMAIN_VERSION = '1';
+
+export interface AttestationDomain {
+  name: string;
+  version: string;
+  chainId: bigint;
+  verifyingContract: string;
+}
+
+/**
+ * EIP-712 struct an attestor signs: one per batch, binding the Merkle root every event's proof leads to.
+ */
+export const CREDIT_ATTESTATION_TYPES: Record<string, TypedDataField[]> = {
+  CreditAttestation: [
+    { name: 'batchId', type: 'bytes32' },
+    { name: 'merkleRoot', type: 'bytes32' },
+    { name: 'batchSize', type: 'uint32' },
+    { name: 'issuedAt', type: 'uint64' },
+  ],
+};
+
+/**
+ * Domain from ATTESTATION_CHAIN_ID and ATTESTATION_VERIFYING_CONTRACT (default: chain 1, no contract).
+ */
+export function attestationDomainFromEnv(): AttestationDomain {
+  return {
+    name: ATTESTATION_DOMAIN_NAME,
+    version: ATTESTATION_DOMAIN_VERSION,
+    chainId: BigInt(process.env.ATTESTATION_CHAIN_ID || '1'),
+    verifyingContract: process.env.ATTESTATION_VERIFYING_CONTRACT || ZeroAddress,
+  };
+}
+
+/**
+ * The CreditAttestation value behind an attestation's signature.
+ */
+export function creditAttestationValue(attestation: Attestation): Record<string, unknown> {
+  return {
+    batchId: attestation.proof.batchId,
+    merkleRoot: attestation.proof.merkleRoot,
+    batchSize: attestation.proof.batchSize,
+    issuedAt: BigInt(new Date(attestation.timestamp).getTime()),
+  };
+}
+
+export interface AttestationEngineOptions {
+  /** How long the first event of a batch waits for more before the root is signed (default 50ms) */
+  windowMs?: number;
+  /** A batch this large is signed at once (default 4096) */
+  maxBatchSize?: number;
+  /** EIP-712 domain signatures are bound to (default attestationDomainFromEnv()) */
+  domain?: Partial<AttestationDomain>;
+  /** Addresses whose signatures count towards the quorum (default: the engine's own keys) */
+  attestors?: string[];
+  /** Signatures from distinct attestors an attestation needs (default: a majority of attestors) */
+  threshold?: number;
+  /**
+   * Decides who counts by the attestation's timestamp; replaces `attestors` when given
+   * (default: a registry holding `attestors`, active since the epoch)
+   */
+  registry?: AttestorRegistry;
+  /** Where issued attestations are kept with their events (default: not kept) */
+  store?: AttestationStore;
+}
+
+/**
+ * Signatures over a Merkle root; every attestation in the batch carries the path to it.
+ */
+export interface AttestationBatch {
+  id: string;
+  merkleRoot: string;
+  size: number;
+  signatures: AttestorSignature[];
+  sealedAt: Date;
+}
+
+/**
+ * Which registered attestors an attestation's signatures account for.
+ */
+export interface QuorumVerification {
+  /** Proof holds and at least `threshold` active attestors signed */
+  valid: boolean;
+  /** The event hashes to the leaf and the leaf's path leads to the signed root */
+  proofValid: boolean;
+  threshold: number;
+  /** Attestors active at the attestation's timestamp with a valid signature */
+  signed: string[];
+  /** Attestors active at the attestation's timestamp without one */
+  missing: string[];
+  /**
+   * Signatures that do not recover to the attestor they name, or name someone who was not
+   * a registered attestor at the attestation's timestamp
+   */
+  rejected: AttestorSignature[];
+}
+
+export class AttestationQuorumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttestationQuorumError';
+  }
+}
+
+interface QueuedEvent {
+  event: CreditEvent;
+  eventHash: string;
+  nonce: string;
+  resolve: (attestation: Attestation) => void;
+  reject: (error: unknown) => void;
+}
 
 export class AttestationEngine {
-  private signer: Wallet;
-  
-  constructor(privateKey: string) {
-    this.signer = new Wallet(privateKey);
-  }
-  
-  async attest(event: CreditEvent): Promise<Attestation> {
-    const proof = await this.generateProof(event);
-    const message = this.createAttestationMessage(event, proof);
-    const signature = await this.signer.signMessage(message);
-    
-    return {
-      id: id(`${event.id}-${Date.now()}`),
-      eventId: event.id,
-      signature,
-      attestor: this.signer.address,
-      timestamp: new Date(),
-      proof
-    };
+  private signers: Wallet[];
+  private registry: AttestorRegistry;
+  private threshold: number | undefined;
+  private domain: AttestationDomain;
+  private store: AttestationStore | undefined;
+  private windowMs: number;
+  private maxBatchSize: number;
+  private queue: QueuedEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @param privateKeys Attestor keys this engine signs with; other attestors add theirs with countersign().
+   */
+  constructor(privateKeys: string | string[], options: AttestationEngineOptions = {}) {
+    this.signers = (Array.isArray(privateKeys) ? privateKeys : [privateKeys]).map(key => new Wallet(key));
+    this.threshold = options.threshold;
+    if (this.threshold !== undefined && (!Number.isInteger(this.threshold) || this.threshold < 1)) {
+      throw new AttestationQuorumError(`Threshold ${this.threshold} is not a positive whole number of signatures`);
+    }
+    if (options.registry) {
+      // The registry changes at runtime, so the threshold and signing keys are checked per batch
+      this.registry = options.registry;
+    } else {
+      const attestors = Array.from(new Set((options.attestors ?? this.signers.map(s => s.address)).map(a => getAddress(a))));
+      const threshold = this.thresholdFor(attestors.length);
+      if (threshold > attestors.length) {
+        throw new AttestationQuorumError(`Threshold ${threshold} is not between 1 and ${attestors.length} attestors`);
+      }
+      const outsider = this.signers.find(s => !attestors.includes(s.address));
+      if (outsider) {
+        throw new AttestationQuorumError(`Signing key ${outsider.address} is not a configured attestor`);
+      }
+      this.registry = new AttestorRegistry();
+      this.registry.seed(attestors);
+    }
+    this.domain = { ...attestationDomainFromEnv(), ...options.domain };
+    this.store = options.store;
+    this.windowMs = options.windowMs ?? ATTESTATION_BATCH_WINDOW_MS;
+    this.maxBatchSize = options.maxBatchSize ?? ATTESTATION_BATCH_MAX_SIZE;
+  }
+
+  /**
+   * Add the event to the open batch. Resolves once the batch root is signed.
+   */
+  attest(event: CreditEvent): Promise<Attestation> {
+    let eventHash: string;
+    try {
+      eventHash = canonicalEventHash(event);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    const nonce = hexlify(randomBytes(32));
+
+    // A signing failure reaches every caller in the batch through its own promise
+    const seal = () => this.flush().catch(() => undefined);
+    return new Promise((resolve, reject) => {
+      this.queue.push({ event, eventHash, nonce, resolve, reject });
+      if (this.queue.length >= this.maxBatchSize) {
+        seal();
+      } else if (!this.timer) {
+        this.timer = setTimeout(seal, this.windowMs);
+      }
+    });
+  }
+
+  /**
+   * Sign the open batch now. Resolves to null when nothing is waiting.
+   */
+  async flush(): Promise<AttestationBatch | null> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const queued = this.queue;
+    this.queue = [];
+    if (queued.length === 0) return null;
+
+    try {
+      const tree = new MerkleTree(queued.map(q => merkleLeaf(q.eventHash, q.nonce)));
+      const sealedAt = new Date();
+      const batchId = id(`${tree.root}-${sealedAt.getTime()}`);
+      const signers = this.signers.filter(s => this.registry.isActive(s.address, sealedAt));
+      if (signers.length === 0) {
+        throw new AttestationQuorumError(`No signing key is an active attestor at ${sealedAt.toISOString()}`);
+      }
+      const signatures = await this.sign({
+        batchId,
+        merkleRoot: tree.root,
+        batchSize: tree.size,
+        issuedAt: BigInt(sealedAt.getTime()),
+      }, signers);
+
+      const attestations: Attestation[] = queued.map((q, leafIndex) => ({
+        id: id(`${q.event.id}-${batchId}`),
+        eventId: q.event.id,
+        signature: signatures[0].signature,
+        attestor: signatures[0].attestor,
+        signatures,
+        timestamp: sealedAt,
+        scheme: 'eip712',
+        proof: {
+          merkleRoot: tree.root,
+          merkleProof: tree.proof(leafIndex),
+          eventHash: q.eventHash,
+          eventEncoding: CANONICAL_EVENT_ENCODING,
+          nonce: q.nonce,
+          batchId,
+          batchSize: tree.size,
+          leafIndex,
+        },
+      }));
+      await this.record(attestations, queued);
+      queued.forEach((q, i) => q.resolve(attestations[i]));
+      return { id: batchId, merkleRoot: tree.root, size: tree.size, signatures, sealedAt };
+    } catch (error) {
+      queued.forEach(q => q.reject(error));
+      throw error;
+    }
+  }
+
+  getDomain(): AttestationDomain {
+    return { ...this.domain };
+  }
+
+  getRegistry(): AttestorRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Attestors active at `at` (default now) and the signatures an attestation issued then needs.
+   */
+  getQuorum(at: Date = new Date()): { attestors: string[]; threshold: number } {
+    const attestors = this.registry.activeAt(at);
+    return { attestors, threshold: this.thresholdFor(attestors.length) };
   }
-  
+
+  /**
+   * Add this engine's signatures to an attestation issued by another attestor. The batch's
+   * CreditAttestation is signed as is, so only the root and batch fields are taken on trust.
+   * Keys that were not active at the attestation's timestamp do not sign.
+   */
+  async countersign(attestation: Attestation): Promise<Attestation> {
+    const existing = attestation.signatures ?? [{ attestor: attestation.attestor, signature: attestation.signature }];
+    const signers = this.signers.filter(s =>
+      this.registry.isActive(s.address, attestation.timestamp) &&
+      !existing.some(e => e.attestor.toLowerCase() === s.address.toLowerCase())
+    );
+    const added = await this.sign(creditAttestationValue(attestation), signers);
+    return { ...attestation, signatures: [...existing, ...added] };
+  }
+
+  /**
+   * Valid when the whole event, metadata included, hashes to the attested leaf, the leaf's path leads to the root,
+   * and at least `threshold` attestors active at the attestation's timestamp signed the root's
+   * CreditAttestation.
+   * Attestations signed before EIP-712 go through verifyLegacyAttestation instead.
+   */
   async verify(attestation: Attestation, event: CreditEvent): Promise<boolean> {
+    return (await this.verifyQuorum(attestation, event)).valid;
+  }
+
+  /**
+   * Verify an attestation and report which attestors signed it and which did not. Attestors are
+   * taken from the registry as it stood at the attestation's timestamp, so a rotated-out key still
+   * counts for what it signed while it was active.
+   */
+  async verifyQuorum(attestation: Attestation, event: CreditEvent): Promise<QuorumVerification> {
+    const { attestors, threshold } = this.getQuorum(new Date(attestation.timestamp));
+    const report: QuorumVerification = {
+      valid: false,
+      proofValid: false,
+      threshold,
+      signed: [],
+      missing: [...attestors],
+      rejected: [],
+    };
     try {
-      const message = this.createAttestationMessage(event, attestation.proof);
-      const recoveredAddress = verifyMessage(message, attestation.signature);
-      
-      if (recoveredAddress.toLowerCase() !== attestation.attestor.toLowerCase()) {
-        return false;
+      const { proof } = attestation;
+      if (attestation.scheme !== 'eip712') {
+        return report;
+      }
+      if (proof.eventHash !== this.hashEvent(event, proof.eventEncoding)) {
+        return report;
+      }
+      if (proof.leafIndex === undefined || proof.batchSize === undefined || proof.leafIndex < 0 || proof.leafIndex >= proof.batchSize) {
+        return report;
+      }
+      if (!verifyMerkleProof(merkleLeaf(proof.eventHash, proof.nonce), proof.merkleProof, proof.merkleRoot)) {
+        return report;
       }
-      
-      const expectedRoot = id(`${attestation.proof.eventHash}${attestation.proof.nonce}`);
-      if (attestation.proof.merkleRoot !== expectedRoot) {
-        return false;
+      report.proofValid = true;
+
+      const signatures = attestation.signatures ?? [{ attestor: attestation.attestor, signature: attestation.signature }];
+      for (const entry of signatures) {
+        const recovered = this.recoverAttestor(attestation, entry.signature);
+        if (!recovered || recovered.toLowerCase() !== entry.attestor.toLowerCase() || !attestors.includes(recovered)) {
+          report.rejected.push(entry);
+        } else if (!report.signed.includes(recovered)) {
+          report.signed.push(recovered);
+        }
       }
-      
-      return true;
+      report.missing = attestors.filter(a => !report.signed.includes(a));
+      report.valid = report.signed.length >= threshold;
+      return report;
     } catch (error) {
       console.error('Verification failed:', error);
-      return false;
+      return report;
     }
   }
-  
-  private async generateProof(event: CreditEvent): Promise<AttestationProof> {
-    const eventHash = id(JSON.stringify({
-      id: event.id,
-      type: event.type,
-      userId: event.userId,
-      amount: event.amount.toString(),
-      timestamp: event.timestamp.toISOString()
-    }));
-    
-    const nonce = hexlify(randomBytes(32));
-    const merkleRoot = id(`${eventHash}${nonce}`);
-    
-    return {
-      merkleRoot,
-      merkleProof: [],
-      eventHash,
-      nonce
-    };
+
+  /**
+   * Address that signed the attestation's CreditAttestation with `signature`, or null when the
+   * signature is malformed. Says nothing about whether that address is a registered attestor.
+   */
+  recoverAttestor(attestation: Attestation, signature: string): string | null {
+    try {
+      return verifyTypedData(this.typedDataDomain(), CREDIT_ATTESTATION_TYPES, creditAttestationValue(attestation), signature);
+    } catch {
+      return null;
+    }
   }
-  
-  private createAttestationMessage(event: CreditEvent, proof: AttestationProof): string {
-    return JSON.stringify({
-      eventId: event.id,
-      userId: event.userId,
-      amount: event.amount.toString(),
-      type: event.type,
-      merkleRoot: proof.merkleRoot,
-      timestamp: event.timestamp.toISOString()
-    });
+
+  // EIP-712 attestations issued before canonical encoding hashed five fields and no metadata
+  private hashEvent(event: CreditEvent, encoding: string | undefined): string | null {
+    if (encoding === CANONICAL_EVENT_ENCODING) return canonicalEventHash(event);
+    return encoding === undefined ? legacyEventHash(event) : null;
+  }
+
+  // Attestations are handed out even when the store is down; a lost write is reported, not thrown
+  private async record(attestations: Attestation[], queued: QueuedEvent[]): Promise<void> {
+    if (!this.store) return;
+    const recordedAt = new Date();
+    try {
+      await this.store.save(attestations.map((attestation, i) => {
+        const { attestation: _, ...event } = queued[i].event;
+        return { attestation, event, recordedAt };
+      }));
+    } catch (error) {
+      console.error(`[AttestationEngine] Failed to store batch ${attestations[0].proof.batchId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private thresholdFor(attestors: number): number {
+    return this.threshold ?? Math.floor(attestors / 2) + 1;
+  }
+
+  private async sign(value: Record<string, unknown>, signers: Wallet[] = this.signers): Promise<AttestorSignature[]> {
+    return Promise.all(signers.map(async signer => ({
+      attestor: signer.address,
+      signature: await signer.signTypedData(this.typedDataDomain(), CREDIT_ATTESTATION_TYPES, value),
+    })));
+  }
+
+  private typedDataDomain(): TypedDataDomain {
+    return { ...this.domain };
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * Legacy Attestation Verifier
+ *
+ * Attestations issued before EIP-712 were signed with personal_sign over a JSON string, so they
+ * only verify against byte-identical JSON. Two layouts are on record:
+ *   - per event: { eventId, userId, amount, type, merkleRoot, timestamp }, merkleRoot = id(eventHash + nonce)
+ *   - per batch: { batchId, merkleRoot, size }, with a Merkle inclusion proof for the event
+ * Both are reproduced here exactly as they were issued and must not change. New attestations are
+ * verified by AttestationEngine.verify, which hashes the whole event (see canonical.ts).
+ */
+
+import { id, verifyMessage } from 'ethers';
+import { Attestation, CreditEvent } from '../events/types';
+import { merkleLeaf, verifyMerkleProof } from './merkle';
+
+/**
+ * Event hash as computed when these attestations were issued: id, type, userId, amount and
+ * timestamp only. EIP-712 attestations issued before canonical encoding use it as well.
+ */
+export function legacyEventHash(event: CreditEvent): string {
+  return id(JSON.stringify({
+    id: event.id,
+    type: event.type,
+    userId: event.userId,
+    amount: event.amount.toString(),
+    timestamp: event.timestamp.toISOString()
+  }));
+}
+
+function eventMessage(event: CreditEvent, merkleRoot: string): string {
+  return JSON.stringify({
+    eventId: event.id,
+    userId: event.userId,
+    amount: event.amount.toString(),
+    type: event.type,
+    merkleRoot,
+    timestamp: event.timestamp.toISOString()
+  });
+}
+
+function batchMessage(batchId: string, merkleRoot: string, size: number): string {
+  return JSON.stringify({
+    batchId,
+    merkleRoot,
+    size
+  });
+}
+
+/**
+ * Verify an attestation stored before EIP-712 signing. EIP-712 attestations are refused here.
+ */
+export function verifyLegacyAttestation(attestation: Attestation, event: CreditEvent): boolean {
+  try {
+    const { proof } = attestation;
+    if (attestation.scheme === 'eip712' || proof.eventHash !== legacyEventHash(event)) {
+      return false;
+    }
+
+    let message: string;
+    if (proof.batchId === undefined) {
+      if (proof.merkleRoot !== id(`${proof.eventHash}${proof.nonce}`)) return false;
+      message = eventMessage(event, proof.merkleRoot);
+    } else {
+      if (proof.batchSize === undefined) return false;
+      if (!verifyMerkleProof(merkleLeaf(proof.eventHash, proof.nonce), proof.merkleProof, proof.merkleRoot)) return false;
+      message = batchMessage(proof.batchId, proof.merkleRoot, proof.batchSize);
+    }
+
+    return verifyMessage(message, attestation.signature).toLowerCase() === attestation.attestor.toLowerCase();
+  } catch (error) {
+    console.error('Legacy verification failed:', error);
+    return false;
+  }
+}
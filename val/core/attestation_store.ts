@@ -0,0 +1,124 @@
+/**
+ * Attestation Store
+ *
+ * Every attestation the engine issues, kept with the event it attests so it can be fetched and
+ * verified again later. Records are written once, when their batch is sealed, and never change.
+ * JSON copies (the attestations table, API bodies) carry bigints as decimal strings and dates as
+ * ISO strings; attestationFromJson and creditEventFromJson turn them back.
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import { Attestation, CreditEvent } from '../events/types';
+
+export interface StoredAttestation {
+  attestation: Attestation;
+  /** The attested event, without its own attestation field */
+  event: CreditEvent;
+  recordedAt: Date;
+}
+
+export interface AttestationStore {
+  /** One sealed batch; records already stored are left as they are */
+  save(records: StoredAttestation[]): Promise<void>;
+  get(id: string): Promise<StoredAttestation | null>;
+}
+
+export class InMemoryAttestationStore implements AttestationStore {
+  private records: Map<string, StoredAttestation> = new Map();
+
+  async save(records: StoredAttestation[]): Promise<void> {
+    for (const record of records) {
+      if (!this.records.has(record.attestation.id)) this.records.set(record.attestation.id, record);
+    }
+  }
+
+  async get(id: string): Promise<StoredAttestation | null> {
+    return this.records.get(id) ?? null;
+  }
+}
+
+/**
+ * Attestations in the attestations table (db/init.sql).
+ */
+export class PostgresAttestationStore implements AttestationStore {
+  private pool: Pool;
+
+  constructor(pool: Pool | PoolConfig) {
+    this.pool = pool instanceof Pool ? pool : new Pool(pool);
+    this.pool.on('error', error => console.error('[AttestationStore] Postgres pool error:', error.message));
+  }
+
+  async save(records: StoredAttestation[]): Promise<void> {
+    if (records.length === 0) return;
+    const params: unknown[] = [];
+    const rows = records.map(({ attestation, event, recordedAt }) => {
+      params.push(
+        attestation.id, attestation.eventId, attestation.proof.batchId ?? null, attestation.proof.merkleRoot,
+        attestation.scheme ?? 'personal_sign', attestation.timestamp, toJson(attestation), toJson(event), recordedAt
+      );
+      const n = params.length - 9;
+      return `($${n + 1}, $${n + 2}, $${n + 3}, $${n + 4}, $${n + 5}, $${n + 6}, $${n + 7}, $${n + 8}, $${n + 9})`;
+    });
+    await this.pool.query(
+      `INSERT INTO attestations (id, event_id, batch_id, merkle_root, scheme, issued_at, attestation, event, recorded_at)
+       VALUES ${rows.join(', ')}
+       ON CONFLICT (id) DO NOTHING`,
+      params
+    );
+  }
+
+  async get(id: string): Promise<StoredAttestation | null> {
+    const res = await this.pool.query('SELECT attestation, event, recorded_at FROM attestations WHERE id = $1', [id]);
+    if (!res.rows[0]) return null;
+    return {
+      attestation: attestationFromJson(res.rows[0].attestation),
+      event: creditEventFromJson(res.rows[0].event),
+      recordedAt: res.rows[0].recorded_at,
+    };
+  }
+}
+
+export class AttestationFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttestationFormatError';
+  }
+}
+
+/**
+ * Rebuild an attestation from its JSON form.
+ */
+export function attestationFromJson(json: any): Attestation {
+  if (!json || typeof json.id !== 'string' || typeof json.eventId !== 'string' || !json.proof || typeof json.proof.merkleRoot !== 'string') {
+    throw new AttestationFormatError('Invalid attestation: expected id, eventId and proof.merkleRoot');
+  }
+  const timestamp = new Date(json.timestamp);
+  if (Number.isNaN(timestamp.getTime())) {
+    throw new AttestationFormatError('Invalid attestation: timestamp is not a date');
+  }
+  return { ...json, timestamp };
+}
+
+/**
+ * Rebuild a credit event from its JSON form.
+ */
+export function creditEventFromJson(json: any): CreditEvent {
+  if (!json || typeof json.id !== 'string' || typeof json.type !== 'string' || typeof json.userId !== 'string') {
+    throw new AttestationFormatError('Invalid event: expected id, type and userId');
+  }
+  const timestamp = new Date(json.timestamp);
+  if (Number.isNaN(timestamp.getTime())) {
+    throw new AttestationFormatError('Invalid event: timestamp is not a date');
+  }
+  let amount: bigint;
+  try {
+    amount = BigInt(json.amount);
+  } catch {
+    throw new AttestationFormatError('Invalid event: amount is not a whole number of micro-units');
+  }
+  return { ...json, amount, timestamp, metadata: json.metadata ?? {} };
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+}
@@ -0,0 +1,151 @@
+/**
+ * Attestation Verifier
+ *
+ * Checks an attestation against its event the way an outside party would and reports each part
+ * of the verdict on its own: the event's inclusion proof, every signature, whether each signer was
+ * a registered attestor when the attestation was issued, and what TigerBeetle holds for the event.
+ * `valid` covers the attestation itself; the clearing status is reported beside it, since a valid
+ * attestation may still be waiting to clear or may have been voided.
+ */
+
+import { Transfer, TransferFlags } from 'tigerbeetle-node';
+import { Attestation, AttestationScheme, CreditEvent } from '../events/types';
+import { IClearingService } from '../clearing/tigerbeetle/types';
+import { eventRefFor } from '../clearing/tigerbeetle/client';
+import { AttestationEngine } from './attestation';
+import { verifyLegacyAttestation } from './attestation_legacy';
+import { AttestorRole } from './attestor_registry';
+
+/**
+ * What TigerBeetle holds under the event's transfer id: nothing, a reservation still pending,
+ * a reservation posted or voided, or a single-phase transfer.
+ */
+export type AttestationClearingStatus = 'not_found' | 'pending' | 'posted' | 'voided' | 'cleared' | 'unavailable';
+
+export interface SignatureVerdict {
+  attestor: string;
+  /** The signature recovers to `attestor` */
+  signatureValid: boolean;
+  registered: boolean;
+  role?: AttestorRole;
+  /** `attestor` was active in the registry at the attestation's timestamp */
+  activeAtIssue: boolean;
+  /** Counts towards the quorum: valid, and from an attestor active at issue */
+  counted: boolean;
+}
+
+export interface AttestationVerdict {
+  /** The attestation names the event, its proof holds, and enough attestors active at issue signed */
+  valid: boolean;
+  attestationId: string;
+  eventId: string;
+  scheme: AttestationScheme;
+  issuedAt: Date;
+  proof: {
+    valid: boolean;
+    /** The attestation names this event */
+    eventMatches: boolean;
+    /** How the event was hashed (unset: id, type, userId, amount and timestamp only) */
+    eventEncoding?: string;
+    merkleRoot: string;
+    batchId?: string;
+    leafIndex?: number;
+  };
+  signatures: SignatureVerdict[];
+  quorum: {
+    met: boolean;
+    threshold: number;
+    signed: string[];
+    missing: string[];
+  };
+  clearing: {
+    status: AttestationClearingStatus;
+    /** TigerBeetle transfer id (and user_data_128) derived from the event id */
+    transferId: bigint;
+    /** Set when TigerBeetle could not be queried */
+    error?: string;
+  };
+}
+
+export class AttestationVerifier {
+  constructor(
+    private engine: AttestationEngine,
+    private clearing: Pick<IClearingService, 'queryTransfers'>
+  ) {}
+
+  async verify(attestation: Attestation, event: CreditEvent): Promise<AttestationVerdict> {
+    const issuedAt = new Date(attestation.timestamp);
+    const scheme: AttestationScheme = attestation.scheme ?? 'personal_sign';
+    const registry = this.engine.getRegistry();
+    const eventMatches = attestation.eventId === event.id;
+    const entries = attestation.signatures ?? [{ attestor: attestation.attestor, signature: attestation.signature }];
+
+    let proofValid: boolean;
+    let quorum: AttestationVerdict['quorum'];
+    let signatureValid: (attestor: string, signature: string) => boolean;
+    if (scheme === 'eip712') {
+      const report = await this.engine.verifyQuorum(attestation, event);
+      proofValid = report.proofValid;
+      quorum = { met: report.valid, threshold: report.threshold, signed: report.signed, missing: report.missing };
+      signatureValid = (attestor, signature) =>
+        this.engine.recoverAttestor(attestation, signature)?.toLowerCase() === attestor.toLowerCase();
+    } else {
+      // Attestations signed before EIP-712 carry one signature, checked together with the proof
+      const legacyValid = verifyLegacyAttestation(attestation, event);
+      const active = legacyValid && registry.isActive(attestation.attestor, issuedAt);
+      proofValid = legacyValid;
+      quorum = {
+        met: active,
+        threshold: 1,
+        signed: active ? [registry.get(attestation.attestor)!.address] : [],
+        missing: active ? [] : [attestation.attestor],
+      };
+      signatureValid = () => legacyValid;
+    }
+
+    const signatures = entries.map(({ attestor, signature }): SignatureVerdict => {
+      const registered = registry.get(attestor);
+      const valid = signatureValid(attestor, signature);
+      const activeAtIssue = registry.isActive(attestor, issuedAt);
+      return { attestor, signatureValid: valid, registered: !!registered, role: registered?.role, activeAtIssue, counted: valid && activeAtIssue };
+    });
+
+    return {
+      valid: eventMatches && proofValid && quorum.met,
+      attestationId: attestation.id,
+      eventId: event.id,
+      scheme,
+      issuedAt,
+      proof: {
+        valid: proofValid,
+        eventMatches,
+        eventEncoding: attestation.proof.eventEncoding,
+        merkleRoot: attestation.proof.merkleRoot,
+        batchId: attestation.proof.batchId,
+        leafIndex: attestation.proof.leafIndex,
+      },
+      signatures,
+      quorum,
+      clearing: await this.clearingStatus(event.id),
+    };
+  }
+
+  // The spend's reservation (or the finalize transfer) has the event ref as its id; posts and voids name it as pending_id
+  private async clearingStatus(eventId: string): Promise<AttestationVerdict['clearing']> {
+    const transferId = eventRefFor(eventId);
+    let transfers: Transfer[];
+    try {
+      transfers = await this.clearing.queryTransfers({ eventRef: transferId });
+    } catch (error) {
+      return { status: 'unavailable', transferId, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const transfer = transfers.find(t => t.id === transferId);
+    if (!transfer) return { status: 'not_found', transferId };
+    if (!(transfer.flags & TransferFlags.pending)) return { status: 'cleared', transferId };
+
+    const resolution = transfers.find(t => t.pending_id === transferId);
+    if (!resolution) return { status: 'pending', transferId };
+    return { status: resolution.flags & TransferFlags.void_pending_transfer ? 'voided' : 'posted', transferId };
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Attestor Registry
+ *
+ * Which keys may sign attestations and when. Each attestor is active over a half-open window
+ * [activeFrom, activeUntil); a signature only counts towards the quorum when its attestor was
+ * active at the attestation's timestamp. Keys are never deleted: rotating a key closes the old
+ * window where the new one opens, so attestations signed before the rotation keep verifying.
+ * With a store, every change is written through to the attestor_registry table and loaded back
+ * on startup.
+ */
+
+import { getAddress } from 'ethers';
+import { Pool, PoolConfig } from 'pg';
+
+/** Issuers sign batches as they are sealed; cosigners add their signatures afterwards. Both count towards the quorum. */
+export type AttestorRole = 'issuer' | 'cosigner';
+
+export interface RegisteredAttestor {
+  /** Checksummed address */
+  address: string;
+  role: AttestorRole;
+  activeFrom: Date;
+  /** End of the window, exclusive (unset: still active) */
+  activeUntil?: Date;
+  /** Key that took over when this one was rotated out */
+  replacedBy?: string;
+  /** Trustee that registered the key (unset: seeded from configuration) */
+  registeredBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AttestorRegistryFilter {
+  role?: AttestorRole;
+  /** Only attestors active at this time */
+  activeAt?: Date;
+}
+
+/** Durable copy of the registry; the in-memory map stays the one verification reads */
+export interface AttestorRegistryStore {
+  load(): Promise<RegisteredAttestor[]>;
+  save(attestor: RegisteredAttestor): Promise<void>;
+}
+
+export class AttestorRegistryError extends Error {
+  constructor(
+    public address: string,
+    public reason: 'invalid' | 'unregistered' | 'conflict',
+    message: string
+  ) {
+    super(message);
+    this.name = 'AttestorRegistryError';
+  }
+}
+
+export class AttestorRegistry {
+  private attestors: Map<string, RegisteredAttestor> = new Map();
+  // Writes reach the store in the order the changes were made
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private store?: AttestorRegistryStore) {}
+
+  /**
+   * Load the stored registry. Stored entries win over ones registered before the load.
+   */
+  async load(): Promise<number> {
+    if (!this.store) return 0;
+    const stored = await this.store.load();
+    for (const attestor of stored) this.attestors.set(attestor.address, attestor);
+    return stored.length;
+  }
+
+  /**
+   * Resolves once every change so far has been written to the store.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Register addresses from configuration that the registry does not know yet, active since
+   * the epoch so attestations they issued before the registry existed keep verifying.
+   */
+  seed(addresses: string[], role: AttestorRole = 'issuer'): RegisteredAttestor[] {
+    return addresses
+      .filter(address => !this.get(address))
+      .map(address => this.register({ address, role, activeFrom: new Date(0) }));
+  }
+
+  /**
+   * Add a key. An address is registered once; a retired key is not brought back.
+   */
+  register(
+    attestor: Pick<RegisteredAttestor, 'address' | 'role'>
+      & Partial<Pick<RegisteredAttestor, 'activeFrom' | 'activeUntil' | 'registeredBy'>>
+  ): RegisteredAttestor {
+    const address = this.normalize(attestor.address);
+    if (this.attestors.has(address)) {
+      throw new AttestorRegistryError(address, 'conflict', `Attestor ${address} is already registered`);
+    }
+    const activeFrom = attestor.activeFrom ?? new Date();
+    if (attestor.activeUntil && attestor.activeUntil <= activeFrom) {
+      throw new AttestorRegistryError(address, 'invalid', `Attestor ${address} would never be active: activeUntil is not after activeFrom`);
+    }
+
+    const now = new Date();
+    const registered: RegisteredAttestor = {
+      address,
+      role: attestor.role,
+      activeFrom,
+      activeUntil: attestor.activeUntil,
+      registeredBy: attestor.registeredBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.attestors.set(address, registered);
+    this.persist(registered);
+    return registered;
+  }
+
+  /**
+   * End a key's window at `at` (default now). Attestations timestamped from `at` on no longer
+   * count its signature; a past `at` is how a compromised key's later signatures are disowned.
+   */
+  retire(address: string, at: Date = new Date()): RegisteredAttestor {
+    const attestor = this.require(address);
+    if (attestor.activeUntil) {
+      throw new AttestorRegistryError(attestor.address, 'conflict', `Attestor ${attestor.address} was already retired at ${attestor.activeUntil.toISOString()}`);
+    }
+    if (at <= attestor.activeFrom) {
+      throw new AttestorRegistryError(attestor.address, 'invalid', `Attestor ${attestor.address} cannot be retired before it became active`);
+    }
+
+    attestor.activeUntil = at;
+    attestor.updatedAt = new Date();
+    this.persist(attestor);
+    return attestor;
+  }
+
+  /**
+   * Hand a key's place over to a new one at `at` (default now): the replacement is registered
+   * with the same role, active from `at`, and the old key is retired at `at`.
+   */
+  rotate(address: string, replacement: string, at: Date = new Date(), registeredBy?: string): { retired: RegisteredAttestor; replacement: RegisteredAttestor } {
+    const attestor = this.require(address);
+    const next = this.normalize(replacement);
+    if (this.attestors.has(next)) {
+      throw new AttestorRegistryError(next, 'conflict', `Replacement ${next} is already registered`);
+    }
+
+    const retired = this.retire(attestor.address, at);
+    retired.replacedBy = next;
+    this.persist(retired);
+    return { retired, replacement: this.register({ address: next, role: attestor.role, activeFrom: at, registeredBy }) };
+  }
+
+  get(address: string): RegisteredAttestor | undefined {
+    try {
+      return this.attestors.get(getAddress(address));
+    } catch {
+      return undefined;
+    }
+  }
+
+  list(filter: AttestorRegistryFilter = {}): RegisteredAttestor[] {
+    return Array.from(this.attestors.values()).filter(attestor =>
+      (filter.role === undefined || attestor.role === filter.role) &&
+      (filter.activeAt === undefined || isActiveAt(attestor, filter.activeAt))
+    );
+  }
+
+  /**
+   * Whether the address was a registered attestor at `at`.
+   */
+  isActive(address: string, at: Date): boolean {
+    const attestor = this.get(address);
+    return attestor !== undefined && isActiveAt(attestor, at);
+  }
+
+  /**
+   * Addresses of every attestor active at `at`, in registration order.
+   */
+  activeAt(at: Date): string[] {
+    return this.list({ activeAt: at }).map(attestor => attestor.address);
+  }
+
+  private normalize(address: string): string {
+    try {
+      return getAddress(address);
+    } catch {
+      throw new AttestorRegistryError(address, 'invalid', `Invalid attestor address: ${address}`);
+    }
+  }
+
+  private require(address: string): RegisteredAttestor {
+    const attestor = this.get(address);
+    if (!attestor) {
+      throw new AttestorRegistryError(address, 'unregistered', `Attestor ${address} is not registered`);
+    }
+    return attestor;
+  }
+
+  // The registry keeps working when the store does not; a lost write is reported, not thrown
+  private persist(attestor: RegisteredAttestor): void {
+    if (!this.store) return;
+    const store = this.store;
+    const snapshot = { ...attestor };
+    this.writes = this.writes
+      .then(() => store.save(snapshot))
+      .catch(error => console.error(`[AttestorRegistry] Failed to store attestor ${attestor.address}:`, error instanceof Error ? error.message : error));
+  }
+}
+
+function isActiveAt(attestor: RegisteredAttestor, at: Date): boolean {
+  const time = new Date(at).getTime();
+  return attestor.activeFrom.getTime() <= time && (attestor.activeUntil === undefined || time < attestor.activeUntil.getTime());
+}
+
+/**
+ * Registry store in the attestor_registry table (db/init.sql).
+ */
+export class PostgresAttestorRegistryStore implements AttestorRegistryStore {
+  private pool: Pool;
+
+  constructor(pool: Pool | PoolConfig) {
+    this.pool = pool instanceof Pool ? pool : new Pool(pool);
+  }
+
+  async load(): Promise<RegisteredAttestor[]> {
+    const res = await this.pool.query('SELECT * FROM attestor_registry ORDER BY created_at');
+    return res.rows.map(row => ({
+      address: row.address,
+      role: row.role,
+      activeFrom: row.active_from,
+      activeUntil: row.active_until ?? undefined,
+      replacedBy: row.replaced_by ?? undefined,
+      registeredBy: row.registered_by ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async save(attestor: RegisteredAttestor): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO attestor_registry (
+         address, role, active_from, active_until, replaced_by, registered_by, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (address) DO UPDATE SET
+         active_until = EXCLUDED.active_until, replaced_by = EXCLUDED.replaced_by, updated_at = EXCLUDED.updated_at`,
+      [
+        attestor.address, attestor.role, attestor.activeFrom, attestor.activeUntil ?? null,
+        attestor.replacedBy ?? null, attestor.registeredBy ?? null, attestor.createdAt, attestor.updatedAt,
+      ]
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Canonical Event Encoding
+ *
+ * One byte-exact JSON form for a value, so the same event always hashes the same wherever it is
+ * serialized. Object keys are sorted in UTF-16 code unit order (as Array.prototype.sort does) and
+ * keys holding undefined are left out, as a JSON round trip would leave them out. bigint becomes
+ * {"$bigint":"<decimal>"} and Date becomes {"$date":"<ISO 8601>"}, so neither can be confused with
+ * a string. Values JSON cannot carry faithfully (NaN, Infinity, functions, symbols) are refused
+ * rather than silently dropped.
+ */
+
+import { id } from 'ethers';
+import { CreditEvent } from '../events/types';
+
+/** Recorded on attestation proofs whose eventHash is canonicalEventHash */
+export const CANONICAL_EVENT_ENCODING = 'canonical-v1';
+
+export class CanonicalEncodingError extends Error {
+  constructor(public path: string, message: string) {
+    super(`${message} at ${path}`);
+    this.name = 'CanonicalEncodingError';
+  }
+}
+
+export function canonicalize(value: unknown): string {
+  return encode(value, '$');
+}
+
+/**
+ * Keccak-256 of the canonical form of the whole event: every field and all of its metadata.
+ * The event's own attestation is left out, since it is what the hash is signed into.
+ */
+export function canonicalEventHash(event: CreditEvent): string {
+  const { attestation: _, ...content } = event;
+  return id(canonicalize(content));
+}
+
+function encode(value: unknown, path: string): string {
+  if (value === null) return 'null';
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value);
+    case 'number':
+      if (!Number.isFinite(value)) throw new CanonicalEncodingError(path, `Cannot encode ${value}`);
+      return JSON.stringify(value);
+    case 'bigint':
+      return `{"$bigint":${JSON.stringify(value.toString())}}`;
+    case 'object':
+      break;
+    default:
+      throw new CanonicalEncodingError(path, `Cannot encode a ${typeof value}`);
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) throw new CanonicalEncodingError(path, 'Cannot encode an invalid date');
+    return `{"$date":${JSON.stringify(value.toISOString())}}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item, i) => item === undefined ? 'null' : encode(item, `${path}[${i}]`)).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${encode((value as Record<string, unknown>)[key], `${path}.${key}`)}`);
+  return `{${entries.join(',')}}`;
+}
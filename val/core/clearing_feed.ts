@@ -0,0 +1,241 @@
+// Clearing Change Feed - Tails TigerBeetle transfers into the Narrative Mirror
+//
+// -----------------------------------------------------------------------------
+// SOVR CANON NOTICE
+// -----------------------------------------------------------------------------
+// Application code logs events after clearing; a crash in between leaves the
+// mirror without a record of a transfer that cleared. The feed reads transfers
+// back from TigerBeetle in commit order and records one CLEARING_OBSERVATION per
+// transfer, so every cleared transfer is observed whether or not it was logged.
+// -----------------------------------------------------------------------------
+
+import { Pool, PoolConfig } from 'pg';
+import { Transfer, TransferFlags } from 'tigerbeetle-node';
+import { IClearingService } from '../clearing/tigerbeetle/types';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { currencyFor } from '../clearing/tigerbeetle/ledgers';
+import { NARRATIVE_ACCOUNTS, RecordNarrativeEntryRequest } from '../shared/narrative-mirror-bridge';
+import { NarrativeMirrorService } from './narrative-mirror-service';
+
+export const CHANGE_FEED_INTERVAL_MS = 5_000;
+export const CHANGE_FEED_BATCH_SIZE = 500;
+export const CHANGE_FEED_CONSUMER = 'narrative-mirror';
+
+/**
+ * Where a consumer's cursor is kept: the commit timestamp of the last transfer it observed.
+ */
+export interface ChangeFeedCursorStore {
+  /** 0n when the consumer has not observed anything yet */
+  load(consumer: string): Promise<bigint>;
+  save(consumer: string, timestamp: bigint, transferId: bigint): Promise<void>;
+}
+
+export class InMemoryChangeFeedCursorStore implements ChangeFeedCursorStore {
+  private cursors: Map<string, bigint> = new Map();
+
+  async load(consumer: string): Promise<bigint> {
+    return this.cursors.get(consumer) ?? 0n;
+  }
+
+  async save(consumer: string, timestamp: bigint): Promise<void> {
+    this.cursors.set(consumer, timestamp);
+  }
+}
+
+/**
+ * Cursors in the clearing_feed_cursors table (db/init.sql).
+ */
+export class PostgresChangeFeedCursorStore implements ChangeFeedCursorStore {
+  private pool: Pool;
+
+  constructor(pool: Pool | PoolConfig) {
+    this.pool = pool instanceof Pool ? pool : new Pool(pool);
+    this.pool.on('error', error => console.error('[ChangeFeed] Postgres pool error:', error.message));
+  }
+
+  async load(consumer: string): Promise<bigint> {
+    const res = await this.pool.query('SELECT last_timestamp FROM clearing_feed_cursors WHERE consumer = $1', [consumer]);
+    return res.rows[0] ? BigInt(res.rows[0].last_timestamp) : 0n;
+  }
+
+  async save(consumer: string, timestamp: bigint, transferId: bigint): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO clearing_feed_cursors (consumer, last_timestamp, last_transfer_id, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (consumer) DO UPDATE SET
+         last_timestamp = EXCLUDED.last_timestamp, last_transfer_id = EXCLUDED.last_transfer_id, updated_at = NOW()`,
+      [consumer, timestamp.toString(), transferId.toString()]
+    );
+  }
+}
+
+export interface ChangeFeedStatus {
+  consumer: string;
+  /** Commit timestamp of the last observed transfer (0n: none yet) */
+  cursor: bigint;
+  /** Transfers recorded by this process */
+  observed: number;
+  lastPolledAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * Narrative eventId of a transfer's observation. One per transfer, so a replay finds it already recorded.
+ */
+export function transferObservationId(transferId: bigint): string {
+  return `transfer:${transferId}`;
+}
+
+const TRANSFER_CODE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(TRANSFER_CODES).map(([name, code]) => [code, name])
+);
+
+function transferKind(transfer: Transfer): string {
+  if (transfer.flags & TransferFlags.post_pending_transfer) return 'post';
+  if (transfer.flags & TransferFlags.void_pending_transfer) return 'void';
+  if (transfer.flags & TransferFlags.pending) return 'pending';
+  return 'posted';
+}
+
+export class ClearingChangeFeed {
+  private cursor: bigint | undefined;
+  private observed = 0;
+  private lastPolledAt: Date | null = null;
+  private lastError: string | null = null;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running: Promise<number> | null = null;
+  private store: ChangeFeedCursorStore;
+  private consumer: string;
+  private intervalMs: number;
+  private batchSize: number;
+
+  constructor(
+    private clearing: Pick<IClearingService, 'queryTransfers' | 'getRegistry'>,
+    private mirror: Pick<NarrativeMirrorService, 'recordNarrativeEntry' | 'getNarrativeEntriesByEventId'>,
+    options: {
+      store?: ChangeFeedCursorStore;
+      consumer?: string;
+      intervalMs?: number;
+      batchSize?: number;
+    } = {}
+  ) {
+    this.store = options.store || new InMemoryChangeFeedCursorStore();
+    this.consumer = options.consumer || CHANGE_FEED_CONSUMER;
+    this.intervalMs = options.intervalMs ?? CHANGE_FEED_INTERVAL_MS;
+    this.batchSize = options.batchSize ?? CHANGE_FEED_BATCH_SIZE;
+  }
+
+  /**
+   * Observe every transfer committed since the cursor, until caught up. Concurrent callers share one run.
+   * Resolves to the number of transfers recorded.
+   */
+  async poll(): Promise<number> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Poll on a fixed interval until stop() is called.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('[ChangeFeed] Poll failed:', error));
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  getStatus(): ChangeFeedStatus {
+    return {
+      consumer: this.consumer,
+      cursor: this.cursor ?? 0n,
+      observed: this.observed,
+      lastPolledAt: this.lastPolledAt,
+      lastError: this.lastError,
+    };
+  }
+
+  // The cursor only moves past a transfer once its observation is recorded, so a failure
+  // (or a crash) resumes at the first transfer not yet observed
+  private async run(): Promise<number> {
+    let recorded = 0;
+    try {
+      this.cursor ??= await this.store.load(this.consumer);
+      for (;;) {
+        const transfers = await this.clearing.queryTransfers({ timestampMin: this.cursor + 1n, limit: this.batchSize });
+        for (const transfer of transfers) {
+          if (await this.observe(transfer)) recorded++;
+          await this.store.save(this.consumer, transfer.timestamp, transfer.id);
+          this.cursor = transfer.timestamp;
+        }
+        if (transfers.length < this.batchSize) break;
+      }
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[ChangeFeed] Stopped at cursor', this.cursor?.toString(), '-', this.lastError);
+    }
+    this.lastPolledAt = new Date();
+    this.observed += recorded;
+    if (recorded > 0) console.log(`[ChangeFeed] Observed ${recorded} transfers (cursor ${this.cursor})`);
+    return recorded;
+  }
+
+  private async observe(transfer: Transfer): Promise<boolean> {
+    const eventId = transferObservationId(transfer.id);
+    // Recorded before the cursor was saved (crash in between); observing it again would duplicate it
+    if ((await this.mirror.getNarrativeEntriesByEventId(eventId)).length > 0) return false;
+
+    const result = await this.mirror.recordNarrativeEntry(this.observation(transfer, eventId));
+    if (!result.success) throw new Error(`Narrative Mirror refused transfer ${transfer.id}: ${result.error}`);
+    return true;
+  }
+
+  /**
+   * The observation records that the transfer cleared; its lines carry no amount. The value is
+   * booked by the event the application logs for it, and booking it here too would count it
+   * twice in the observed balances the reconciler compares against TigerBeetle.
+   */
+  private observation(transfer: Transfer, eventId: string): RecordNarrativeEntryRequest {
+    const registry = this.clearing.getRegistry();
+    const debit = registry.get(transfer.debit_account_id);
+    const credit = registry.get(transfer.credit_account_id);
+    const member = [debit, credit].find(account => account?.kind === 'user');
+    const currency = currencyFor(transfer.ledger) ?? `ledger ${transfer.ledger}`;
+    const displayAmount = (Number(transfer.amount) / 1_000_000).toFixed(2);
+    const code = TRANSFER_CODE_NAMES[transfer.code] ?? `code ${transfer.code}`;
+    const eventRef = transfer.user_data_128 ? `, event ref ${transfer.user_data_128.toString(16)}` : '';
+    const pending = transfer.pending_id ? `, resolves ${transfer.pending_id}` : '';
+
+    return {
+      description: `Clearing Transfer Observed: ${code} ${displayAmount} ${currency} (${transferKind(transfer)}) - transfer ${transfer.id}${pending}${eventRef}`,
+      source: 'CLEARING_OBSERVATION',
+      status: 'RECORDED',
+      lines: [
+        {
+          accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE,
+          type: 'DEBIT',
+          amount: 0n,
+          description: `Debited ${debit?.name ?? transfer.debit_account_id}`,
+        },
+        {
+          accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE,
+          type: 'CREDIT',
+          amount: 0n,
+          description: `Credited ${credit?.name ?? transfer.credit_account_id}`,
+        },
+      ],
+      eventId,
+      userId: member?.owner,
+    };
+  }
+}
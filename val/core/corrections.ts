@@ -0,0 +1,310 @@
+// Corrections - Compensating transfers for spends that cleared but were not honored
+//
+// -----------------------------------------------------------------------------
+// SOVR CANON NOTICE
+// -----------------------------------------------------------------------------
+// Cleared transfers are immutable. An adjustment is a new obligation: a
+// compensating transfer linked to the original by user_data_128, cleared only
+// after a trustee approves it. Neither the original transfer nor its narrative
+// entry is ever changed. With a store, every request and decision is written
+// through to the corrections table and loaded back on startup.
+// -----------------------------------------------------------------------------
+
+import { Pool, PoolConfig } from 'pg';
+import { TransferFlags } from 'tigerbeetle-node';
+import { CreditEventType } from '../events/types';
+import { EventLogger } from '../events/logger';
+import { IClearingService, ClearingReason, ClearingResult, ACCOUNT_HISTORY_MAX_LIMIT } from '../clearing/tigerbeetle/types';
+import { eventRefFor } from '../clearing/tigerbeetle/client';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { LEDGER_IDS, resolveCurrency } from '../clearing/tigerbeetle/ledgers';
+
+export type CorrectionStatus = 'pending_approval' | 'applied' | 'rejected' | 'failed';
+
+export interface CorrectionRequest {
+  id: string;
+  /** CreditEvent whose cleared spend is being compensated */
+  eventId: string;
+  userId: string;
+  ledger: number;
+  /** Micro-units returned to the member */
+  amount: bigint;
+  reason: string;
+  requestedBy: string;
+  requestedAt: Date;
+  status: CorrectionStatus;
+  /** Account credited by the original spend; the compensating transfer debits it */
+  counterparty: bigint;
+  /** Compensating transfer, once one was submitted */
+  transferId?: bigint;
+  decidedBy?: string;
+  decidedAt?: Date;
+  /** Ledger reason the last approval attempt failed with */
+  detail?: ClearingReason;
+  /** Approval attempts, failed ones included */
+  attempts: number;
+}
+
+export interface CorrectionParams {
+  eventId: string;
+  userId: string;
+  currency?: string;
+  /** Defaults to everything the event cleared that is not corrected yet */
+  amount?: bigint;
+  reason: string;
+  requestedBy: string;
+}
+
+/** Durable copy of the corrections; the in-memory map stays the one requests and decisions read */
+export interface CorrectionStore {
+  load(): Promise<CorrectionRequest[]>;
+  save(correction: CorrectionRequest): Promise<void>;
+}
+
+export class CorrectionError extends Error {
+  constructor(message: string, public correctionId?: string) {
+    super(message);
+    this.name = 'CorrectionError';
+  }
+}
+
+// The transfer never reached clearing, so approving again may still apply it.
+// Any other rejection is final: TigerBeetle refuses a failed transfer id for good.
+const RETRYABLE_REASONS: ReadonlySet<ClearingReason> = new Set(['client_unavailable']);
+
+export class CorrectionService {
+  private corrections: Map<string, CorrectionRequest> = new Map();
+  // Corrections whose transfer is being cleared; a second approve or a reject is refused meanwhile
+  private approving: Set<string> = new Set();
+  // Writes reach the store in the order the changes were made
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private clearing: IClearingService,
+    private eventLogger: EventLogger,
+    private store?: CorrectionStore
+  ) {}
+
+  /**
+   * Load the stored corrections. Stored entries win over ones filed before the load.
+   */
+  async load(): Promise<number> {
+    if (!this.store) return 0;
+    const stored = await this.store.load();
+    for (const correction of stored) this.corrections.set(correction.id, correction);
+    return stored.length;
+  }
+
+  /**
+   * Resolves once every change so far has been written to the store.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * File a correction for a cleared spend. Nothing moves until a trustee approves it.
+   */
+  async request(params: CorrectionParams): Promise<CorrectionRequest> {
+    const ledger = LEDGER_IDS[resolveCurrency(params.currency)];
+    const userAccount = this.clearing.userAccountId(params.userId, ledger);
+    const eventRef = eventRefFor(params.eventId);
+    const transfers = await this.clearing.getAccountTransfers(userAccount, { eventRef, limit: ACCOUNT_HISTORY_MAX_LIMIT });
+
+    // Cleared debits only: holds and voids never took value from the member
+    const cleared = transfers.filter(t =>
+      t.debit_account_id === userAccount &&
+      (t.flags & (TransferFlags.pending | TransferFlags.void_pending_transfer)) === 0
+    );
+    if (cleared.length === 0) {
+      throw new CorrectionError(`Event ${params.eventId} cleared no spend for ${params.userId}`);
+    }
+    const corrected = transfers
+      .filter(t => t.credit_account_id === userAccount && t.code === TRANSFER_CODES.SPEND_CORRECTION)
+      .reduce((sum, t) => sum + t.amount, 0n);
+    const awaiting = this.list('pending_approval')
+      .filter(c => c.eventId === params.eventId && c.ledger === ledger)
+      .reduce((sum, c) => sum + c.amount, 0n);
+    const correctable = cleared.reduce((sum, t) => sum + t.amount, 0n) - corrected - awaiting;
+
+    const amount = params.amount ?? correctable;
+    if (amount <= 0n || amount > correctable) {
+      throw new CorrectionError(
+        `Cannot correct ${amount} of event ${params.eventId}: ${correctable > 0n ? correctable : 0n} is correctable`
+      );
+    }
+
+    const correction: CorrectionRequest = {
+      id: `corr_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      eventId: params.eventId,
+      userId: params.userId,
+      ledger,
+      amount,
+      reason: params.reason,
+      requestedBy: params.requestedBy,
+      requestedAt: new Date(),
+      status: 'pending_approval',
+      counterparty: cleared[0].credit_account_id,
+      attempts: 0,
+    };
+    this.corrections.set(correction.id, correction);
+    this.persist(correction);
+    await this.logDecision(correction, CreditEventType.CORRECTION_REQUESTED);
+    return correction;
+  }
+
+  /**
+   * Clear the compensating transfer. Its id derives from the correction id, so a retry cannot pay twice.
+   * A correction whose transfer could not reach clearing stays pending approval for another attempt;
+   * one the ledger rejected is failed. Either way the failure is logged.
+   */
+  async approve(id: string, trustee: string): Promise<CorrectionRequest> {
+    const correction = this.pending(id, 'approve');
+    this.approving.add(id);
+    let result: ClearingResult;
+    try {
+      result = await this.clearing.createTransfer(
+        correction.counterparty,
+        this.clearing.userAccountId(correction.userId, correction.ledger),
+        correction.amount,
+        correction.ledger,
+        { code: TRANSFER_CODES.SPEND_CORRECTION, eventRef: eventRefFor(correction.eventId) },
+        eventRefFor(correction.id)
+      );
+    } finally {
+      this.approving.delete(id);
+    }
+
+    correction.attempts++;
+    correction.transferId = result.transferId;
+    correction.decidedBy = trustee;
+    correction.decidedAt = new Date();
+    if (!result.ok) {
+      const retryable = RETRYABLE_REASONS.has(result.reason);
+      if (!retryable) correction.status = 'failed';
+      correction.detail = result.reason;
+      this.persist(correction);
+      await this.logDecision(correction, CreditEventType.CORRECTION_FAILED);
+      return correction;
+    }
+    correction.status = 'applied';
+    correction.detail = undefined;
+    this.persist(correction);
+    await this.logDecision(correction, CreditEventType.CORRECTION_APPLIED);
+    return correction;
+  }
+
+  async reject(id: string, trustee: string, reason?: string): Promise<CorrectionRequest> {
+    const correction = this.pending(id, 'reject');
+    correction.status = 'rejected';
+    correction.decidedBy = trustee;
+    correction.decidedAt = new Date();
+    this.persist(correction);
+    await this.logDecision(correction, CreditEventType.CORRECTION_REJECTED, reason);
+    return correction;
+  }
+
+  get(id: string): CorrectionRequest | undefined {
+    return this.corrections.get(id);
+  }
+
+  list(status?: CorrectionStatus): CorrectionRequest[] {
+    const all = Array.from(this.corrections.values());
+    return status ? all.filter(c => c.status === status) : all;
+  }
+
+  private pending(id: string, operation: 'approve' | 'reject'): CorrectionRequest {
+    const correction = this.corrections.get(id);
+    if (!correction) throw new CorrectionError(`Correction ${id} not found`, id);
+    if (correction.status !== 'pending_approval') {
+      throw new CorrectionError(`Cannot ${operation} correction ${id}: it is ${correction.status}`, id);
+    }
+    if (this.approving.has(id)) {
+      throw new CorrectionError(`Cannot ${operation} correction ${id}: it is being approved`, id);
+    }
+    return correction;
+  }
+
+  // The correction keeps working when the store does not; a lost write is reported, not thrown
+  private persist(correction: CorrectionRequest): void {
+    if (!this.store) return;
+    const store = this.store;
+    const snapshot = { ...correction };
+    this.writes = this.writes
+      .then(() => store.save(snapshot))
+      .catch(error => console.error(`[Corrections] Failed to store correction ${correction.id}:`, error instanceof Error ? error.message : error));
+  }
+
+  private async logDecision(correction: CorrectionRequest, type: CreditEventType, rejection?: string): Promise<void> {
+    await this.eventLogger.log({
+      // A correction may fail more than once before it is applied
+      id: type === CreditEventType.CORRECTION_FAILED ? `${correction.id}:${type}:${correction.attempts}` : `${correction.id}:${type}`,
+      type,
+      userId: correction.userId,
+      amount: correction.amount,
+      timestamp: new Date(),
+      metadata: {
+        correctionId: correction.id,
+        correctsEventId: correction.eventId,
+        reason: rejection ?? correction.reason,
+        requestedBy: correction.requestedBy,
+        decidedBy: correction.decidedBy,
+        transferId: correction.transferId?.toString(),
+        ...(type === CreditEventType.CORRECTION_FAILED && {
+          detail: correction.detail,
+          retryable: String(correction.status === 'pending_approval'),
+        }),
+      },
+    });
+  }
+}
+
+/**
+ * Correction store in the corrections table (db/init.sql). u128 values are stored as decimal strings.
+ */
+export class PostgresCorrectionStore implements CorrectionStore {
+  private pool: Pool;
+
+  constructor(pool: Pool | PoolConfig) {
+    this.pool = pool instanceof Pool ? pool : new Pool(pool);
+  }
+
+  async load(): Promise<CorrectionRequest[]> {
+    const res = await this.pool.query('SELECT * FROM corrections ORDER BY requested_at');
+    return res.rows.map(row => ({
+      id: row.id,
+      eventId: row.event_id,
+      userId: row.user_id,
+      ledger: row.ledger,
+      amount: BigInt(row.amount),
+      reason: row.reason,
+      requestedBy: row.requested_by,
+      requestedAt: row.requested_at,
+      status: row.status,
+      counterparty: BigInt(row.counterparty),
+      transferId: row.transfer_id ? BigInt(row.transfer_id) : undefined,
+      decidedBy: row.decided_by ?? undefined,
+      decidedAt: row.decided_at ?? undefined,
+      detail: row.detail ?? undefined,
+      attempts: row.attempts,
+    }));
+  }
+
+  async save(correction: CorrectionRequest): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO corrections (
+         id, event_id, user_id, ledger, amount, reason, requested_by, requested_at, status,
+         counterparty, transfer_id, decided_by, decided_at, detail, attempts
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status, transfer_id = EXCLUDED.transfer_id, decided_by = EXCLUDED.decided_by,
+         decided_at = EXCLUDED.decided_at, detail = EXCLUDED.detail, attempts = EXCLUDED.attempts`,
+      [
+        correction.id, correction.eventId, correction.userId, correction.ledger, correction.amount.toString(),
+        correction.reason, correction.requestedBy, correction.requestedAt, correction.status,
+        correction.counterparty.toString(), correction.transferId?.toString() ?? null, correction.decidedBy ?? null,
+        correction.decidedAt ?? null, correction.detail ?? null, correction.attempts,
+      ]
+    );
+  }
+}
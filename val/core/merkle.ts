@@ -0,0 +1,76 @@
+/**
+ * Merkle Tree - Batches attested events under one signed root
+ *
+ * Leaves and inner nodes are hashed with distinct prefixes (0x00 / 0x01), so an inner node can never
+ * pass for a leaf. Each pair is hashed in sorted order, which lets a proof be the list of sibling
+ * hashes alone, without left/right markers. A node left without a sibling moves up a level unchanged.
+ */
+
+import { concat, keccak256 } from 'ethers';
+
+const LEAF_PREFIX = '0x00';
+const NODE_PREFIX = '0x01';
+
+/**
+ * Leaf for an attested event: the event hash blinded by a per-event nonce, so a proof handed to one
+ * party reveals nothing about the other events in the batch.
+ */
+export function merkleLeaf(eventHash: string, nonce: string): string {
+  return keccak256(concat([LEAF_PREFIX, eventHash, nonce]));
+}
+
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase()
+    ? keccak256(concat([NODE_PREFIX, a, b]))
+    : keccak256(concat([NODE_PREFIX, b, a]));
+}
+
+export class MerkleTree {
+  // levels[0] = leaves, last level = [root]
+  private levels: string[][];
+
+  constructor(leaves: string[]) {
+    if (leaves.length === 0) throw new Error('A Merkle tree needs at least one leaf');
+    this.levels = [leaves];
+    while (this.levels[this.levels.length - 1].length > 1) {
+      const level = this.levels[this.levels.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+      }
+      this.levels.push(next);
+    }
+  }
+
+  get root(): string {
+    return this.levels[this.levels.length - 1][0];
+  }
+
+  get size(): number {
+    return this.levels[0].length;
+  }
+
+  /**
+   * Sibling hashes from the leaf at `index` up to the root.
+   */
+  proof(index: number): string[] {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      throw new RangeError(`Leaf ${index} is outside a tree of ${this.size}`);
+    }
+    const proof: string[] = [];
+    for (const level of this.levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) proof.push(level[sibling]);
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  }
+}
+
+/**
+ * Whether `leaf` is in the tree with `root`, following `proof` upwards.
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
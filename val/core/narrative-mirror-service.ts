@@ -12,6 +12,8 @@
  */
 
 import { Pool, PoolConfig } from 'pg';
+import { BackoffOptions, ComponentHealth, ConnectionMonitor, ProbeOutcome } from '../shared/health';
+import { postgresConfigFromEnv } from '../shared/postgres';
 import type {
   INarrativeMirror,
   RecordNarrativeEntryRequest,
@@ -39,19 +41,20 @@ interface NarrativeMirrorConfig {
   apiKey?: string;
   timeout?: number;
   postgres?: PoolConfig;
+  /** How long a health probe waits for Postgres (default DEFAULT_PROBE_TIMEOUT_MS) */
+  probeTimeoutMs?: number;
+  /** Reconnect delays after a failed probe (default DEFAULT_BACKOFF) */
+  backoff?: BackoffOptions;
 }
 
+// Tables from db/init.sql the mirror writes to; without them it stays on memory storage
+const REQUIRED_TABLES = ['journal_entries', 'journal_lines'];
+
 const DEFAULT_CONFIG: NarrativeMirrorConfig = {
   baseUrl: process.env.NARRATIVE_MIRROR_URL || 'http://localhost:3001',
   apiKey: process.env.NARRATIVE_MIRROR_API_KEY,
   timeout: 30000,
-  postgres: process.env.POSTGRES_URL ? { connectionString: process.env.POSTGRES_URL } : {
-    user: process.env.POSTGRES_USER || 'sovr_admin',
-    password: process.env.POSTGRES_PASSWORD || 'sovereignty_is_mechanical',
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
-    database: process.env.POSTGRES_DB || 'sovr_narrative',
-  }
+  postgres: postgresConfigFromEnv(),
 };
 
 // =============================================================================
@@ -63,6 +66,7 @@ export class NarrativeMirrorService implements INarrativeMirror {
   private narrativeIdCounter: number = 0;
   private pool: Pool | null = null;
   private isPostgresConnected: boolean = false;
+  private health: ConnectionMonitor;
   
   // Memory fallback storage (observation records, NOT authoritative balances)
   private narrativeRecords: Map<string, NarrativeEntry> = new Map();
@@ -70,28 +74,57 @@ export class NarrativeMirrorService implements INarrativeMirror {
 
   constructor(config: Partial<NarrativeMirrorConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.initializeObservedBalances();
+    this.health = new ConnectionMonitor('postgres', () => this.probe(), () => this.reconnect(), {
+      timeoutMs: this.config.probeTimeoutMs,
+      backoff: this.config.backoff,
+      onChange: health => {
+        // Only a reachable database with the narrative schema takes writes; otherwise memory does
+        this.isPostgresConnected = health.state === 'up';
+        if (health.state === 'up') {
+          console.log('[NARRATIVE MIRROR] Connected to Postgres Narrative Storage');
+        } else {
+          const retry = health.nextReconnectAt ? `, reconnecting at ${health.nextReconnectAt.toISOString()}` : '';
+          console.warn(`[NARRATIVE MIRROR] Postgres ${health.state} (${health.lastError}), falling back to memory${retry}`);
+        }
+      },
+    });
     this.initializePostgres();
   }
 
   private async initializePostgres() {
-    try {
-      this.pool = new Pool(this.config.postgres);
-      const client = await this.pool.connect();
-      this.isPostgresConnected = true;
-      console.log('[NARRATIVE MIRROR] Connected to Postgres Narrative Storage');
-      client.release();
-    } catch (e) {
-      console.warn('[NARRATIVE MIRROR] Postgres connection failed, falling back to memory:', e);
-      this.isPostgresConnected = false;
-    }
+    this.pool = this.createPool();
+    await this.health.check();
+  }
+
+  private createPool(): Pool {
+    const pool = new Pool(this.config.postgres);
+    // A dropped idle connection surfaces here instead of crashing the process
+    pool.on('error', error => this.health.markDown(error));
+    return pool;
   }
 
-  private initializeObservedBalances(): void {
-    // These are OBSERVED values, not authoritative
-    this.observedBalances.set(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, 5000000000n);
-    this.observedBalances.set(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN, 2500000000n);
-    this.observedBalances.set(NARRATIVE_ACCOUNTS.OBSERVED_ANCHOR_GROCERY_OBLIGATION, 0n);
+  /**
+   * Liveness probe: SELECT 1, then check the narrative tables exist.
+   */
+  private async probe(): Promise<ProbeOutcome> {
+    if (!this.pool) throw new Error('Postgres pool not initialized');
+    await this.pool.query('SELECT 1');
+    const res = await this.pool.query(
+      'SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ANY($1)',
+      [REQUIRED_TABLES]
+    );
+    const present = new Set(res.rows.map((row: { table_name: string }) => row.table_name));
+    const missing = REQUIRED_TABLES.filter(table => !present.has(table));
+    const details = { database: this.config.postgres?.database, tables: REQUIRED_TABLES.filter(table => present.has(table)) };
+    return missing.length === 0
+      ? { details }
+      : { details, degraded: `Missing tables: ${missing.join(', ')} (run db/init.sql)` };
+  }
+
+  private async reconnect(): Promise<void> {
+    const stale = this.pool;
+    this.pool = this.createPool();
+    await stale?.end().catch(() => undefined);
   }
 
   private generateNarrativeId(): string {
@@ -321,7 +354,18 @@ export class NarrativeMirrorService implements INarrativeMirror {
   }
 
   async ping(): Promise<boolean> {
-    return true;
+    return (await this.checkHealth()).state === 'up';
+  }
+
+  /**
+   * Probe Postgres now. A failed probe keeps the mirror on memory storage and reconnects with backoff.
+   */
+  async checkHealth(): Promise<ComponentHealth> {
+    return this.health.check();
+  }
+
+  getHealth(): ComponentHealth {
+    return this.health.getHealth();
   }
 
   async getPendingObligationObservations(): Promise<Record<string, bigint>> {
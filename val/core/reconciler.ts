@@ -0,0 +1,199 @@
+// Balance Reconciler - Checks the Narrative Mirror against the clearing authority
+//
+// -----------------------------------------------------------------------------
+// SOVR CANON NOTICE
+// -----------------------------------------------------------------------------
+// TigerBeetle is the only source of balance truth. A mismatch is drift in the
+// mirror's observations; the reconciler reports it and never corrects either side.
+// Every registered account is checked against the chart account the mirror posts
+// it to: a reference account against its own, and member entitlement accounts
+// together against HONORING_ADAPTER_STABLECOIN.
+// -----------------------------------------------------------------------------
+
+import { CreditEventType } from '../events/types';
+import { EventLogger } from '../events/logger';
+import { IClearingService } from '../clearing/tigerbeetle/types';
+import { ReferenceAccountKey, asReferenceAccountKey } from '../clearing/tigerbeetle/accounts';
+import { RegisteredAccount } from '../clearing/tigerbeetle/registry';
+import { LEDGER_IDS, PRIMARY_CURRENCY } from '../clearing/tigerbeetle/ledgers';
+import { NARRATIVE_ACCOUNTS } from '../shared/narrative-mirror-bridge';
+import { NarrativeMirrorService } from './narrative-mirror-service';
+
+export const RECONCILIATION_INTERVAL_MS = 60_000;
+
+/** Chart account the mirror posts member entitlements to (SpendEngine deposits, spends and corrections) */
+export const MEMBER_ENTITLEMENT_CHART_KEY: ReferenceAccountKey = 'HONORING_ADAPTER_STABLECOIN';
+
+export interface AccountReconciliation {
+  key: ReferenceAccountKey;
+  chartNumber: number;
+  /** Registered TigerBeetle accounts the chart account observes */
+  accountIds: bigint[];
+  /** Posted debits - credits across those accounts; null when none exists in TigerBeetle */
+  clearing: bigint | null;
+  /** Debits - credits observed by the Narrative Mirror */
+  observed: bigint;
+  /** observed - clearing (a missing account counts as zero) */
+  drift: bigint;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  startedAt: Date;
+  completedAt: Date;
+  status: 'verified' | 'drift' | 'failed';
+  ledger: number;
+  accounts: AccountReconciliation[];
+  drifted: AccountReconciliation[];
+  /** Sum of |drift| across all accounts */
+  totalDrift: bigint;
+  error?: string;
+}
+
+/**
+ * Chart account the mirror posts a registered account's movements to, if it posts them at all
+ */
+export function observingChartKey(account: RegisteredAccount): ReferenceAccountKey | undefined {
+  if (account.kind === 'reference') return asReferenceAccountKey(account.owner);
+  return account.accountClass === 'entitlement' ? MEMBER_ENTITLEMENT_CHART_KEY : undefined;
+}
+
+export class BalanceReconciler {
+  private latest: ReconciliationReport | null = null;
+  // Last report a finding was logged for; runs that find the same are not logged again
+  private lastLogged: ReconciliationReport | null = null;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running: Promise<ReconciliationReport> | null = null;
+
+  constructor(
+    private clearing: IClearingService,
+    private mirror: Pick<NarrativeMirrorService, 'getObservedAccountBalances'>,
+    private eventLogger: EventLogger,
+    private intervalMs: number = RECONCILIATION_INTERVAL_MS
+  ) {}
+
+  /**
+   * Reconcile every chart account now. Concurrent callers share one run.
+   * A finding is logged when the status changes or the drift differs from the last one logged.
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Reconcile on a fixed interval until stop() is called.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.reconcile().catch(error => console.error('[Reconciler] Run failed:', error));
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  getLatestReport(): ReconciliationReport | null {
+    return this.latest;
+  }
+
+  private async run(): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    const ledger = LEDGER_IDS[PRIMARY_CURRENCY]; // The mirror observes the primary ledger only
+    const id = `recon_${startedAt.getTime()}`;
+
+    const report: ReconciliationReport = {
+      id,
+      startedAt,
+      completedAt: startedAt,
+      status: 'verified',
+      ledger,
+      accounts: [],
+      drifted: [],
+      totalDrift: 0n,
+    };
+
+    try {
+      const keys = Object.keys(NARRATIVE_ACCOUNTS) as ReferenceAccountKey[];
+      const observed = await this.mirror.getObservedAccountBalances(keys.map(key => NARRATIVE_ACCOUNTS[key]));
+      const observing = new Map<ReferenceAccountKey, bigint[]>(keys.map(key => [key, []]));
+      for (const account of this.clearing.getRegistry().list({ ledger })) {
+        const key = observingChartKey(account);
+        if (key) observing.get(key)!.push(account.accountId);
+      }
+
+      for (const key of keys) {
+        const accountIds = observing.get(key)!;
+        let clearing: bigint | null = null;
+        for (const accountId of accountIds) {
+          const balance = await this.clearing.getLedgerBalance(accountId);
+          // getLedgerBalance is credit-normal; the mirror is debit-normal
+          if (balance) clearing = (clearing ?? 0n) - balance.posted;
+        }
+        const observedBalance = observed[NARRATIVE_ACCOUNTS[key]] || 0n;
+        const drift = observedBalance - (clearing ?? 0n);
+
+        const account: AccountReconciliation = {
+          key,
+          chartNumber: NARRATIVE_ACCOUNTS[key],
+          accountIds,
+          clearing,
+          observed: observedBalance,
+          drift,
+        };
+        report.accounts.push(account);
+        if (drift !== 0n) {
+          report.drifted.push(account);
+          report.totalDrift += drift < 0n ? -drift : drift;
+        }
+      }
+      report.status = report.drifted.length === 0 ? 'verified' : 'drift';
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Reconciler] Reconciliation failed:', error);
+    }
+    report.completedAt = new Date();
+    this.latest = report;
+
+    if (report.status !== 'failed' && this.isNewFinding(report)) {
+      this.lastLogged = report;
+      await this.eventLogger.log({
+        id,
+        type: report.status === 'verified' ? CreditEventType.INTEGRITY_VERIFIED : CreditEventType.BALANCE_DRIFT_DETECTED,
+        userId: 'system:reconciler',
+        amount: report.totalDrift,
+        timestamp: report.completedAt,
+        metadata: {
+          ledger,
+          accountsChecked: report.accounts.length,
+          driftedAccounts: report.drifted.length,
+          drift: report.drifted.map(a => ({
+            key: a.key,
+            clearing: a.clearing?.toString() ?? null,
+            observed: a.observed.toString(),
+            drift: a.drift.toString(),
+          })),
+        },
+      });
+    }
+
+    console.log(`[Reconciler] ${report.status.toUpperCase()}: ${report.drifted.length}/${report.accounts.length} accounts drifted`);
+    return report;
+  }
+
+  private isNewFinding(report: ReconciliationReport): boolean {
+    const last = this.lastLogged;
+    if (!last || last.status !== report.status) return true;
+    const drift = (r: ReconciliationReport) => r.drifted.map(a => `${a.key}:${a.drift}`).join(',');
+    return drift(last) !== drift(report);
+  }
+}
@@ -11,23 +11,79 @@
 
 import { ethers } from 'ethers';
 import { AttestationEngine } from './attestation';
-import { CreditEvent, CreditEventType, SpendParams, SpendResult, CreditBalance, Attestation } from '../events/types';
+import { CreditEvent, CreditEventType, SpendParams, SpendResult, CreditBalance, Attestation, MerchantType } from '../events/types';
 import { IMerchantValueAdapter, MerchantAdapterError } from '../merchant_triggers/adapter_interface';
 import { EventLogger } from '../events/logger';
+import { CorrectionError, CorrectionService, CorrectionStore } from './corrections';
 import { 
   getNarrativeMirror, 
   NarrativeMirrorService 
 } from './narrative-mirror-service';
-import { getTigerBeetle, TigerBeetleService } from '../clearing/tigerbeetle/client';
-import { NARRATIVE_ACCOUNTS } from '../shared/narrative-mirror-bridge';
+import { getTigerBeetle } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS, SUPPORTED_CURRENCIES, resolveCurrency } from '../clearing/tigerbeetle/ledgers';
+import { ExchangeQuote, ExchangeRateTable, exchangeLegs } from '../clearing/tigerbeetle/exchange';
+import { ANCHOR_TYPE_CODES, TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { VELOCITY_WINDOWS, VelocityAllowance, VelocityWindow } from '../clearing/tigerbeetle/velocity';
+import { AnchorType, NARRATIVE_ACCOUNTS } from '../shared/narrative-mirror-bridge';
+import {
+  ClearingResult,
+  ClearingRejectionReason,
+  CLEARING_REJECTION_MESSAGES,
+  IClearingService,
+  LinkedTransferResult,
+  TransferDetails,
+  TransferLeg,
+} from '../clearing/tigerbeetle/types';
 
-export class InsufficientCreditError extends Error {
-  constructor(message: string = 'Insufficient credit') {
+// Merchants whose honoring fulfills an anchor obligation
+const MERCHANT_ANCHOR_TYPES: Partial<Record<MerchantType, AnchorType>> = {
+  instacart: 'GROCERY',
+};
+
+export type SpendRejectionReason = ClearingRejectionReason | 'replay' | 'velocity_limit_exceeded';
+
+export class ClearingRejectedError extends Error {
+  /** Leg of a linked chain that broke it, when the rejection came from one */
+  failedLeg?: number;
+
+  constructor(
+    public reason: SpendRejectionReason,
+    public detail: string,
+    message: string = reason === 'replay'
+      ? 'Clearing failed: Transfer already cleared (Replay)'
+      : `Clearing failed: ${CLEARING_REJECTION_MESSAGES[reason as ClearingRejectionReason]} (${detail})`
+  ) {
     super(message);
+    this.name = 'ClearingRejectedError';
+  }
+}
+
+export class InsufficientCreditError extends ClearingRejectedError {
+  constructor(message: string = 'Insufficient credit', detail: string = 'exceeds_credits') {
+    super('insufficient_funds', detail, message);
     this.name = 'InsufficientCreditError';
   }
 }
 
+export class AccountClosedError extends ClearingRejectedError {
+  constructor(public userId: string, public status: 'frozen' | 'closed') {
+    super('account_closed', `account_${status}`, `Account for ${userId} is ${status}; spends are rejected`);
+    this.name = 'AccountClosedError';
+  }
+}
+
+export class VelocityLimitExceededError extends ClearingRejectedError {
+  constructor(public window: VelocityWindow, public allowance: VelocityAllowance) {
+    super(
+      'velocity_limit_exceeded',
+      `velocity_${window}`,
+      `Clearing rejected by ledger: ${window} spend limit reached (${allowance.remaining} of ${allowance.limit} remaining)`
+    );
+    this.name = 'VelocityLimitExceededError';
+  }
+}
+
 export class InvalidAttestationError extends Error {
   constructor(message: string = 'Attestation verification failed') {
     super(message);
@@ -35,26 +91,44 @@ export class InvalidAttestationError extends Error {
   }
 }
 
+export class HonoringTimeoutError extends Error {
+  constructor(message: string = 'Honoring adapter did not respond before the reservation deadline') {
+    super(message);
+    this.name = 'HonoringTimeoutError';
+  }
+}
+
 export class SpendEngine {
   private attestationEngine: AttestationEngine;
   private eventLogger: EventLogger;
   private adapters: Map<string, IMerchantValueAdapter>;
   private narrativeMirror: NarrativeMirrorService;
-  private tigerBeetle: TigerBeetleService;
+  private tigerBeetle: IClearingService;
+  private exchangeRates: ExchangeRateTable;
+  private corrections: CorrectionService;
   
-  // User balance cache (keyed by userId)
+  // User balance cache (keyed by currency and userId)
   private userBalanceCache: Map<string, { balance: CreditBalance; timestamp: number }>;
   private readonly CACHE_TTL_MS = 5000; // 5 seconds cache
   
+  // Two-phase clearing windows
+  private readonly RESERVATION_TIMEOUT_SECONDS = 120; // TigerBeetle expires the hold after this
+  private readonly HONORING_TIMEOUT_MS = 60_000;      // Leaves headroom to post before expiry
+  
   constructor(
     attestationEngine: AttestationEngine,
-    eventLogger: EventLogger
+    eventLogger: EventLogger,
+    clearing?: IClearingService,
+    exchangeRates?: ExchangeRateTable,
+    correctionStore?: CorrectionStore
   ) {
     this.attestationEngine = attestationEngine;
     this.eventLogger = eventLogger;
     this.adapters = new Map();
     this.narrativeMirror = getNarrativeMirror();
-    this.tigerBeetle = getTigerBeetle();
+    this.tigerBeetle = clearing || getTigerBeetle();
+    this.exchangeRates = exchangeRates || new ExchangeRateTable();
+    this.corrections = new CorrectionService(this.tigerBeetle, this.eventLogger, correctionStore);
     this.userBalanceCache = new Map();
   }
   
@@ -79,6 +153,14 @@ export class SpendEngine {
     
     const requestedAmount = BigInt(Math.floor(params.amount * 1_000_000)); // Micro-units (10^6)
 
+    // Honoring happens in the spend currency; the user's account in the funding currency pays.
+    const currency = resolveCurrency(params.currency);
+    const fundingCurrency = resolveCurrency(params.fundingCurrency || currency);
+    const exchange: ExchangeQuote | undefined = fundingCurrency !== currency
+      ? this.exchangeRates.quoteForDestination(fundingCurrency, currency, requestedAmount)
+      : undefined;
+    const anchorType = params.anchorType ?? MERCHANT_ANCHOR_TYPES[params.merchant];
+
     // 1. Generate and validate attestation
     const event: CreditEvent = {
       id: this.generateEventId(),
@@ -88,72 +170,117 @@ export class SpendEngine {
       timestamp: new Date(),
       metadata: {
         merchant: params.merchant,
+        currency,
+        fundingCurrency,
+        ...(anchorType && { anchorType }),
+        ...(exchange && {
+          exchangeRate: exchange.rate,
+          fundingAmount: exchange.sourceAmount.toString(),
+        }),
         ...params.metadata
       }
     };
     
     console.log(`[SpendEngine] Generating attestation for event ${event.id}`);
     const attestation = await this.attestationEngine.attest(event);
-    const isValid = await this.attestationEngine.verify(attestation, event);
-    if (!isValid) {
-      throw new InvalidAttestationError();
+    await this.requireQuorum(attestation, event);
+    
+    // 2. Resolve merchant adapter before reserving funds
+    const adapter = this.adapters.get(params.merchant);
+    if (!adapter || !adapter.enabled) {
+      throw new Error(`Merchant adapter not found or disabled: ${params.merchant}`);
     }
     
-    // 2. Execute Clearing via TigerBeetle [AUTHORITY STEP]
-    console.log(`[SpendEngine] Attempting to clear ${requestedAmount} units via TigerBeetle`);
-    const transferId = this.eventIdToBigInt(event.id);
-    const debitAccount = NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN; // User's virtual entitlements
-    const creditAccount = NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI;   // Merchant realization account
-
-    const clearingSuccess = await this.tigerBeetle.createTransfer(
-      BigInt(debitAccount),
-      BigInt(creditAccount),
-      requestedAmount,
-      1,
-      transferId // Idempotency Key
+    // 3. Reserve funds via TigerBeetle pending transfer [AUTHORITY STEP]
+    // Cross-currency spends reserve two linked legs (user -> liquidity, liquidity -> merchant)
+    console.log(`[SpendEngine] Attempting to reserve ${requestedAmount} ${currency} units via TigerBeetle`);
+    const legKeys = exchange ? [event.id, `${event.id}:fx`] : [event.id];
+    const pendingIds = legKeys.map(key => this.eventIdToBigInt(key));
+    const transferId = pendingIds[0]; // Idempotency Key
+
+    // Frozen and closed members are turned away before anything is reserved, whichever ledger funds the spend
+    await this.requireActiveMember(event, attestation);
+
+    const debitAccount = await this.tigerBeetle.ensureUserAccount(params.userId, LEDGER_IDS[fundingCurrency]); // User's own entitlement account
+    const creditAccount = referenceAccountId('HONORING_ADAPTER_ODFI', LEDGER_IDS[currency]); // Merchant realization account
+    const details = this.transferDetails(event, anchorType ? TRANSFER_CODES.ANCHOR_AUTHORIZATION : TRANSFER_CODES.PAYMENT);
+
+    const legs: TransferLeg[] = exchange
+      ? exchangeLegs({
+          ids: [pendingIds[0], pendingIds[1]],
+          debitAccount,
+          creditAccount,
+          sourceLedger: LEDGER_IDS[fundingCurrency],
+          destinationLedger: LEDGER_IDS[currency],
+          sourceAmount: exchange.sourceAmount,
+          destinationAmount: exchange.destinationAmount,
+          timeoutSeconds: this.RESERVATION_TIMEOUT_SECONDS,
+          details,
+        })
+      : [{
+          id: transferId,
+          debitAccount,
+          creditAccount,
+          amount: requestedAmount,
+          ledger: LEDGER_IDS[currency],
+          details,
+          pendingTimeoutSeconds: this.RESERVATION_TIMEOUT_SECONDS,
+        }];
+    // Daily and weekly caps ride in the same chain, so a spend over either cap is never reserved
+    const limitLegs = await this.tigerBeetle.velocityLegs(
+      params.userId,
+      LEDGER_IDS[fundingCurrency],
+      exchange ? exchange.sourceAmount : requestedAmount,
+      details
     );
+    const reservation = await this.tigerBeetle.createLinkedTransfers([...legs, ...limitLegs]);
+    const limitIds = reservation.transferIds.slice(legs.length);
 
-    if (!clearingSuccess) {
+    if (!reservation.ok) {
       // This is a critical failure. It means the ledger rejected the transaction.
       // This is the SOLE authority on whether the spend can proceed.
-      // Rejection is likely due to insufficient funds or a replayed event.
+      const error = await this.rejectionOrVelocityError(reservation, legs.length, params.userId, LEDGER_IDS[fundingCurrency]);
       await this.eventLogger.log({
         ...event,
         type: CreditEventType.SPEND_REJECTED_BY_LEDGER,
         attestation,
+        metadata: {
+          ...event.metadata,
+          reason: error.reason,
+          detail: error.detail,
+          failedLeg: reservation.failedLeg,
+          failedTransferId: reservation.transferId.toString(),
+        }
       });
-      throw new InsufficientCreditError('Clearing rejected by ledger; likely insufficient funds.');
+      throw error;
     }
-    console.log(`[SpendEngine] CLEARING FINALIZED. Event ${event.id} is now mechanically true.`);
+    this.invalidateBalances(params.userId);
+    console.log(`[SpendEngine] RESERVATION HELD. Event ${event.id} awaits honoring.`);
 
-    // 3. Log Clearing Event (for Narrative Mirror)
     await this.eventLogger.log({
       ...event,
-      type: CreditEventType.SPEND_EXECUTED, // This now means "cleared"
+      type: CreditEventType.SPEND_RESERVED,
       attestation,
       metadata: {
         ...event.metadata,
         transferId: transferId.toString(),
+        pendingTransferIds: pendingIds.map(id => id.toString()),
+        velocityTransferIds: limitIds.map(id => id.toString()),
+        timeoutSeconds: this.RESERVATION_TIMEOUT_SECONDS,
       }
     });
     
-    // 4. Get merchant adapter
-    const adapter = this.adapters.get(params.merchant);
-    if (!adapter || !adapter.enabled) {
-      throw new Error(`Merchant adapter not found or disabled: ${params.merchant}`);
-    }
-    
-    // 5. Call merchant adapter for HONORING [POST-CLEARING]
-    console.log(`[SpendEngine] Calling ${params.merchant} adapter for post-clearing honoring`);
+    // 4. Call merchant adapter for HONORING [WHILE FUNDS ARE HELD]
+    console.log(`[SpendEngine] Calling ${params.merchant} adapter for honoring`);
     let valueResponse;
     try {
-      valueResponse = await adapter.issueValue({
+      valueResponse = await this.withHonoringTimeout(adapter.issueValue({
         userId: params.userId,
         amount: params.amount,
-        currency: 'USD',
+        currency,
         attestation,
         metadata: params.metadata
-      });
+      }));
 
       if (!valueResponse.success) {
         throw new MerchantAdapterError(
@@ -163,21 +290,91 @@ export class SpendEngine {
         );
       }
     } catch (error) {
-      // If honoring fails, we DO NOT roll back the clearing.
-      // Instead, we log a new event indicating a failed honoring.
-      // This creates a NEW obligation for the system to handle.
+      // Honoring failed before the reservation was posted, so nothing cleared.
+      // The hold is released by a NEW void transfer (the pending transfer itself is immutable).
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       await this.eventLogger.log({
         ...event,
         type: CreditEventType.HONORING_FAILED,
         metadata: {
           ...event.metadata,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          error: errorMessage
         }
       });
-      // We still throw, but the ledger truth remains.
+
+      const voidResult = await this.tigerBeetle.voidPendingTransfers(
+        pendingIds,
+        legKeys.map(key => this.eventIdToBigInt(`${key}:void`))
+      );
+      // Nothing was spent, so the allowance comes back too (voided on its own: it outlives the hold)
+      await this.tigerBeetle.voidPendingTransfers(
+        limitIds,
+        VELOCITY_WINDOWS.map(window => this.eventIdToBigInt(`${event.id}:velocity:${window}:void`))
+      );
+      // TigerBeetle may have expired the hold before the void arrived
+      const expired = !voidResult.ok && voidResult.reason === 'pending_transfer_expired';
+      if (!voidResult.ok && !expired) {
+        // The hold may have cleared before honoring failed (posted, or a void that never arrived)
+        await this.correctWhatCleared(event.id, params.userId, fundingCurrency, `Honoring failed after clearing: ${errorMessage}`);
+      }
+      await this.eventLogger.log({
+        ...event,
+        type: expired || error instanceof HonoringTimeoutError
+          ? CreditEventType.SPEND_EXPIRED
+          : CreditEventType.SPEND_VOIDED,
+        metadata: {
+          ...event.metadata,
+          transferId: transferId.toString(),
+          voidResult: voidResult.reason,
+          error: errorMessage
+        }
+      });
+      this.invalidateBalances(params.userId);
       throw error;
     }
     
+    // 5. Post the reservation [CLEARING FINALIZED]
+    const postResult = await this.tigerBeetle.postPendingTransfers(
+      pendingIds,
+      legKeys.map(key => this.eventIdToBigInt(`${key}:post`))
+    );
+    this.invalidateBalances(params.userId);
+
+    if (!postResult.ok) {
+      // Value was issued but the hold could not be posted (e.g. it expired).
+      // This is a new obligation for the system to resolve, not a rollback.
+      await this.eventLogger.log({
+        ...event,
+        type: CreditEventType.SPEND_FAILED,
+        metadata: {
+          ...event.metadata,
+          transferId: transferId.toString(),
+          transactionId: valueResponse.transactionId,
+          reason: postResult.reason,
+          error: 'Reservation could not be posted after honoring'
+        }
+      });
+      // A post whose answer was lost may still have cleared, while the member is told the spend failed
+      await this.correctWhatCleared(event.id, params.userId, fundingCurrency, `Spend failed after clearing: post answered ${postResult.reason}`);
+      const reason = postResult.reason as ClearingRejectionReason;
+      throw new ClearingRejectedError(
+        reason,
+        postResult.detail,
+        `Clearing post failed for honored event ${event.id}: ${CLEARING_REJECTION_MESSAGES[reason]}`
+      );
+    }
+    console.log(`[SpendEngine] CLEARING FINALIZED. Event ${event.id} is now mechanically true.`);
+
+    await this.eventLogger.log({
+      ...event,
+      type: CreditEventType.SPEND_EXECUTED, // This now means "cleared"
+      attestation,
+      metadata: {
+        ...event.metadata,
+        transferId: transferId.toString(),
+      }
+    });
+    
     // 6. Log Realization (for Narrative Mirror)
     await this.eventLogger.log({
       ...event,
@@ -202,40 +399,35 @@ export class SpendEngine {
   }
   
   /**
-   * Get user credit balance from Narrative Mirror
-   * 
-   * The user's balance is calculated from the Cash-Vault-USDC account
-   * balance in Narrative Mirror, partitioned by user ID.
+   * Get user credit balance from TigerBeetle
    * 
-   * For now, we use a simplified model where each user has a virtual
-   * sub-account within the main vault. In production, this would be
-   * tracked separately.
+   * Each user has their own entitlement account per currency. Funds held by pending
+   * transfers are reported as pending and excluded from the available amount.
    */
-  async getCreditBalance(userId: string): Promise<CreditBalance> {
+  async getCreditBalance(userId: string, currency?: string): Promise<CreditBalance> {
+    const resolved = resolveCurrency(currency);
+    const cacheKey = `${resolved}:${userId}`;
+
     // Check cache first
-    const cached = this.userBalanceCache.get(userId);
+    const cached = this.userBalanceCache.get(cacheKey);
     if (cached && (Date.now() - cached.timestamp) < this.CACHE_TTL_MS) {
       return cached.balance;
     }
     
-    // Query Narrative Mirror for observed vault balance
-    // In a full implementation, we'd track per-user balances in a separate table
-    const vaultBalance = await this.narrativeMirror.getObservedAccountBalance(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN);
-    
-    // For now, mock per-user balance as a portion of vault
-    // Max $1000 per user in micro-units
-    const MAX_USER_BALANCE = 1000n * 1_000_000n;
+    // Clearing authority is the only source of balance truth
+    const ledgerBalance = await this.tigerBeetle.getUserBalance(userId, LEDGER_IDS[resolved]);
     
     const userBalance: CreditBalance = {
       userId,
-      available: vaultBalance < MAX_USER_BALANCE ? vaultBalance : MAX_USER_BALANCE,
-      pending: 0n,
-      total: vaultBalance < MAX_USER_BALANCE ? vaultBalance : MAX_USER_BALANCE,
+      currency: resolved,
+      available: ledgerBalance.posted - ledgerBalance.pending,
+      pending: ledgerBalance.pending,
+      total: ledgerBalance.posted,
       lastUpdated: new Date()
     };
     
     // Cache the result
-    this.userBalanceCache.set(userId, {
+    this.userBalanceCache.set(cacheKey, {
       balance: userBalance,
       timestamp: Date.now()
     });
@@ -250,7 +442,7 @@ export class SpendEngine {
    */
   async updateCreditBalance(userId: string, delta: bigint): Promise<CreditBalance> {
     // Invalidate cache for this user
-    this.userBalanceCache.delete(userId);
+    this.invalidateBalances(userId);
     
     // The balance update is already recorded via the SPEND_EXECUTED event
     // in the EventLogger, which creates the narrative entry.
@@ -261,6 +453,7 @@ export class SpendEngine {
     
     const newBalance: CreditBalance = {
       userId,
+      currency: current.currency,
       available: newAvailable > 0n ? newAvailable : 0n,
       pending: current.pending,
       total: (newAvailable > 0n ? newAvailable : 0n) + current.pending,
@@ -268,7 +461,7 @@ export class SpendEngine {
     };
     
     // Update cache
-    this.userBalanceCache.set(userId, {
+    this.userBalanceCache.set(`${current.currency}:${userId}`, {
       balance: newBalance,
       timestamp: Date.now()
     });
@@ -276,6 +469,12 @@ export class SpendEngine {
     return newBalance;
   }
   
+  private invalidateBalances(userId: string): void {
+    for (const currency of SUPPORTED_CURRENCIES) {
+      this.userBalanceCache.delete(`${currency}:${userId}`);
+    }
+  }
+  
   /**
    * Get pending anchor obligation observations from Narrative Mirror
    */
@@ -290,6 +489,49 @@ export class SpendEngine {
     return this.narrativeMirror.getObservedAccountBalance(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN);
   }
   
+  /**
+   * Bound honoring so a slow adapter cannot outlive the ledger reservation
+   */
+  private async withHonoringTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new HonoringTimeoutError()), this.HONORING_TIMEOUT_MS);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  /**
+   * File a correction, pending trustee approval, for whatever a failed spend cleared from the member.
+   * A hold that was voided or expired cleared nothing, and nothing is filed.
+   */
+  private async correctWhatCleared(eventId: string, userId: string, currency: string, reason: string): Promise<void> {
+    try {
+      await this.corrections.request({ eventId, userId, currency, reason, requestedBy: 'system:spend-engine' });
+    } catch (error) {
+      if (error instanceof CorrectionError) return;
+      console.error(`[SpendEngine] Could not check event ${eventId} for a correction:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Accept an attestation only when its proof holds and enough configured attestors signed it
+   */
+  private async requireQuorum(attestation: Attestation, event: CreditEvent): Promise<void> {
+    const quorum = await this.attestationEngine.verifyQuorum(attestation, event);
+    if (!quorum.proofValid) {
+      throw new InvalidAttestationError('Invalid attestation signature or proof');
+    }
+    if (!quorum.valid) {
+      throw new InvalidAttestationError(
+        `Attestation quorum not met: ${quorum.signed.length} of ${quorum.threshold} required signatures (missing ${quorum.missing.join(', ')})`
+      );
+    }
+  }
+
   /**
    * Generate unique event ID
    */
@@ -305,45 +547,68 @@ export class SpendEngine {
   async finalize(event: CreditEvent, attestation: Attestation): Promise<SpendResult> {
     console.log(`[SpendEngine] Finalizing event ${event.id}`);
     
-    // 1. Verify Attestation (Cryptographic Integrity)
-    const isValid = await this.attestationEngine.verify(attestation, event);
-    if (!isValid) {
-      throw new InvalidAttestationError('Invalid attestation signature or proof');
-    }
+    // 1. Verify Attestation (Cryptographic Integrity + attestor quorum)
+    await this.requireQuorum(attestation, event);
 
     // 2. Derive Deterministic Transfer ID (Mechanical Truth)
     // We hash the event ID to a 128-bit integer for TigerBeetle
     const transferId = this.eventIdToBigInt(event.id);
     
     // 3. Execute Clearing (TigerBeetle Authority)
-    // We use the "Honoring Adapter" account logic
-    // Debit: User (Vault) -> Credit: Adapter (Settlement)
-    // For this implementation, we use reference accounts:
-    const debitAccount = NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN; // User Entitlements
-    const creditAccount = NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI;       // Merchant/Adapter
+    // Debit: User (Entitlement) -> Credit: Adapter (Settlement)
+    // Same-currency only: the event amount is cleared on its own currency ledger
+    // Frozen and closed members and the velocity caps bind here exactly as in spendCredit
+    await this.requireActiveMember(event, attestation);
+    const ledger = LEDGER_IDS[resolveCurrency(event.metadata?.currency)];
+    const debitAccount = await this.tigerBeetle.ensureUserAccount(event.userId, ledger);
+    const creditAccount = referenceAccountId('HONORING_ADAPTER_ODFI', ledger); // Merchant/Adapter
     
-    // We need usage of TigerBeetleService. 
-    // Since SpendEngine didn't have it, we lazily get it or add it to constructor.
-    // For now, we'll use lazy import pattern or singleton if available.
-    // Assuming we can import getTigerBeetle.
-    const tigerBeetleService = await import('../clearing/tigerbeetle/client');
-    const tigerBeetle = tigerBeetleService.getTigerBeetle();
-    
-    const success = await tigerBeetle.createTransfer(
-      BigInt(debitAccount),
-      BigInt(creditAccount),
-      event.amount,
-      1,
-      transferId // Deterministic ID prevents replay
-    );
+    const anchorType: AnchorType | undefined = event.metadata?.anchorType;
+    const details = this.transferDetails(event, anchorType ? TRANSFER_CODES.ANCHOR_FULFILLMENT : TRANSFER_CODES.PAYMENT);
+    const spendLeg: TransferLeg = {
+      id: transferId, // Deterministic ID prevents replay
+      debitAccount,
+      creditAccount,
+      amount: event.amount,
+      ledger,
+      details,
+    };
+    const limitLegs = await this.tigerBeetle.velocityLegs(event.userId, ledger, event.amount, details);
+    const clearing = await this.tigerBeetle.createLinkedTransfers([spendLeg, ...limitLegs]);
     
-    if (!success) {
-      // If TB fails, it's likely a replay or balance issue.
-      // We explicitly reject to enforce "One Attestation -> One Clearing".
-      throw new Error('Clearing failed: Transfer rejected (Potential Replay)');
+    if (!clearing.ok) {
+      const error = await this.rejectionOrVelocityError(clearing, 1, event.userId, ledger);
+      await this.eventLogger.log({
+        ...event,
+        type: CreditEventType.SPEND_REJECTED_BY_LEDGER,
+        attestation,
+        metadata: {
+          ...event.metadata,
+          reason: error.reason,
+          detail: error.detail,
+          failedLeg: clearing.failedLeg,
+          failedTransferId: clearing.transferId.toString(),
+        }
+      });
+      throw error;
+    }
+    if (clearing.reason === 'exists') {
+      // The same obligation already cleared. We explicitly reject to enforce "One Attestation -> One Clearing".
+      throw new ClearingRejectedError('replay', 'exists');
     }
+    this.invalidateBalances(event.userId);
     
-    // 4. Record Narrative Observation (Observer)
+    // 4. Record Narrative Observation (Observer): the clearing, then the realization
+    await this.eventLogger.log({
+      ...event,
+      type: CreditEventType.SPEND_EXECUTED,
+      attestation,
+      metadata: {
+        ...event.metadata,
+        transferId: transferId.toString(),
+        velocityTransferIds: clearing.transferIds.slice(1).map(id => id.toString()),
+      }
+    });
     await this.eventLogger.log({
       ...event,
       type: CreditEventType.SPEND_FINALIZED,
@@ -363,6 +628,113 @@ export class SpendEngine {
     };
   }
 
+  /**
+   * Deposit credit into a user's entitlement account.
+   * Issuance debits OBSERVED_TOKEN_REALIZATION on the currency ledger; the deposit event id is the transfer id.
+   */
+  async depositCredit(userId: string, amount: number, currency?: string): Promise<CreditBalance> {
+    if (amount <= 0) {
+      throw new Error(`Invalid deposit amount: ${amount}. Must be positive.`);
+    }
+
+    const resolved = resolveCurrency(currency);
+    const ledger = LEDGER_IDS[resolved];
+    const event: CreditEvent = {
+      id: this.generateEventId(),
+      type: CreditEventType.CREDIT_DEPOSITED,
+      userId,
+      amount: BigInt(Math.floor(amount * 1_000_000)),
+      timestamp: new Date(),
+      metadata: { currency: resolved },
+    };
+
+    const clearing = await this.tigerBeetle.createTransfer(
+      referenceAccountId('OBSERVED_TOKEN_REALIZATION', ledger),
+      await this.tigerBeetle.ensureUserAccount(userId, ledger),
+      event.amount,
+      ledger,
+      this.transferDetails(event, TRANSFER_CODES.DEPOSIT),
+      this.eventIdToBigInt(event.id)
+    );
+    if (!clearing.ok) {
+      throw this.rejectionError(clearing);
+    }
+    this.invalidateBalances(userId);
+
+    await this.eventLogger.log({
+      ...event,
+      metadata: { ...event.metadata, transferId: clearing.transferId.toString() },
+    });
+    return this.getCreditBalance(userId, resolved);
+  }
+
+  // Link a transfer back to its event: user_data_128 = event id, user_data_64 = anchor type
+  private transferDetails(event: CreditEvent, code: TransferDetails['code']): TransferDetails {
+    const anchorType: AnchorType | undefined = event.metadata?.anchorType;
+    return {
+      code,
+      eventRef: this.eventIdToBigInt(event.id),
+      anchorType: anchorType ? ANCHOR_TYPE_CODES[anchorType] : 0,
+    };
+  }
+
+  // Translate a ledger rejection into the error surfaced to API clients
+  private rejectionError(result: ClearingResult | LinkedTransferResult): ClearingRejectedError {
+    const error = result.reason === 'insufficient_funds'
+      ? new InsufficientCreditError('Clearing rejected by ledger: insufficient funds', result.detail)
+      : new ClearingRejectedError(result.reason as ClearingRejectionReason, result.detail);
+    error.failedLeg = (result as LinkedTransferResult).failedLeg;
+    return error;
+  }
+
+  /**
+   * A chain broken by a limit leg (appended after the spend legs) for lack of allowance is a
+   * velocity rejection; anything else is an ordinary ledger rejection.
+   */
+  // Log and refuse a spend by a member whose accounts are frozen or closed on any ledger
+  private async requireActiveMember(event: CreditEvent, attestation: Attestation): Promise<void> {
+    const memberStatus = this.tigerBeetle.memberStatus(event.userId);
+    if (memberStatus === 'active') return;
+
+    await this.eventLogger.log({
+      ...event,
+      type: CreditEventType.SPEND_REJECTED_BY_LEDGER,
+      attestation,
+      metadata: { ...event.metadata, reason: 'account_closed', detail: `account_${memberStatus}` }
+    });
+    throw new AccountClosedError(event.userId, memberStatus);
+  }
+
+  private async rejectionOrVelocityError(
+    result: LinkedTransferResult,
+    spendLegs: number,
+    userId: string,
+    ledger: number
+  ): Promise<ClearingRejectedError> {
+    if (result.failedLeg === undefined || result.failedLeg < spendLegs || result.reason !== 'insufficient_funds') {
+      return this.rejectionError(result);
+    }
+    const window = VELOCITY_WINDOWS[result.failedLeg - spendLegs];
+    const allowance = (await this.tigerBeetle.getVelocityAllowance(userId, ledger)).find(a => a.window === window)!;
+    const error = new VelocityLimitExceededError(window, allowance);
+    error.failedLeg = result.failedLeg;
+    return error;
+  }
+
+  /**
+   * Compensating transfers for spends that cleared but were not honored
+   */
+  getCorrectionService(): CorrectionService {
+    return this.corrections;
+  }
+
+  /**
+   * Remaining daily and weekly allowance of a member in the funding currency.
+   */
+  async getVelocityAllowance(userId: string, currency?: string): Promise<VelocityAllowance[]> {
+    return this.tigerBeetle.getVelocityAllowance(userId, LEDGER_IDS[resolveCurrency(currency)]);
+  }
+
   // Helper to convert string ID to BigInt for TB
   private eventIdToBigInt(id: string): bigint {
     // Use Keccak256 for cryptographic uniqueness [CANON LOCK]
@@ -27,14 +27,24 @@ const EVENT_TO_SOURCE: Record<CreditEventType, NarrativeSource> = {
   [CreditEventType.MERCHANT_VALUE_ISSUED]: 'HONORING_RESULT',
   [CreditEventType.GIFT_CARD_CREATED]: 'HONORING_RESULT',
   [CreditEventType.SPEND_AUTHORIZED]: 'HONORING_ATTEMPT',
+  [CreditEventType.SPEND_RESERVED]: 'CLEARING_OBSERVATION',
   [CreditEventType.SPEND_EXECUTED]: 'HONORING_RESULT',
   [CreditEventType.SPEND_FINALIZED]: 'HONORING_RESULT',
   [CreditEventType.SPEND_FAILED]: 'HONORING_RESULT',
   [CreditEventType.SPEND_REJECTED_BY_LEDGER]: 'CLEARING_OBSERVATION',
+  [CreditEventType.SPEND_VOIDED]: 'CLEARING_OBSERVATION',
+  [CreditEventType.SPEND_EXPIRED]: 'CLEARING_OBSERVATION',
+  [CreditEventType.SPEND_SETTLED]: 'HONORING_RESULT',
   [CreditEventType.HONORING_FAILED]: 'HONORING_RESULT',
+  [CreditEventType.CORRECTION_REQUESTED]: 'INTERSYSTEM',
+  [CreditEventType.CORRECTION_APPLIED]: 'CLEARING_OBSERVATION',
+  [CreditEventType.CORRECTION_REJECTED]: 'INTERSYSTEM',
+  [CreditEventType.CORRECTION_FAILED]: 'INTERSYSTEM',
   [CreditEventType.USER_REWARD_EARNED]: 'CLEARING_OBSERVATION',
   [CreditEventType.CASHBACK_ISSUED]: 'HONORING_RESULT',
+  [CreditEventType.INTEGRITY_VERIFIED]: 'INTERSYSTEM',
   [CreditEventType.BALANCE_RECONCILED]: 'INTERSYSTEM',
+  [CreditEventType.BALANCE_DRIFT_DETECTED]: 'INTERSYSTEM',
   [CreditEventType.AUDIT_LOG_CREATED]: 'CLEARING_OBSERVATION',
 };
 
@@ -72,13 +82,14 @@ export class EventLogger {
     
     switch (event.type) {
       case CreditEventType.CREDIT_DEPOSITED:
+        // Lines follow the clearing transfer; member entitlements are observed under HONORING_ADAPTER_STABLECOIN
         return {
           description: `Credit Deposit Observed for ${event.userId}: ${displayAmount} USD`,
           source,
           status: 'RECORDED',
           lines: [
-            { accountId: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN, type: 'DEBIT', amount },
-            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_TOKEN_REALIZATION, type: 'CREDIT', amount },
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_TOKEN_REALIZATION, type: 'DEBIT', amount },
+            { accountId: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN, type: 'CREDIT', amount },
           ],
           eventId: event.id,
           userId: event.userId
@@ -99,13 +110,41 @@ export class EventLogger {
           userId: event.userId
         };
         
+      case CreditEventType.SPEND_RESERVED:
+        // Pending transfer holds funds; nothing has moved yet
+        return {
+          description: `Clearing Reservation Observed for ${event.userId}: ${displayAmount} USD held for ${event.metadata?.merchant}`,
+          source,
+          status: 'OBSERVED',
+          lines: [
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'DEBIT', amount: 0n },
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'CREDIT', amount: 0n },
+          ],
+          eventId: event.id,
+          userId: event.userId
+        };
+
+      case CreditEventType.SPEND_VOIDED:
+      case CreditEventType.SPEND_EXPIRED:
+        return {
+          description: `Reservation ${event.type === CreditEventType.SPEND_VOIDED ? 'Void' : 'Expiry'} Observed for ${event.userId}: ${displayAmount} USD released - ${event.metadata?.error}`,
+          source,
+          status: 'RECORDED',
+          lines: [
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'DEBIT', amount: 0n },
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'CREDIT', amount: 0n },
+          ],
+          eventId: event.id,
+          userId: event.userId
+        };
+        
       case CreditEventType.SPEND_EXECUTED:
         return {
           description: `Fulfillment Observation for ${event.userId}: ${displayAmount} USD at ${event.metadata?.merchant}`,
           source,
           status: 'RECORDED',
           lines: [
-            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'DEBIT', amount },
+            { accountId: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN, type: 'DEBIT', amount },
             { accountId: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, type: 'CREDIT', amount },
           ],
           eventId: event.id,
@@ -138,6 +177,41 @@ export class EventLogger {
           userId: event.userId
         };
         
+      case CreditEventType.CORRECTION_REQUESTED:
+      case CreditEventType.CORRECTION_REJECTED:
+      case CreditEventType.CORRECTION_FAILED:
+        // Filed under the corrected event so its trail reads in order; no value moves
+        return {
+          description: event.type === CreditEventType.CORRECTION_REQUESTED
+            ? `Correction Requested for ${event.metadata?.correctsEventId}: ${displayAmount} USD back to ${event.userId} - ${event.metadata?.reason}`
+            : event.type === CreditEventType.CORRECTION_REJECTED
+              ? `Correction Rejected for ${event.metadata?.correctsEventId} by ${event.metadata?.decidedBy}`
+              : `Correction Failed for ${event.metadata?.correctsEventId}: ${event.metadata?.detail}${event.metadata?.retryable === 'true' ? ' (awaiting retry)' : ''}`,
+          source,
+          status: event.type === CreditEventType.CORRECTION_REQUESTED ? 'OBSERVED'
+            : event.type === CreditEventType.CORRECTION_REJECTED ? 'IGNORED' : 'FAILED',
+          lines: [
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'DEBIT', amount: 0n },
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'CREDIT', amount: 0n },
+          ],
+          eventId: event.metadata?.correctsEventId,
+          userId: event.userId
+        };
+
+      case CreditEventType.CORRECTION_APPLIED:
+        // A new entry reversing the fulfillment observation; the original entry is left as it was
+        return {
+          description: `Correction Observed for ${event.metadata?.correctsEventId}: ${displayAmount} USD returned to ${event.userId}, approved by ${event.metadata?.decidedBy}`,
+          source,
+          status: 'RECORDED',
+          lines: [
+            { accountId: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, type: 'DEBIT', amount },
+            { accountId: NARRATIVE_ACCOUNTS.HONORING_ADAPTER_STABLECOIN, type: 'CREDIT', amount },
+          ],
+          eventId: event.metadata?.correctsEventId,
+          userId: event.userId
+        };
+
       case CreditEventType.GIFT_CARD_CREATED:
         return {
           description: `Reward Issuance Observed for ${event.userId}: ${displayAmount} USD`,
@@ -151,6 +225,23 @@ export class EventLogger {
           userId: event.userId
         };
         
+      case CreditEventType.INTEGRITY_VERIFIED:
+      case CreditEventType.BALANCE_DRIFT_DETECTED:
+        // Reconciliation findings only; the zero lines keep them out of observed balances
+        return {
+          description: event.type === CreditEventType.INTEGRITY_VERIFIED
+            ? `Integrity Verified: ${event.metadata?.accountsChecked} observed balances match clearing`
+            : `Balance Drift Observed: ${event.metadata?.driftedAccounts} of ${event.metadata?.accountsChecked} accounts differ from clearing by ${displayAmount} USD`,
+          source,
+          status: event.type === CreditEventType.INTEGRITY_VERIFIED ? 'RECORDED' : 'OBSERVED',
+          lines: [
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'DEBIT', amount: 0n },
+            { accountId: NARRATIVE_ACCOUNTS.OBSERVED_OPS_EXPENSE, type: 'CREDIT', amount: 0n },
+          ],
+          eventId: event.id,
+          userId: event.userId
+        };
+
       case CreditEventType.ATTESTATION_VERIFIED:
         return {
           description: `Attestation Verification Observed for event ${event.id}`,
@@ -1,6 +1,8 @@
 // Credit Event Type Definitions
 // This defines all possible credit events in the SOVR value creation network
 
+import { AnchorType } from '../shared/narrative-mirror-bridge';
+
 export enum CreditEventType {
     // === Deposit Events ===
     CREDIT_DEPOSITED = 'CREDIT_DEPOSITED',
@@ -18,18 +20,30 @@ export enum CreditEventType {
 
     // === Spend Events ===
     SPEND_AUTHORIZED = 'SPEND_AUTHORIZED',
+    SPEND_RESERVED = 'SPEND_RESERVED',
     SPEND_EXECUTED = 'SPEND_EXECUTED',
     SPEND_FINALIZED = 'SPEND_FINALIZED',
     SPEND_FAILED = 'SPEND_FAILED',
     SPEND_REJECTED_BY_LEDGER = 'SPEND_REJECTED_BY_LEDGER',
+    SPEND_VOIDED = 'SPEND_VOIDED',
+    SPEND_EXPIRED = 'SPEND_EXPIRED',
+    SPEND_SETTLED = 'SPEND_SETTLED',
     HONORING_FAILED = 'HONORING_FAILED',
 
+    // === Correction Events ===
+    CORRECTION_REQUESTED = 'CORRECTION_REQUESTED',
+    CORRECTION_APPLIED = 'CORRECTION_APPLIED',
+    CORRECTION_REJECTED = 'CORRECTION_REJECTED',
+    CORRECTION_FAILED = 'CORRECTION_FAILED',
+
     // === Reward Events ===
     USER_REWARD_EARNED = 'USER_REWARD_EARNED',
     CASHBACK_ISSUED = 'CASHBACK_ISSUED',
 
     // === Integrity Events ===
     INTEGRITY_VERIFIED = 'INTEGRITY_VERIFIED',
+    BALANCE_RECONCILED = 'BALANCE_RECONCILED',
+    BALANCE_DRIFT_DETECTED = 'BALANCE_DRIFT_DETECTED',
     AUDIT_LOG_CREATED = 'AUDIT_LOG_CREATED'
 }
 
@@ -50,20 +64,39 @@ export interface Attestation {
     eventId: string;
     signature: string;
     attestor: string;
+    /** Every attestor signature over the batch root; signature/attestor above is the first of them */
+    signatures?: AttestorSignature[];
     timestamp: Date;
+    /** How the signature was made; unset on attestations stored before EIP-712 (personal_sign over JSON) */
+    scheme?: AttestationScheme;
     proof: AttestationProof;
     onChainHash?: string;
 }
 
+export type AttestationScheme = 'eip712' | 'personal_sign';
+
+export interface AttestorSignature {
+    attestor: string;
+    signature: string;
+}
+
 export interface AttestationProof {
     merkleRoot: string;
+    /** Sibling hashes from the event's leaf up to merkleRoot */
     merkleProof: string[];
     eventHash: string;
+    /** How eventHash was computed: 'canonical-v1' hashes the whole event; unset on attestations that hashed id, type, userId, amount and timestamp only */
+    eventEncoding?: string;
     nonce: string;
+    /** Signed batch the root belongs to (unset on per-event attestations issued before batching) */
+    batchId?: string;
+    batchSize?: number;
+    leafIndex?: number;
 }
 
 export interface CreditBalance {
     userId: string;
+    currency?: string;
     available: bigint;
     pending: bigint;
     total: bigint;
@@ -74,6 +107,12 @@ export interface SpendParams {
     userId: string;
     merchant: MerchantType;
     amount: number;
+    /** Currency the merchant honors in (default USD) */
+    currency?: string;
+    /** Currency of the user account that pays (default: same as currency) */
+    fundingCurrency?: string;
+    /** Anchor obligation backing the spend (default: the merchant's anchor, if any) */
+    anchorType?: AnchorType;
     metadata: {
         email?: string;
         phone?: string;
@@ -2,31 +2,114 @@
 // Initializes and exports the Value Attestation Layer
 
 import { ethers } from 'ethers';
-import { AttestationEngine } from './core/attestation';
+import { AttestationEngine, AttestationEngineOptions } from './core/attestation';
 import { SpendEngine } from './core/spend_engine';
 import { EventLogger } from './events/logger';
+import { BalanceReconciler } from './core/reconciler';
+import { CorrectionService, PostgresCorrectionStore } from './core/corrections';
+import { AttestorRegistry, PostgresAttestorRegistryStore } from './core/attestor_registry';
+import { AttestationStore, InMemoryAttestationStore, PostgresAttestationStore } from './core/attestation_store';
+import { AttestationVerifier } from './core/attestation_verifier';
+import { ClearingChangeFeed, InMemoryChangeFeedCursorStore, PostgresChangeFeedCursorStore } from './core/clearing_feed';
+import { getNarrativeMirror, NarrativeMirrorService } from './core/narrative-mirror-service';
 import { SquareAdapter } from './adapters/square_adapter';
 import { TangoAdapter } from './adapters/tango_adapter';
 import { InstacartAdapter } from './adapters/instacart_adapter';
-import { getTigerBeetle } from './clearing/tigerbeetle/client';
+import { createClearingService, getTigerBeetle } from './clearing/tigerbeetle/client';
+import { ClearingConfig, ClearingPersistence, IClearingService } from './clearing/tigerbeetle/types';
+import { ExchangeRateTable } from './clearing/tigerbeetle/exchange';
+import { HEALTH_CHECK_INTERVAL_MS, SystemHealth, summarizeHealth } from './shared/health';
+import { postgresConfigFromEnv } from './shared/postgres';
 
 export class VALSystem {
   private attestationEngine: AttestationEngine;
+  private attestationStore: AttestationStore;
+  private attestationVerifier: AttestationVerifier;
   private spendEngine: SpendEngine;
   private eventLogger: EventLogger;
+  private clearing: IClearingService;
+  private reconciler: BalanceReconciler;
+  private changeFeed: ClearingChangeFeed;
+  private mirror: NarrativeMirrorService;
+  private healthTimer: ReturnType<typeof setInterval> | undefined;
+  private healthCheckIntervalMs: number;
+  private issuers: string[];
+  private cosigners: string[];
   
   constructor(
-    attestorPrivateKey: string,
+    attestorPrivateKeys: string | string[],
     provider: ethers.Provider,
     config: {
       square?: { apiKey: string; locationId: string };
       tango?: { platformName: string; platformKey: string; sandbox?: boolean };
+      clearing?: ClearingConfig;
+      /** Units per 1 USD, e.g. { EUR: '0.92' }; unset currencies use DEFAULT_EXCHANGE_RATES */
+      exchangeRates?: Record<string, string>;
+      /** How often the clearing-vs-mirror reconciler runs once started (default 60s) */
+      reconciliationIntervalMs?: number;
+      /** How often backing services are probed once health checks start (default 30s) */
+      healthCheckIntervalMs?: number;
+      /** Attestation batching (default 50ms, 4096 events per root), domain and attestor quorum */
+      attestation?: AttestationEngineOptions;
+      /** Where the change feed keeps its cursor (default 'postgres', 'memory' with the memory clearing backend) */
+      changeFeedCursor?: ClearingPersistence;
+      /** Where the attestor registry is kept (default 'postgres', 'memory' with the memory clearing backend) */
+      attestorRegistry?: ClearingPersistence;
+      /** Where issued attestations are kept (default 'postgres', 'memory' with the memory clearing backend) */
+      attestationStore?: ClearingPersistence;
+      /** Where correction requests are kept (default 'postgres', 'memory' with the memory clearing backend) */
+      corrections?: ClearingPersistence;
     }
   ) {
+    const clearingBackend = config.clearing?.backend || process.env.CLEARING_BACKEND;
+    const persistence = (configured: ClearingPersistence | undefined, env: string | undefined): ClearingPersistence =>
+      configured || (env as ClearingPersistence | undefined) || (clearingBackend === 'memory' ? 'memory' : 'postgres');
+
     // Initialize core components
-    this.attestationEngine = new AttestationEngine(attestorPrivateKey, provider);
+    const registry = new AttestorRegistry(
+      persistence(config.attestorRegistry, process.env.ATTESTOR_REGISTRY) === 'postgres'
+        ? new PostgresAttestorRegistryStore(postgresConfigFromEnv())
+        : undefined
+    );
+    this.issuers = (Array.isArray(attestorPrivateKeys) ? attestorPrivateKeys : [attestorPrivateKeys])
+      .map(key => new ethers.Wallet(key).address);
+    this.cosigners = (config.attestation?.attestors ?? []).filter(address => !this.issuers.includes(ethers.getAddress(address)));
+    this.attestationStore = persistence(config.attestationStore, process.env.ATTESTATION_STORE) === 'postgres'
+      ? new PostgresAttestationStore(postgresConfigFromEnv())
+      : new InMemoryAttestationStore();
+    this.attestationEngine = new AttestationEngine(attestorPrivateKeys, {
+      ...config.attestation,
+      registry,
+      store: this.attestationStore,
+    });
     this.eventLogger = new EventLogger();
-    this.spendEngine = new SpendEngine(this.attestationEngine, this.eventLogger);
+    // Explicit backend gets its own service; otherwise share the process-wide one (CLEARING_BACKEND)
+    this.clearing = config.clearing?.backend
+      ? createClearingService(config.clearing)
+      : getTigerBeetle();
+    this.spendEngine = new SpendEngine(
+      this.attestationEngine,
+      this.eventLogger,
+      this.clearing,
+      new ExchangeRateTable(config.exchangeRates),
+      persistence(config.corrections, process.env.CORRECTION_STORE) === 'postgres'
+        ? new PostgresCorrectionStore(postgresConfigFromEnv())
+        : undefined
+    );
+    this.mirror = getNarrativeMirror();
+    this.attestationVerifier = new AttestationVerifier(this.attestationEngine, this.clearing);
+    this.healthCheckIntervalMs = config.healthCheckIntervalMs ?? HEALTH_CHECK_INTERVAL_MS;
+    this.reconciler = new BalanceReconciler(
+      this.clearing,
+      this.mirror,
+      this.eventLogger,
+      config.reconciliationIntervalMs
+    );
+    this.changeFeed = new ClearingChangeFeed(this.clearing, this.mirror, {
+      store: persistence(config.changeFeedCursor, process.env.CHANGE_FEED_CURSOR) === 'postgres'
+        ? new PostgresChangeFeedCursorStore(postgresConfigFromEnv())
+        : new InMemoryChangeFeedCursorStore(),
+    });
     
     // Register merchant adapters
     if (config.square) {
@@ -52,11 +135,73 @@ export class VALSystem {
   }
 
   /**
-   * Initialize async components (TigerBeetle Accounts)
+   * Initialize async components (TigerBeetle Accounts, attestor registry, corrections)
    */
   async initialize(): Promise<void> {
-    const tb = getTigerBeetle();
-    await tb.initializeReferenceAccounts();
+    await this.clearing.initializeReferenceAccounts();
+    await this.spendEngine.getCorrectionService().load();
+    // Configured keys are only seeded once; after that the registry is managed through rotation
+    const registry = this.attestationEngine.getRegistry();
+    await registry.load();
+    registry.seed(this.issuers, 'issuer');
+    registry.seed(this.cosigners, 'cosigner');
+  }
+  
+  /**
+   * Probe TigerBeetle and Postgres now. Failed components reconnect with backoff on their own.
+   * The transfer audit writer reports itself: degraded while writes fail or once rows were dropped.
+   */
+  async checkHealth(): Promise<SystemHealth> {
+    const components = await Promise.all([this.clearing.checkHealth(), this.mirror.checkHealth()]);
+    return summarizeHealth([...components, this.clearing.getTransferAudit().getHealth()], ['tigerbeetle']);
+  }
+
+  /**
+   * Last probe results without probing again
+   */
+  getHealth(): SystemHealth {
+    return summarizeHealth(
+      [this.clearing.getHealth(), this.mirror.getHealth(), this.clearing.getTransferAudit().getHealth()],
+      ['tigerbeetle']
+    );
+  }
+
+  /**
+   * Probe on a fixed interval until stopHealthChecks() is called, so an outage is noticed
+   * (and reconnecting starts) without waiting for a status request.
+   */
+  startHealthChecks(): void {
+    if (this.healthTimer) return;
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(error => console.error('[VAL] Health check failed:', error));
+    }, this.healthCheckIntervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  stopHealthChecks(): void {
+    clearInterval(this.healthTimer);
+    this.healthTimer = undefined;
+  }
+  
+  /**
+   * Get clearing service instance
+   */
+  getClearingService(): IClearingService {
+    return this.clearing;
+  }
+  
+  /**
+   * Get clearing-vs-mirror reconciler instance
+   */
+  getReconciler(): BalanceReconciler {
+    return this.reconciler;
+  }
+  
+  /**
+   * Get the TigerBeetle-to-mirror change feed
+   */
+  getChangeFeed(): ClearingChangeFeed {
+    return this.changeFeed;
   }
   
   /**
@@ -66,6 +211,13 @@ export class VALSystem {
     return this.spendEngine;
   }
   
+  /**
+   * Get correction workflow instance
+   */
+  getCorrectionService(): CorrectionService {
+    return this.spendEngine.getCorrectionService();
+  }
+  
   /**
    * Get attestation engine instance
    */
@@ -73,6 +225,20 @@ export class VALSystem {
     return this.attestationEngine;
   }
   
+  /**
+   * Get the store of issued attestations
+   */
+  getAttestationStore(): AttestationStore {
+    return this.attestationStore;
+  }
+  
+  /**
+   * Get the attestation verifier behind the public verify endpoint
+   */
+  getAttestationVerifier(): AttestationVerifier {
+    return this.attestationVerifier;
+  }
+  
   /**
    * Get event logger instance
    */
@@ -84,9 +250,28 @@ export class VALSystem {
 // Export all types and classes
 export * from './events/types';
 export * from './core/attestation';
+export * from './core/attestation_legacy';
+export * from './core/attestor_registry';
+export * from './core/attestation_store';
+export * from './core/attestation_verifier';
+export * from './core/merkle';
 export * from './core/spend_engine';
+export * from './core/reconciler';
+export * from './core/corrections';
+export * from './core/clearing_feed';
+export * from './shared/health';
 export * from './core/oracle-ledger-bridge-service.ts';
 export * from './clearing/tigerbeetle/client.ts';
+export * from './clearing/tigerbeetle/types.ts';
+export * from './clearing/tigerbeetle/memory.ts';
+export * from './clearing/tigerbeetle/accounts.ts';
+export * from './clearing/tigerbeetle/codes.ts';
+export * from './clearing/tigerbeetle/queue.ts';
+export * from './clearing/tigerbeetle/registry.ts';
+export * from './clearing/tigerbeetle/ledgers.ts';
+export * from './clearing/tigerbeetle/exchange.ts';
+export * from './clearing/tigerbeetle/velocity.ts';
+export * from './clearing/tigerbeetle/audit.ts';
 export * from './merchant_triggers/adapter_interface';
 export * from './adapters/square_adapter';
 export * from './adapters/tango_adapter';
@@ -33,7 +33,7 @@ export interface IMerchantValueAdapter {
 export interface ValueRequest {
   userId: string;
   amount: number;
-  currency: string;
+  currency: string; // Resolves to a TigerBeetle ledger via LEDGER_IDS (USD, EUR, GBP, USDC, sFIAT)
   attestation: Attestation;
   metadata: {
     email?: string;
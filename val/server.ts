@@ -1,7 +1,35 @@
 
 import express from 'express';
 import cors from 'cors';
-import { VALSystem } from './index';
+import {
+    VALSystem,
+    ClearingRejectedError,
+    AccountHistoryQuery,
+    ACCOUNT_HISTORY_MAX_LIMIT,
+    asReferenceAccountKey,
+    referenceAccountId,
+    LEDGER_IDS,
+    resolveCurrency,
+    UnsupportedCurrencyError,
+    AccountStatusError,
+    AccountStatusOperation,
+    AccountStatusChange,
+    ReserveThresholdError,
+    VELOCITY_WINDOWS,
+    VelocityLimits,
+    CorrectionError,
+    CorrectionStatus,
+    eventRefFor,
+    AccountClass,
+    AccountKind,
+    AccountStatus,
+    ACCOUNT_CLASS_FLAGS,
+    AttestorRegistryError,
+    AttestorRole,
+    AttestationFormatError,
+    attestationFromJson,
+    creditEventFromJson,
+} from './index';
 import { ethers } from 'ethers';
 import { CreditEventType } from './events/types';
 import dotenv from 'dotenv';
@@ -16,6 +44,7 @@ const PORT = process.env.PORT || 3001; // 3001 to avoid TigerBeetle's default 30
 function serializeBigInts(obj: any): any {
     if (obj === null || obj === undefined) return obj;
     if (typeof obj === 'bigint') return obj.toString();
+    if (obj instanceof Date) return obj;
     if (Array.isArray(obj)) return obj.map(serializeBigInts);
     if (typeof obj === 'object') {
         const result: any = {};
@@ -27,6 +56,88 @@ function serializeBigInts(obj: any): any {
     return obj;
 }
 
+// Resolve an :id route param: reference account key, numeric TigerBeetle id, or userId
+function resolveAccountId(id: string): bigint {
+    const accountKey = asReferenceAccountKey(id);
+    if (accountKey) return referenceAccountId(accountKey);
+    if (/^\d+$/.test(id)) return BigInt(id);
+    return tigerBeetle.userAccountId(id);
+}
+
+// Parse an ISO date or a nanosecond timestamp into TigerBeetle cluster time
+function parseLedgerTimestamp(value: unknown, name: string): bigint | undefined {
+    if (value === undefined || value === '') return undefined;
+    const text = String(value);
+    if (/^\d+$/.test(text)) return BigInt(text);
+    const ms = Date.parse(text);
+    if (Number.isNaN(ms)) throw new Error(`Invalid ${name}: expected ISO date or nanosecond timestamp`);
+    return BigInt(ms) * 1_000_000n;
+}
+
+// Parse an ISO date or epoch milliseconds
+function parseDate(value: unknown, name: string): Date | undefined {
+    if (value === undefined || value === '') return undefined;
+    const date = typeof value === 'number' || /^\d+$/.test(String(value)) ? new Date(Number(value)) : new Date(String(value));
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${name}: expected ISO date or epoch milliseconds`);
+    return date;
+}
+
+// ?from=&to=&code=&side=debits|credits|both&limit=&reverse=true
+function parseHistoryQuery(query: Record<string, unknown>): AccountHistoryQuery {
+    const side = (query.side as string) || 'both';
+    if (!['debits', 'credits', 'both'].includes(side)) {
+        throw new Error('Invalid side: expected debits, credits or both');
+    }
+    const code = query.code !== undefined ? Number(query.code) : undefined;
+    if (code !== undefined && (!Number.isInteger(code) || code < 0 || code > 0xffff)) {
+        throw new Error('Invalid code: expected an integer 0-65535');
+    }
+    const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > ACCOUNT_HISTORY_MAX_LIMIT)) {
+        throw new Error(`Invalid limit: expected an integer 1-${ACCOUNT_HISTORY_MAX_LIMIT}`);
+    }
+    return {
+        timestampMin: parseLedgerTimestamp(query.from, 'from'),
+        timestampMax: parseLedgerTimestamp(query.to, 'to'),
+        code,
+        side: side as AccountHistoryQuery['side'],
+        limit,
+        reverse: query.reverse === 'true' || query.reverse === '1',
+    };
+}
+
+// Addresses allowed to sign trustee actions (freeze/unfreeze/close); defaults to the known admin
+const TRUSTEE_ADDRESSES = (process.env.TRUSTEE_ADDRESSES || '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266')
+    .split(',')
+    .map(address => ethers.getAddress(address.trim()));
+
+// Trustee actions carry a signature over {action, [idField]: :id, ...signedFields, timestamp} from a trustee address;
+// the recovered trustee is left in res.locals.trustee
+function requireTrustee(action: string, signedFields: string[] = [], idField: string = 'accountId') {
+    return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const { signature, timestamp } = req.body || {};
+        if (!signature || !timestamp) {
+            return res.status(401).json({ error: 'Missing trustee signature/timestamp' });
+        }
+        if (Math.abs(Date.now() - timestamp) > 60000) {
+            return res.status(401).json({ error: 'Stale request: Timestamp out of bounds' });
+        }
+        let signer: string;
+        try {
+            const fields = Object.fromEntries(signedFields.map(field => [field, req.body[field]]));
+            signer = ethers.verifyMessage(JSON.stringify({ action, [idField]: req.params.id, ...fields, timestamp }), signature);
+        } catch {
+            return res.status(401).json({ error: 'Invalid trustee signature' });
+        }
+        if (!TRUSTEE_ADDRESSES.includes(signer)) {
+            console.warn(`[AUTH] ${action} refused for non-trustee ${signer}`);
+            return res.status(403).json({ error: 'Unauthorized: trustee signature required' });
+        }
+        res.locals.trustee = signer;
+        next();
+    };
+}
+
 // Middleware
 app.use(cors({ origin: '*' }));
 app.use(express.json());
@@ -34,13 +145,20 @@ app.use(express.json());
 // Initialize VAL System
 // In a real scenario, these keys should be securely managed
 const ATTESTOR_PRIVATE_KEY = process.env.ATTESTOR_PRIVATE_KEY || ethers.Wallet.createRandom().privateKey;
+// Quorum: every configured attestor address, and how many of them must sign (defaults: this server's keys, majority)
+const ATTESTOR_PRIVATE_KEYS = ATTESTOR_PRIVATE_KEY.split(',').map(key => key.trim());
+const ATTESTOR_ADDRESSES = process.env.ATTESTOR_ADDRESSES
+    ? process.env.ATTESTOR_ADDRESSES.split(',').map(address => ethers.getAddress(address.trim()))
+    : undefined;
+const ATTESTATION_THRESHOLD = process.env.ATTESTATION_THRESHOLD ? parseInt(process.env.ATTESTATION_THRESHOLD) : undefined;
 const provider = new ethers.JsonRpcProvider(process.env.RPC_URL || 'http://localhost:8545');
 
 console.log('[VAL] Initializing Sovereign Stack...');
 const valSystem = new VALSystem(
-    ATTESTOR_PRIVATE_KEY,
+    ATTESTOR_PRIVATE_KEYS,
     provider,
     {
+        attestation: { attestors: ATTESTOR_ADDRESSES, threshold: ATTESTATION_THRESHOLD },
         square: { 
             apiKey: process.env.SQUARE_API_KEY || 'mock_key', 
             locationId: process.env.SQUARE_LOCATION_ID || 'mock_loc' 
@@ -53,9 +171,15 @@ const valSystem = new VALSystem(
     }
 );
 
+// Probe TigerBeetle and Postgres from the start; an unreachable backend reconnects with backoff
+valSystem.startHealthChecks();
+valSystem.checkHealth().catch(err => console.error('[VAL] Initial health check failed:', err));
+
 // Initialize Async Components
 valSystem.initialize().then(() => {
     console.log('[VAL] TigerBeetle reference accounts initialized.');
+    valSystem.getReconciler().start();
+    valSystem.getChangeFeed().start();
 }).catch(err => {
     console.error('[VAL] Failed to initialize TigerBeetle accounts:', err);
 });
@@ -63,7 +187,7 @@ valSystem.initialize().then(() => {
 // Get Engine Instances
 const spendEngine = valSystem.getSpendEngine();
 const narrativeMirror = (spendEngine as any).narrativeMirror;
-const tigerBeetle = (spendEngine as any).tigerBeetle || (spendEngine as any).tigerBeetleService;
+const tigerBeetle = valSystem.getClearingService();
 
 // =============================================================================
 // DEMO DATA SEEDER
@@ -219,28 +343,550 @@ console.log('[VAL] System Initialized (Zero-State). Waiting for Attestations.');
 // =============================================================================
 
 /**
- * GET /api/status
- * Health check
+ * GET /api/status?probe=false
+ * Health check: probes TigerBeetle and Postgres (probe=false returns the last results) and reports
+ * each component's state, latency and last error. 503 while clearing is down.
  */
-app.get('/api/status', (req, res) => {
-    res.json({ status: 'active', system: 'VAL Core Authority', timestamp: new Date() });
+app.get('/api/status', async (req, res) => {
+    try {
+        const health = req.query.probe === 'false' ? valSystem.getHealth() : await valSystem.checkHealth();
+        res.status(health.status === 'down' ? 503 : 200).json({ ...health, system: 'VAL Core Authority', timestamp: new Date() });
+    } catch (error: any) {
+        res.status(500).json({ status: 'down', error: error.message, system: 'VAL Core Authority', timestamp: new Date() });
+    }
 });
 
 /**
- * GET /api/balance/:userId
- * Get cleared credit balance
+ * GET /api/balance/:userId?currency=USD
+ * Get cleared credit balance from the user's TigerBeetle account on a currency ledger
+ * (reference account keys such as HONORING_ADAPTER_ODFI resolve to that account)
  */
 app.get('/api/balance/:userId', async (req, res) => {
     try {
         const userId = req.params.userId;
-        const balance = await spendEngine.getCreditBalance(userId);
-        res.json(balance);
+        const currency = resolveCurrency(req.query.currency as string | undefined);
+        const accountKey = asReferenceAccountKey(userId);
+        if (accountKey) {
+            const accountId = referenceAccountId(accountKey, LEDGER_IDS[currency]);
+            const ledgerBalance = await tigerBeetle.getLedgerBalance(accountId);
+            const posted = ledgerBalance?.posted ?? 0n;
+            const pending = ledgerBalance?.pending ?? 0n;
+            return res.json(serializeBigInts({
+                userId,
+                currency,
+                available: posted - pending,
+                pending,
+                total: posted,
+                lastUpdated: new Date()
+            }));
+        }
+        const balance = await spendEngine.getCreditBalance(userId, currency);
+        res.json(serializeBigInts(balance));
     } catch (error: any) {
+        if (error instanceof UnsupportedCurrencyError) {
+            return res.status(400).json({ error: error.message });
+        }
         console.error('Error fetching balance:', error);
         res.status(500).json({ error: error.message });
     }
 });
 
+const ACCOUNT_KINDS: AccountKind[] = ['user', 'reference'];
+const ACCOUNT_STATUSES: AccountStatus[] = ['active', 'frozen', 'closed'];
+
+/**
+ * GET /api/accounts?kind=reference&class=settlement&owner=alice&currency=USD&status=active
+ * Registered accounts, filtered by any combination of kind, class, owner, currency ledger and status
+ */
+app.get('/api/accounts', (req, res) => {
+    const { kind, owner, status } = req.query as Record<string, string | undefined>;
+    const accountClass = req.query.class as string | undefined;
+    let ledger: number | undefined;
+    try {
+        if (kind !== undefined && !ACCOUNT_KINDS.includes(kind as AccountKind)) {
+            throw new Error(`Invalid kind: expected one of ${ACCOUNT_KINDS.join(', ')}`);
+        }
+        if (accountClass !== undefined && !(accountClass in ACCOUNT_CLASS_FLAGS)) {
+            throw new Error(`Invalid class: expected one of ${Object.keys(ACCOUNT_CLASS_FLAGS).join(', ')}`);
+        }
+        if (status !== undefined && !ACCOUNT_STATUSES.includes(status as AccountStatus)) {
+            throw new Error(`Invalid status: expected one of ${ACCOUNT_STATUSES.join(', ')}`);
+        }
+        if (req.query.currency !== undefined) ledger = LEDGER_IDS[resolveCurrency(req.query.currency as string)];
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    const accounts = tigerBeetle.getRegistry().list({
+        kind: kind as AccountKind | undefined,
+        accountClass: accountClass as AccountClass | undefined,
+        owner,
+        ledger,
+        status: status as AccountStatus | undefined,
+    });
+    res.json(serializeBigInts(accounts));
+});
+
+/**
+ * POST /api/accounts   (trustee only)
+ * Body: { owner, name?, currency?, signature, timestamp } opens (or finds) a member account and sets its display name;
+ * signature signs {action: 'provision_account', owner, name, currency, timestamp}
+ */
+app.post('/api/accounts', requireTrustee('provision_account', ['owner', 'name', 'currency']), async (req, res) => {
+    const { owner, name, currency } = req.body;
+    if (typeof owner !== 'string' || owner === '' || asReferenceAccountKey(owner)) {
+        return res.status(400).json({ error: 'Invalid owner: expected a member userId' });
+    }
+    if (name !== undefined && (typeof name !== 'string' || name === '')) {
+        return res.status(400).json({ error: 'Invalid name: expected a non-empty string' });
+    }
+    let ledger: number;
+    try {
+        ledger = LEDGER_IDS[resolveCurrency(currency)];
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        const account = await tigerBeetle.provisionAccount({ owner, name, ledger });
+        res.status(201).json(serializeBigInts(account));
+    } catch (error: any) {
+        if (error instanceof AccountStatusError) {
+            return res.status(409).json({ error: error.message, status: error.status });
+        }
+        console.error('Error provisioning account:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/accounts/:id/transfers
+ * Clearing history of a TigerBeetle account (id: reference key, numeric id or userId)
+ * Query: from, to, code, side, limit, reverse
+ */
+app.get('/api/accounts/:id/transfers', async (req, res) => {
+    let query: AccountHistoryQuery;
+    let accountId: bigint;
+    try {
+        accountId = resolveAccountId(req.params.id);
+        query = parseHistoryQuery(req.query as Record<string, unknown>);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        if (!(await tigerBeetle.getLedgerBalance(accountId))) {
+            return res.status(404).json({ error: `Account not found: ${req.params.id}` });
+        }
+        const transfers = await tigerBeetle.getAccountTransfers(accountId, query);
+        res.json(serializeBigInts({ accountId, transfers }));
+    } catch (error: any) {
+        console.error('Error fetching account transfers:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/accounts/:id/balances
+ * Balance after each transfer (accounts with the history flag only)
+ * Query: from, to, code, side, limit, reverse
+ */
+app.get('/api/accounts/:id/balances', async (req, res) => {
+    let query: AccountHistoryQuery;
+    let accountId: bigint;
+    try {
+        accountId = resolveAccountId(req.params.id);
+        query = parseHistoryQuery(req.query as Record<string, unknown>);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        if (!(await tigerBeetle.getLedgerBalance(accountId))) {
+            return res.status(404).json({ error: `Account not found: ${req.params.id}` });
+        }
+        const balances = await tigerBeetle.getAccountBalances(accountId, query);
+        res.json(serializeBigInts({ accountId, balances }));
+    } catch (error: any) {
+        console.error('Error fetching account balances:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/accounts/:id/audit?limit=100
+ * Audited transfers debiting or crediting the account, newest first, with their outcome and status
+ */
+app.get('/api/accounts/:id/audit', async (req, res) => {
+    let accountId: bigint;
+    let limit: number | undefined;
+    try {
+        accountId = resolveAccountId(req.params.id);
+        if (req.query.limit !== undefined) {
+            limit = Number(req.query.limit);
+            if (!Number.isInteger(limit) || limit < 1 || limit > ACCOUNT_HISTORY_MAX_LIMIT) {
+                throw new Error(`Invalid limit: expected an integer between 1 and ${ACCOUNT_HISTORY_MAX_LIMIT}`);
+            }
+        }
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        const transfers = await tigerBeetle.getTransferAudit().findByAccount(accountId, limit);
+        res.json(serializeBigInts({ accountId, transfers }));
+    } catch (error: any) {
+        console.error('Error fetching transfer audit:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/events/:eventId/transfers
+ * Audited transfers linked to a CreditEvent (user_data_128), including the posts and voids that resolved them
+ */
+app.get('/api/events/:eventId/transfers', async (req, res) => {
+    try {
+        const eventRef = eventRefFor(req.params.eventId);
+        const transfers = await tigerBeetle.getTransferAudit().findByEventRef(eventRef);
+        res.json(serializeBigInts({ eventId: req.params.eventId, eventRef, transfers }));
+    } catch (error: any) {
+        console.error('Error fetching transfer audit:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/accounts/:id/status
+ * Registry entry of an account: active, frozen or closed
+ */
+app.get('/api/accounts/:id/status', (req, res) => {
+    let accountId: bigint;
+    try {
+        accountId = resolveAccountId(req.params.id);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+    const account = tigerBeetle.getRegistry().get(accountId);
+    if (!account) {
+        return res.status(404).json({ error: `Account not registered: ${req.params.id}` });
+    }
+    res.json(serializeBigInts(account));
+});
+
+/**
+ * POST /api/accounts/:id/freeze | /unfreeze | /close   (trustee only)
+ * Body: { signature, timestamp } where signature signs {action, accountId: :id, timestamp}
+ */
+const ACCOUNT_STATUS_OPERATIONS: Record<Exclude<AccountStatusOperation, 'open'>, (accountId: bigint) => Promise<AccountStatusChange>> = {
+    freeze: (accountId: bigint) => tigerBeetle.freezeAccount(accountId),
+    unfreeze: (accountId: bigint) => tigerBeetle.unfreezeAccount(accountId),
+    close: (accountId: bigint) => tigerBeetle.closeAccount(accountId),
+};
+
+for (const [action, operation] of Object.entries(ACCOUNT_STATUS_OPERATIONS)) {
+    app.post(`/api/accounts/:id/${action}`, requireTrustee(action), async (req, res) => {
+        try {
+            const result = await operation(resolveAccountId(req.params.id));
+            const status = result.ok ? 200 : result.reason === 'client_unavailable' ? 503 : 409;
+            res.status(status).json(serializeBigInts(result));
+        } catch (error: any) {
+            if (error instanceof AccountStatusError) {
+                return res.status(error.status === 'unregistered' ? 404 : 409).json({ error: error.message, status: error.status });
+            }
+            console.error(`Error during account ${action}:`, error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+}
+
+/**
+ * POST /api/accounts/:id/reserve   (trustee only)
+ * Body: { reserve, signature, timestamp } with the reserve in whole units (0 removes it);
+ * signature signs {action: 'set_reserve', accountId: :id, reserve, timestamp}
+ */
+app.post('/api/accounts/:id/reserve', requireTrustee('set_reserve', ['reserve']), async (req, res) => {
+    const { reserve } = req.body;
+    if (typeof reserve !== 'number' || !Number.isFinite(reserve) || reserve < 0) {
+        return res.status(400).json({ error: 'Invalid reserve: expected a non-negative number' });
+    }
+
+    try {
+        const account = await tigerBeetle.setReserveThreshold(
+            resolveAccountId(req.params.id),
+            BigInt(Math.floor(reserve * 1_000_000)) // Micro-units (10^6)
+        );
+        res.json(serializeBigInts(account));
+    } catch (error: any) {
+        if (error instanceof ReserveThresholdError) {
+            return res.status(409).json({ error: error.message });
+        }
+        console.error('Error setting reserve threshold:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/velocity/:userId?currency=USD
+ * Daily and weekly spend caps of a member with what is used and what remains in each window
+ */
+app.get('/api/velocity/:userId', async (req, res) => {
+    try {
+        const currency = resolveCurrency(req.query.currency as string | undefined);
+        const windows = await spendEngine.getVelocityAllowance(req.params.userId, currency);
+        res.json(serializeBigInts({ userId: req.params.userId, currency, windows }));
+    } catch (error: any) {
+        if (error instanceof UnsupportedCurrencyError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error fetching velocity allowance:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/velocity/:id/limits   (trustee only)
+ * Body: { daily?, weekly?, currency?, signature, timestamp } with caps in whole units;
+ * signature signs {action: 'set_velocity_limits', accountId: :id, daily, weekly, currency, timestamp}
+ */
+app.post('/api/velocity/:id/limits', requireTrustee('set_velocity_limits', ['daily', 'weekly', 'currency']), async (req, res) => {
+    let currency: ReturnType<typeof resolveCurrency>;
+    const limits: Partial<VelocityLimits> = {};
+    try {
+        currency = resolveCurrency(req.body.currency);
+        for (const window of VELOCITY_WINDOWS) {
+            const value = req.body[window];
+            if (value === undefined) continue;
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                throw new Error(`Invalid ${window} limit: expected a non-negative number`);
+            }
+            limits[window] = BigInt(Math.floor(value * 1_000_000)); // Micro-units (10^6)
+        }
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        const result = await tigerBeetle.setVelocityLimits(req.params.id, limits, LEDGER_IDS[currency]);
+        if (!result.ok) {
+            const status = result.reason === 'client_unavailable' ? 503 : 409;
+            return res.status(status).json(serializeBigInts(result));
+        }
+        const windows = await tigerBeetle.getVelocityAllowance(req.params.id, LEDGER_IDS[currency]);
+        res.json(serializeBigInts({ ...result, userId: req.params.id, currency, windows }));
+    } catch (error: any) {
+        console.error('Error setting velocity limits:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/corrections?status=pending_approval
+ * Correction requests, optionally filtered by status
+ */
+app.get('/api/corrections', (req, res) => {
+    const status = req.query.status as CorrectionStatus | undefined;
+    res.json(serializeBigInts(valSystem.getCorrectionService().list(status)));
+});
+
+/**
+ * POST /api/corrections   (trustee only)
+ * Body: { eventId, userId, amount?, currency?, reason, signature, timestamp }, amount in whole units (default: all
+ * that is still correctable); signature signs {action: 'request_correction', eventId, userId, amount, currency,
+ * reason, timestamp} and the signer is recorded as requestedBy. Files the request only; the compensating
+ * transfer waits for a trustee's approval.
+ */
+app.post('/api/corrections', requireTrustee('request_correction', ['eventId', 'userId', 'amount', 'currency', 'reason']), async (req, res) => {
+    const { eventId, userId, amount, currency, reason } = req.body;
+    if (!eventId || !userId || !reason) {
+        return res.status(400).json({ error: 'Missing required fields: eventId, userId, reason' });
+    }
+    if (amount !== undefined && (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0)) {
+        return res.status(400).json({ error: 'Invalid amount: expected a positive number' });
+    }
+
+    try {
+        const correction = await valSystem.getCorrectionService().request({
+            eventId,
+            userId,
+            currency,
+            amount: amount === undefined ? undefined : BigInt(Math.floor(amount * 1_000_000)), // Micro-units (10^6)
+            reason,
+            requestedBy: res.locals.trustee,
+        });
+        res.status(201).json(serializeBigInts(correction));
+    } catch (error: any) {
+        if (error instanceof CorrectionError) {
+            return res.status(409).json({ error: error.message });
+        }
+        if (error instanceof UnsupportedCurrencyError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error requesting correction:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/corrections/:id/approve   (trustee only)
+ * POST /api/corrections/:id/reject    (trustee only, optional body field reason)
+ * signature signs {action: 'approve_correction' | 'reject_correction', correctionId: :id, timestamp}
+ */
+app.post('/api/corrections/:id/approve', requireTrustee('approve_correction', [], 'correctionId'), async (req, res) => {
+    try {
+        const correction = await valSystem.getCorrectionService().approve(req.params.id, res.locals.trustee);
+        const status = correction.status === 'applied' ? 200 : correction.detail === 'client_unavailable' ? 503 : 409;
+        res.status(status).json(serializeBigInts(correction));
+    } catch (error: any) {
+        if (error instanceof CorrectionError) {
+            return res.status(valSystem.getCorrectionService().get(req.params.id) ? 409 : 404).json({ error: error.message });
+        }
+        console.error('Error approving correction:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/corrections/:id/reject', requireTrustee('reject_correction', [], 'correctionId'), async (req, res) => {
+    try {
+        const correction = await valSystem.getCorrectionService().reject(req.params.id, res.locals.trustee, req.body.reason);
+        res.json(serializeBigInts(correction));
+    } catch (error: any) {
+        if (error instanceof CorrectionError) {
+            return res.status(valSystem.getCorrectionService().get(req.params.id) ? 409 : 404).json({ error: error.message });
+        }
+        console.error('Error rejecting correction:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+const ATTESTOR_ROLES: AttestorRole[] = ['issuer', 'cosigner'];
+
+function attestorRegistryErrorStatus(error: AttestorRegistryError): number {
+    return error.reason === 'unregistered' ? 404 : error.reason === 'invalid' ? 400 : 409;
+}
+
+/**
+ * GET /api/attestors?activeAt=&role=
+ * Registered attestor keys with their roles and active windows, optionally only those active at a time
+ */
+app.get('/api/attestors', (req, res) => {
+    let activeAt: Date | undefined;
+    try {
+        activeAt = parseDate(req.query.activeAt, 'activeAt');
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+    const role = req.query.role as AttestorRole | undefined;
+    if (role !== undefined && !ATTESTOR_ROLES.includes(role)) {
+        return res.status(400).json({ error: `Invalid role: expected one of ${ATTESTOR_ROLES.join(', ')}` });
+    }
+    const engine = valSystem.getAttestationEngine();
+    res.json({
+        attestors: engine.getRegistry().list({ role, activeAt }),
+        quorum: engine.getQuorum(activeAt),
+    });
+});
+
+/**
+ * POST /api/attestors   (trustee only)
+ * Body: { address, role, activeFrom?, signature, timestamp }, activeFrom as ISO date or epoch ms (default now);
+ * signature signs {action: 'register_attestor', address, role, activeFrom, timestamp}
+ */
+app.post('/api/attestors', requireTrustee('register_attestor', ['address', 'role', 'activeFrom']), (req, res) => {
+    const { address, role } = req.body;
+    if (!address || !ATTESTOR_ROLES.includes(role)) {
+        return res.status(400).json({ error: `Missing address or role (one of ${ATTESTOR_ROLES.join(', ')})` });
+    }
+
+    try {
+        const activeFrom = parseDate(req.body.activeFrom, 'activeFrom');
+        const attestor = valSystem.getAttestationEngine().getRegistry().register({
+            address, role, activeFrom, registeredBy: res.locals.trustee,
+        });
+        res.status(201).json(attestor);
+    } catch (error: any) {
+        if (error instanceof AttestorRegistryError) {
+            return res.status(attestorRegistryErrorStatus(error)).json({ error: error.message });
+        }
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/attestors/:id/rotate   (trustee only)
+ * Body: { replacement, at?, signature, timestamp }: :id's window closes at `at` (default now) and the
+ * replacement's opens there; signature signs {action: 'rotate_attestor', address: :id, replacement, at, timestamp}
+ */
+app.post('/api/attestors/:id/rotate', requireTrustee('rotate_attestor', ['replacement', 'at'], 'address'), (req, res) => {
+    if (!req.body.replacement) {
+        return res.status(400).json({ error: 'Missing replacement address' });
+    }
+
+    try {
+        const rotation = valSystem.getAttestationEngine().getRegistry().rotate(
+            req.params.id, req.body.replacement, parseDate(req.body.at, 'at'), res.locals.trustee
+        );
+        res.json(rotation);
+    } catch (error: any) {
+        if (error instanceof AttestorRegistryError) {
+            return res.status(attestorRegistryErrorStatus(error)).json({ error: error.message });
+        }
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/attestors/:id/retire   (trustee only)
+ * Body: { at?, signature, timestamp }: a past `at` disowns what the key signed after it;
+ * signature signs {action: 'retire_attestor', address: :id, at, timestamp}
+ */
+app.post('/api/attestors/:id/retire', requireTrustee('retire_attestor', ['at'], 'address'), (req, res) => {
+    try {
+        res.json(valSystem.getAttestationEngine().getRegistry().retire(req.params.id, parseDate(req.body.at, 'at')));
+    } catch (error: any) {
+        if (error instanceof AttestorRegistryError) {
+            return res.status(attestorRegistryErrorStatus(error)).json({ error: error.message });
+        }
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/attestations/:id
+ * An issued attestation with the event it attests
+ */
+app.get('/api/attestations/:id', async (req, res) => {
+    try {
+        const record = await valSystem.getAttestationStore().get(req.params.id);
+        if (!record) {
+            return res.status(404).json({ error: `Attestation ${req.params.id} not found` });
+        }
+        res.json(serializeBigInts(record));
+    } catch (error: any) {
+        console.error('Error fetching attestation:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/attestations/verify
+ * Body: { attestation, event } as returned by GET /api/attestations/:id (amount in micro-units as a string).
+ * Responds with the verdict: proof, each signature, registry membership at issue and clearing status.
+ */
+app.post('/api/attestations/verify', async (req, res) => {
+    try {
+        const attestation = attestationFromJson(req.body?.attestation);
+        const event = creditEventFromJson(req.body?.event);
+        res.json(serializeBigInts(await valSystem.getAttestationVerifier().verify(attestation, event)));
+    } catch (error: any) {
+        if (error instanceof AttestationFormatError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error verifying attestation:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
 /**
  * POST /api/spend
  * Authorize and Execute Spend
@@ -257,10 +903,13 @@ app.post('/api/spend', async (req, res) => {
             throw new Error('Missing cryptographic proof of intent (signature/timestamp)');
         }
 
+        // Currencies are part of the signed intent when present (omitted keys keep USD-only clients valid)
         const messageToVerify = JSON.stringify({
             userId: params.userId,
             amount: params.amount,
             merchant: params.merchant,
+            currency: params.currency,
+            fundingCurrency: params.fundingCurrency,
             timestamp: params.timestamp
         });
 
@@ -286,14 +935,36 @@ app.post('/api/spend', async (req, res) => {
         res.json(result);
     } catch (error: any) {
         console.error('Error processing obligation:', error);
-        res.status(400).json({ 
+        // Ledger rejections carry the precise clearing reason (insufficient_funds, account_not_found, ...)
+        const isClearingRejection = error instanceof ClearingRejectedError;
+        const status = isClearingRejection && error.reason === 'client_unavailable' ? 503 : 400;
+        res.status(status).json({ 
             success: false, 
             error: error.message,
+            reason: isClearingRejection ? error.reason : undefined,
+            detail: isClearingRejection ? error.detail : undefined,
+            failedLeg: isClearingRejection ? error.failedLeg : undefined,
             doctrine_violation: true 
         });
     }
 });
 
+/**
+ * GET /api/reconciliation?refresh=true
+ * Latest clearing-vs-mirror reconciliation report (runs one if none exists yet or refresh is set)
+ */
+app.get('/api/reconciliation', async (req, res) => {
+    try {
+        const reconciler = valSystem.getReconciler();
+        const report = req.query.refresh === 'true' || !reconciler.getLatestReport()
+            ? await reconciler.reconcile()
+            : reconciler.getLatestReport();
+        res.json(serializeBigInts(report));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
 /**
  * GET /api/narrative
  * Get all narrative entries (Audit Log)
@@ -307,6 +978,14 @@ app.get('/api/narrative', async (req, res) => {
     }
 });
 
+/**
+ * GET /api/narrative/feed
+ * Cursor and progress of the TigerBeetle change feed into the mirror
+ */
+app.get('/api/narrative/feed', (req, res) => {
+    res.json(serializeBigInts(valSystem.getChangeFeed().getStatus()));
+});
+
 /**
  * GET /api/adapters
  * Get registered adapters
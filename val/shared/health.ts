@@ -0,0 +1,184 @@
+// Connection Health - Liveness probes and reconnect backoff for backing services
+//
+// A component is only "up" when a real round trip succeeded within its timeout.
+// Each failure schedules a reconnect with exponential backoff; the next
+// successful probe resets it.
+
+export type ComponentState = 'unknown' | 'up' | 'degraded' | 'down';
+
+export interface ComponentHealth {
+  component: string;
+  state: ComponentState;
+  /** Round trip of the last probe, null before the first one */
+  latencyMs: number | null;
+  checkedAt: Date | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  /** Failed probes since the last success */
+  consecutiveFailures: number;
+  nextReconnectAt: Date | null;
+  details?: Record<string, unknown>;
+}
+
+/** What a probe found when the round trip itself succeeded */
+export interface ProbeOutcome {
+  /** Reachable but not fit for use (e.g. schema missing) */
+  degraded?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface BackoffOptions {
+  initialMs: number;
+  maxMs: number;
+  factor: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = { initialMs: 1_000, maxMs: 60_000, factor: 2 };
+export const DEFAULT_PROBE_TIMEOUT_MS = 2_000;
+
+export class ProbeTimeoutError extends Error {
+  constructor(public component: string, public timeoutMs: number) {
+    super(`${component} did not answer within ${timeoutMs}ms`);
+    this.name = 'ProbeTimeoutError';
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, component: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProbeTimeoutError(component, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Delay before reconnect attempt n (0-based) */
+export function backoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  return Math.min(options.maxMs, options.initialMs * options.factor ** attempt);
+}
+
+/**
+ * Tracks one component's health. After a failed probe it calls reconnect() and probes again,
+ * backing off between attempts until a probe succeeds or stop() is called.
+ */
+export class ConnectionMonitor {
+  private health: ComponentHealth;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    component: string,
+    private probe: () => Promise<ProbeOutcome | void>,
+    private reconnect: () => Promise<void>,
+    private options: { timeoutMs?: number; backoff?: BackoffOptions; onChange?: (health: ComponentHealth) => void } = {}
+  ) {
+    this.health = {
+      component,
+      state: 'unknown',
+      latencyMs: null,
+      checkedAt: null,
+      lastError: null,
+      lastErrorAt: null,
+      consecutiveFailures: 0,
+      nextReconnectAt: null,
+    };
+  }
+
+  /**
+   * Probe now and record the result.
+   */
+  async check(): Promise<ComponentHealth> {
+    const startedAt = Date.now();
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    const previous = this.health.state;
+    try {
+      const outcome = (await withTimeout(this.probe(), timeoutMs, this.health.component)) || {};
+      this.health.latencyMs = Date.now() - startedAt;
+      this.health.checkedAt = new Date();
+      this.health.details = outcome.details;
+      this.health.consecutiveFailures = 0;
+      this.cancelReconnect();
+      if (outcome.degraded) {
+        this.health.state = 'degraded';
+        this.recordError(outcome.degraded);
+      } else {
+        this.health.state = 'up';
+      }
+    } catch (error) {
+      this.health.latencyMs = Date.now() - startedAt;
+      this.health.checkedAt = new Date();
+      this.health.state = 'down';
+      this.health.consecutiveFailures++;
+      this.recordError(error instanceof Error ? error.message : String(error));
+      this.scheduleReconnect();
+    }
+    if (this.health.state !== previous) this.options.onChange?.(this.getHealth());
+    return this.getHealth();
+  }
+
+  /**
+   * Record a failure seen outside a probe (e.g. the initial connect) and start reconnecting.
+   */
+  markDown(error: unknown): void {
+    const previous = this.health.state;
+    this.health.state = 'down';
+    this.health.consecutiveFailures++;
+    this.recordError(error instanceof Error ? error.message : String(error));
+    this.scheduleReconnect();
+    if (previous !== 'down') this.options.onChange?.(this.getHealth());
+  }
+
+  getHealth(): ComponentHealth {
+    return { ...this.health };
+  }
+
+  stop(): void {
+    this.cancelReconnect();
+  }
+
+  private recordError(message: string): void {
+    this.health.lastError = message;
+    this.health.lastErrorAt = new Date();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.timer) return;
+    const delay = backoffDelay(this.health.consecutiveFailures - 1, this.options.backoff);
+    this.health.nextReconnectAt = new Date(Date.now() + delay);
+    this.timer = setTimeout(async () => {
+      this.timer = undefined;
+      this.health.nextReconnectAt = null;
+      try {
+        await this.reconnect();
+      } catch (error) {
+        this.recordError(error instanceof Error ? error.message : String(error));
+      }
+      await this.check();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private cancelReconnect(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.health.nextReconnectAt = null;
+  }
+}
+
+export const HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * 'active' only when every component is up. Clearing down means nothing can clear ('down');
+ * anything else short of up leaves the system serving in a reduced mode ('degraded').
+ */
+export type SystemStatus = 'active' | 'degraded' | 'down';
+
+export interface SystemHealth {
+  status: SystemStatus;
+  components: ComponentHealth[];
+}
+
+export function summarizeHealth(components: ComponentHealth[], critical: string[]): SystemHealth {
+  const status: SystemStatus = components.some(c => critical.includes(c.component) && c.state === 'down')
+    ? 'down'
+    : components.every(c => c.state === 'up') ? 'active' : 'degraded';
+  return { status, components };
+}
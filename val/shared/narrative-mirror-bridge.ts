@@ -98,6 +98,9 @@ export const NARRATIVE_ACCOUNTS = {
   HONORING_ADAPTER_STABLECOIN: 1010,
   HONORING_ADAPTER_ACH: 1050,
   HONORING_ADAPTER_CARD: 1060,
+
+  // Currency Exchange Liquidity (one account per ledger)
+  FX_LIQUIDITY: 1100,
   
   // Obligations (Observed Liabilities) - Matched to TIGERBEETLE_LEDGER_SCHEMA
   OBSERVED_AP: 2000,
@@ -0,0 +1,24 @@
+// Postgres connection settings shared by the Narrative Mirror and the clearing audit log
+
+import { PoolConfig } from 'pg';
+
+// An unreachable or stalled server fails a query after these, rather than holding up its caller
+const CONNECT_TIMEOUT_MS = 5_000;
+const QUERY_TIMEOUT_MS = 10_000;
+
+export function postgresConfigFromEnv(): PoolConfig {
+  const queryTimeout = parseInt(process.env.POSTGRES_QUERY_TIMEOUT_MS || `${QUERY_TIMEOUT_MS}`);
+  const timeouts: PoolConfig = {
+    connectionTimeoutMillis: parseInt(process.env.POSTGRES_CONNECT_TIMEOUT_MS || `${CONNECT_TIMEOUT_MS}`),
+    query_timeout: queryTimeout,
+    statement_timeout: queryTimeout,
+  };
+  return process.env.POSTGRES_URL ? { connectionString: process.env.POSTGRES_URL, ...timeouts } : {
+    ...timeouts,
+    user: process.env.POSTGRES_USER || 'sovr_admin',
+    password: process.env.POSTGRES_PASSWORD || 'sovereignty_is_mechanical',
+    host: process.env.POSTGRES_HOST || 'localhost',
+    port: parseInt(process.env.POSTGRES_PORT || '5432'),
+    database: process.env.POSTGRES_DB || 'sovr_narrative',
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { AccountFlags } from 'tigerbeetle-node';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { ACCOUNT_CLASS_FLAGS, referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { ACCOUNT_CODES, TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const DEPOSIT = { code: TRANSFER_CODES.DEPOSIT };
+const PAYMENT = { code: TRANSFER_CODES.PAYMENT };
+
+// Version 0 accounts exactly as they were provisioned before account classes
+const legacyAccount = (id: bigint) => ({
+  id,
+  debits_pending: 0n,
+  debits_posted: 0n,
+  credits_pending: 0n,
+  credits_posted: 0n,
+  user_data_128: 0n,
+  user_data_64: 0n,
+  user_data_32: 0,
+  reserved: 0,
+  ledger: 1,
+  code: 1,
+  flags: 0,
+  timestamp: 0n,
+});
+
+const legacyTransfer = (id: bigint, debit: bigint, credit: bigint, amount: bigint) => ({
+  id,
+  debit_account_id: debit,
+  credit_account_id: credit,
+  amount,
+  pending_id: 0n,
+  user_data_128: 0n,
+  user_data_64: 0n,
+  user_data_32: 0,
+  timeout: 0,
+  ledger: 1,
+  code: 1,
+  flags: 0,
+  timestamp: 0n,
+});
+
+describe('Account classes: ledger-enforced no-negative-balance', () => {
+  let ledger: InMemoryTigerBeetle;
+  let service: TigerBeetleService;
+
+  beforeEach(async () => {
+    ledger = new InMemoryTigerBeetle();
+    service = new TigerBeetleService({ client: ledger });
+  });
+
+  it('provisions reference and user accounts with their class flags and codes', async () => {
+    await service.initializeReferenceAccounts();
+    const userAccount = await service.ensureUserAccount('flags_tester');
+
+    const [odfi, source, user] = await ledger.lookupAccounts([ODFI, SOURCE, userAccount]);
+    assert.strictEqual(odfi.flags, ACCOUNT_CLASS_FLAGS.settlement);
+    assert.strictEqual(source.flags, ACCOUNT_CLASS_FLAGS.source);
+    assert.strictEqual(user.flags, AccountFlags.debits_must_not_exceed_credits | AccountFlags.history);
+    assert.deepStrictEqual([odfi.code, source.code, user.code], [ACCOUNT_CODES.MERCHANT, ACCOUNT_CODES.TREASURY, ACCOUNT_CODES.USER]);
+  });
+
+  it('rejects an overdraft in the ledger itself', async () => {
+    await service.initializeReferenceAccounts();
+    const userAccount = await service.ensureUserAccount('overdraft_tester');
+    await service.createTransfer(SOURCE, userAccount, 100n, 1, DEPOSIT, 7001n);
+
+    const spend = await service.createTransfer(userAccount, ODFI, 101n, 1, PAYMENT, 7002n);
+    assert.strictEqual(spend.ok, false);
+    assert.strictEqual(spend.reason, 'insufficient_funds');
+    assert.strictEqual(spend.detail, 'exceeds_credits');
+
+    const hold = await service.createPendingTransfer(userAccount, ODFI, 101n, 60, 1, PAYMENT, 7003n);
+    assert.strictEqual(hold.reason, 'insufficient_funds');
+
+    // Settlement accounts cannot pay out more than they realized either
+    const payout = await service.createTransfer(ODFI, SOURCE, 1n, 1, PAYMENT, 7004n);
+    assert.strictEqual(payout.reason, 'insufficient_funds');
+
+    assert.deepStrictEqual(await service.getUserBalance('overdraft_tester'), { accountId: userAccount, posted: 100n, pending: 0n });
+  });
+
+  it('migrates legacy reference accounts into flagged successors', async () => {
+    const legacyOdfi = referenceAccountId('HONORING_ADAPTER_ODFI', LEDGER_IDS.USD, 0);
+    const legacySource = referenceAccountId('OBSERVED_TOKEN_REALIZATION', LEDGER_IDS.USD, 0);
+    assert.strictEqual(legacyOdfi, 1000n);
+
+    await ledger.createAccounts([legacyAccount(legacyOdfi), legacyAccount(legacySource)]);
+    await ledger.createTransfers([legacyTransfer(1n, legacySource, legacyOdfi, 500n)]);
+
+    await service.initializeReferenceAccounts();
+
+    assert.deepStrictEqual(await service.getLedgerBalance(ODFI), { accountId: ODFI, posted: 500n, pending: 0n });
+    assert.deepStrictEqual(await service.getLedgerBalance(SOURCE), { accountId: SOURCE, posted: -500n, pending: 0n });
+
+    const [odfi, source] = await ledger.lookupAccounts([legacyOdfi, legacySource]);
+    assert.ok(odfi.flags & AccountFlags.closed, 'legacy ODFI account should be closed');
+    assert.ok(source.flags & AccountFlags.closed, 'legacy source account should be closed');
+
+    const rerun = await service.migrateLegacyAccount(legacyOdfi, ODFI);
+    assert.strictEqual(rerun.status, 'already_migrated');
+  });
+
+  it('migrates every older version, tagging the sweep as a migration', async () => {
+    const v1Odfi = referenceAccountId('HONORING_ADAPTER_ODFI', LEDGER_IDS.EUR, 1);
+    const v1Source = referenceAccountId('OBSERVED_TOKEN_REALIZATION', LEDGER_IDS.EUR, 1);
+    const v1 = (id: bigint, flags: number) => ({ ...legacyAccount(id), ledger: LEDGER_IDS.EUR, flags });
+    await ledger.createAccounts([v1(v1Odfi, ACCOUNT_CLASS_FLAGS.settlement), v1(v1Source, ACCOUNT_CLASS_FLAGS.source)]);
+    await ledger.createTransfers([{ ...legacyTransfer(4n, v1Source, v1Odfi, 40n), ledger: LEDGER_IDS.EUR }]);
+
+    await service.initializeReferenceAccounts();
+
+    const odfi = referenceAccountId('HONORING_ADAPTER_ODFI', LEDGER_IDS.EUR);
+    assert.deepStrictEqual(await service.getLedgerBalance(odfi), { accountId: odfi, posted: 40n, pending: 0n });
+    const [sweep] = await service.getAccountTransfers(odfi);
+    assert.strictEqual(sweep.code, TRANSFER_CODES.ACCOUNT_MIGRATION);
+  });
+
+  it('refuses to carry a legacy balance that breaks the class rule', async () => {
+    const legacyOdfi = referenceAccountId('HONORING_ADAPTER_ODFI', LEDGER_IDS.USD, 0);
+    const legacyAp = referenceAccountId('OBSERVED_AP', LEDGER_IDS.USD, 0);
+    await ledger.createAccounts([legacyAccount(legacyOdfi), legacyAccount(legacyAp)]);
+    // Overdrawn settlement account: only possible without flags
+    await ledger.createTransfers([legacyTransfer(2n, legacyOdfi, legacyAp, 50n)]);
+
+    await service.initializeReferenceAccounts();
+
+    const retry = await service.migrateLegacyAccount(legacyOdfi, ODFI);
+    assert.strictEqual(retry.status, 'failed');
+    const [odfi] = await ledger.lookupAccounts([legacyOdfi]);
+    assert.strictEqual(odfi.flags & AccountFlags.closed, 0, 'legacy account stays open for manual correction');
+  });
+
+  it('migrates a legacy user account on first use', async () => {
+    const legacyUser = service['legacyUserAccountIds']('legacy_user', LEDGER_IDS.USD).slice(-1)[0];
+    const legacySource = referenceAccountId('OBSERVED_TOKEN_REALIZATION', LEDGER_IDS.USD, 0);
+    await ledger.createAccounts([{ ...legacyAccount(legacyUser), code: 2 }, legacyAccount(legacySource)]);
+    await ledger.createTransfers([legacyTransfer(3n, legacySource, legacyUser, 75n)]);
+
+    const before = await service.getUserBalance('legacy_user');
+    assert.strictEqual(before.posted, 75n);
+
+    const userAccount = await service.ensureUserAccount('legacy_user');
+    assert.deepStrictEqual(await service.getUserBalance('legacy_user'), { accountId: userAccount, posted: 75n, pending: 0n });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { AccountRegistryStore, RegisteredAccount } from '../clearing/tigerbeetle/registry';
+
+// Stands in for the tigerbeetle_accounts table: one row per account id, last write wins
+class TableStore implements AccountRegistryStore {
+  rows: Map<bigint, RegisteredAccount> = new Map();
+
+  async load(): Promise<RegisteredAccount[]> {
+    return Array.from(this.rows.values()).map(row => ({ ...row }));
+  }
+
+  async save(account: RegisteredAccount): Promise<void> {
+    this.rows.set(account.accountId, { ...account });
+  }
+}
+
+describe('Account registry persistence', () => {
+  let ledger: InMemoryTigerBeetle;
+  let store: TableStore;
+  let service: TigerBeetleService;
+
+  beforeEach(async () => {
+    ledger = new InMemoryTigerBeetle();
+    store = new TableStore();
+    service = new TigerBeetleService({ client: ledger, registryStore: store });
+    await service.initializeReferenceAccounts();
+  });
+
+  it('writes reference and member accounts through to the store', async () => {
+    const member = await service.provisionAccount({ owner: 'member', name: 'Household Account', metadata: { household: 'h-1' } });
+    await service.getRegistry().flush();
+
+    const row = store.rows.get(member.accountId)!;
+    assert.deepStrictEqual(
+      [row.kind, row.owner, row.accountClass, row.name, row.metadata],
+      ['user', 'member', 'entitlement', 'Household Account', { household: 'h-1' }]
+    );
+    const odfi = store.rows.get(referenceAccountId('HONORING_ADAPTER_ODFI'))!;
+    assert.deepStrictEqual([odfi.kind, odfi.name], ['reference', 'HONORING ADAPTER ODFI']);
+    assert.strictEqual(typeof odfi.metadata?.chartNumber, 'number');
+  });
+
+  it('brings back names, reserves and statuses after a restart', async () => {
+    const member = await service.provisionAccount({ owner: 'member', name: 'Household Account' });
+    await service.setReserveThreshold(member.accountId, 25n);
+    await service.freezeAccount(member.accountId);
+    await service.getRegistry().flush();
+
+    const restarted = new TigerBeetleService({ client: ledger, registryStore: store });
+    await restarted.initializeReferenceAccounts();
+    await restarted.ensureUserAccount('member');
+
+    const reloaded = restarted.getRegistry().get(member.accountId)!;
+    assert.deepStrictEqual(
+      [reloaded.name, reloaded.reserve, reloaded.status],
+      ['Household Account', 25n, 'frozen']
+    );
+  });
+
+  it('lists accounts by kind, class, owner and ledger', async () => {
+    await service.provisionAccount({ owner: 'alice' });
+    await service.provisionAccount({ owner: 'alice', ledger: LEDGER_IDS.EUR });
+    await service.provisionAccount({ owner: 'bob' });
+    const registry = service.getRegistry();
+
+    assert.deepStrictEqual(registry.list({ owner: 'alice' }).map(a => a.ledger).sort(), [LEDGER_IDS.USD, LEDGER_IDS.EUR].sort());
+    assert.strictEqual(registry.list({ kind: 'user', ledger: LEDGER_IDS.USD }).length, 2);
+    assert.ok(registry.list({ kind: 'reference' }).every(a => a.accountClass !== 'entitlement'));
+    assert.deepStrictEqual(registry.list({ accountClass: 'entitlement', ledger: LEDGER_IDS.EUR }).map(a => a.owner), ['alice']);
+    assert.strictEqual(registry.list({ owner: 'alice' })[0].name, 'alice');
+  });
+});
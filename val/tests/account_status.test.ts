@@ -0,0 +1,162 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { AccountFlags } from 'tigerbeetle-node';
+import { SpendEngine, AccountClosedError } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { EventLogger } from '../events/logger';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { CreditEvent, CreditEventType } from '../events/types';
+import { AccountStatusError } from '../clearing/tigerbeetle/registry';
+import { ExchangeRateTable } from '../clearing/tigerbeetle/exchange';
+import { IMerchantValueAdapter } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const USD = LEDGER_IDS.USD;
+const EUR = LEDGER_IDS.EUR;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const PAYMENT = { code: TRANSFER_CODES.PAYMENT };
+
+// Fails the test if a spend from a frozen account ever reaches the merchant
+const unreachableAdapter: IMerchantValueAdapter = {
+  name: 'Unreachable Adapter',
+  type: 'square',
+  enabled: true,
+  issueValue: async () => assert.fail('value issued for a frozen account'),
+  checkStatus: async () => assert.fail('unexpected status check'),
+  handleWebhook: async () => assert.fail('unexpected webhook'),
+  validateConfig: async () => true,
+};
+
+describe('Account freeze, unfreeze and close', () => {
+  let ledger: InMemoryTigerBeetle;
+  let service: TigerBeetleService;
+  let member: bigint;
+
+  beforeEach(async () => {
+    ledger = new InMemoryTigerBeetle();
+    service = new TigerBeetleService({ client: ledger });
+    await service.initializeReferenceAccounts();
+    member = await service.ensureUserAccount('member');
+    await service.createTransfer(SOURCE, member, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+  });
+
+  it('freezes an account in the ledger and lifts the freeze', async () => {
+    const frozen = await service.freezeAccount(member);
+    assert.strictEqual(frozen.status, 'frozen');
+    assert.strictEqual(service.getRegistry().get(member)!.status, 'frozen');
+
+    const spend = await service.createTransfer(member, ODFI, 10n, USD, PAYMENT, 2n);
+    assert.strictEqual(spend.reason, 'account_closed');
+    assert.strictEqual(spend.detail, 'debit_account_already_closed');
+
+    const unfrozen = await service.unfreezeAccount(member);
+    assert.strictEqual(unfrozen.status, 'active');
+    const retry = await service.createTransfer(member, ODFI, 10n, USD, PAYMENT, 3n);
+    assert.strictEqual(retry.reason, 'created');
+  });
+
+  it('closes an account by sweeping its balance to the control account', async () => {
+    await service.freezeAccount(member);
+    const closed = await service.closeAccount(member);
+
+    assert.strictEqual(closed.status, 'closed');
+    assert.strictEqual(closed.swept, 100n);
+    assert.deepStrictEqual(await service.getUserBalance('member'), { accountId: member, posted: 0n, pending: 0n });
+    assert.strictEqual(await service.getAccountBalance(SOURCE), 0n);
+    await assert.rejects(service.unfreezeAccount(member), AccountStatusError);
+  });
+
+  it('refuses status changes for reference accounts and invalid transitions', async () => {
+    await assert.rejects(service.freezeAccount(ODFI), (error: AccountStatusError) => error.status === 'unregistered');
+    await assert.rejects(service.unfreezeAccount(member), (error: AccountStatusError) => error.status === 'active');
+  });
+
+  it('recovers a frozen status from the ledger after a restart', async () => {
+    await service.freezeAccount(member);
+
+    const restarted = new TigerBeetleService({ client: ledger });
+    assert.strictEqual(await restarted.ensureUserAccount('member'), member);
+    assert.strictEqual(restarted.getRegistry().get(member)!.status, 'frozen');
+    const [account] = await ledger.lookupAccounts([member]);
+    assert.ok(account.flags & AccountFlags.closed);
+
+    await restarted.unfreezeAccount(member);
+    assert.strictEqual((await ledger.lookupAccounts([member]))[0].flags & AccountFlags.closed, 0);
+  });
+
+  it('freezes every ledger account of the member together', async () => {
+    const eur = await service.ensureUserAccount('member', EUR);
+    await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION', EUR), eur, 50n, EUR, { code: TRANSFER_CODES.DEPOSIT }, 4n);
+
+    const frozen = await service.freezeAccount(member);
+    assert.deepStrictEqual(frozen.accountIds, [member, eur]);
+    assert.strictEqual(service.getRegistry().get(eur)!.status, 'frozen');
+    assert.strictEqual(service.memberStatus('member'), 'frozen');
+    const spend = await service.createTransfer(eur, referenceAccountId('HONORING_ADAPTER_ODFI', EUR), 10n, EUR, PAYMENT, 5n);
+    assert.strictEqual(spend.reason, 'account_closed');
+
+    await service.unfreezeAccount(eur);
+    assert.strictEqual(service.getRegistry().get(member)!.status, 'active');
+    assert.strictEqual(service.getRegistry().get(eur)!.status, 'active');
+  });
+
+  it('closes every ledger account of the member together', async () => {
+    const eur = await service.ensureUserAccount('member', EUR);
+    await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION', EUR), eur, 50n, EUR, { code: TRANSFER_CODES.DEPOSIT }, 4n);
+
+    const closed = await service.closeAccount(member);
+    assert.strictEqual(closed.swept, 100n);
+    assert.strictEqual(service.getRegistry().get(eur)!.status, 'closed');
+    assert.strictEqual((await service.getLedgerBalance(eur))!.posted, 0n);
+  });
+
+  it('opens no new ledger accounts for a frozen member', async () => {
+    await service.freezeAccount(member);
+
+    await assert.rejects(
+      service.ensureUserAccount('member', EUR),
+      (error: AccountStatusError) => error.operation === 'open' && error.status === 'frozen'
+    );
+    assert.strictEqual(service.getRegistry().get(service.userAccountId('member', EUR)), undefined);
+  });
+
+  it("rejects a frozen member's spend funded from another currency", async () => {
+    const eur = await service.ensureUserAccount('member', EUR);
+    await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION', EUR), eur, 50_000000n, EUR, { code: TRANSFER_CODES.DEPOSIT }, 4n);
+    const engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), new EventLogger(), service, new ExchangeRateTable({ EUR: '0.92' }));
+    engine.registerAdapter(unreachableAdapter);
+    await service.freezeAccount(member);
+
+    await assert.rejects(
+      engine.spendCredit({ userId: 'member', merchant: 'square', amount: 5, currency: 'USD', fundingCurrency: 'EUR', metadata: {} }),
+      (error: AccountClosedError) => error instanceof AccountClosedError && error.status === 'frozen'
+    );
+    assert.strictEqual((await service.getLedgerBalance(eur))!.pending, 0n);
+  });
+
+  it('refuses to finalize a clearing for a frozen member', async () => {
+    const attestor = new AttestationEngine(TEST_ADMIN_KEY);
+    const engine = new SpendEngine(attestor, new EventLogger(), service);
+    await service.freezeAccount(member);
+
+    const event: CreditEvent = { id: 'evt_frozen_finalize', type: CreditEventType.SPEND_AUTHORIZED, userId: 'member', amount: 5n, timestamp: new Date(), metadata: {} };
+    await assert.rejects(engine.finalize(event, await attestor.attest(event)), AccountClosedError);
+    assert.strictEqual((await service.getUserBalance('member')).posted, 100n);
+  });
+
+  it('rejects spends from a frozen member with a clear error', async () => {
+    const engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), new EventLogger(), service);
+    engine.registerAdapter(unreachableAdapter);
+    await service.freezeAccount(member);
+
+    await assert.rejects(
+      engine.spendCredit({ userId: 'member', merchant: 'square', amount: 5, metadata: {} }),
+      (error: AccountClosedError) => error instanceof AccountClosedError && error.status === 'frozen'
+    );
+  });
+});
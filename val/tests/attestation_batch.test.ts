@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { id, verifyTypedData } from 'ethers';
+import { AttestationEngine, CREDIT_ATTESTATION_TYPES, creditAttestationValue } from '../core/attestation';
+import { MerkleTree, verifyMerkleProof } from '../core/merkle';
+import { CreditEvent, CreditEventType } from '../events/types';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const event = (n: number): CreditEvent => ({
+  id: `evt_${n}`,
+  type: CreditEventType.SPEND_AUTHORIZED,
+  userId: `member_${n % 7}`,
+  amount: BigInt(n) * 1_000_000n,
+  timestamp: new Date(1_700_000_000_000 + n),
+  metadata: {},
+});
+
+describe('Merkle tree', () => {
+  it('proves every leaf of an unbalanced tree and nothing else', () => {
+    const leaves = Array.from({ length: 13 }, (_, i) => id(`leaf_${i}`));
+    const tree = new MerkleTree(leaves);
+
+    leaves.forEach((leaf, i) => assert.ok(verifyMerkleProof(leaf, tree.proof(i), tree.root), `leaf ${i}`));
+    assert.strictEqual(verifyMerkleProof(id('stranger'), tree.proof(0), tree.root), false);
+    assert.strictEqual(verifyMerkleProof(leaves[1], tree.proof(0), tree.root), false);
+    assert.strictEqual(new MerkleTree([leaves[0]]).root, leaves[0]);
+    assert.throws(() => tree.proof(13), RangeError);
+  });
+});
+
+describe('Batched attestations', () => {
+  it('covers a whole batch with one signature over the root', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 10 });
+    const events = Array.from({ length: 1000 }, (_, i) => event(i));
+
+    const attestations = await Promise.all(events.map(e => engine.attest(e)));
+
+    const [first] = attestations;
+    assert.strictEqual(new Set(attestations.map(a => a.signature)).size, 1);
+    assert.strictEqual(new Set(attestations.map(a => a.proof.merkleRoot)).size, 1);
+    assert.strictEqual(first.proof.batchSize, 1000);
+    assert.strictEqual(first.proof.merkleProof.length, 10); // ceil(log2(1000))
+    assert.strictEqual(
+      verifyTypedData(engine.getDomain(), CREDIT_ATTESTATION_TYPES, creditAttestationValue(first), first.signature),
+      first.attestor
+    );
+    for (const [i, attestation] of attestations.entries()) {
+      assert.strictEqual(attestation.proof.leafIndex, i);
+      assert.ok(await engine.verify(attestation, events[i]));
+    }
+  });
+
+  it('seals a full batch without waiting for the window', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 60_000, maxBatchSize: 4 });
+    const attestations = await Promise.all([1, 2, 3, 4].map(n => engine.attest(event(n))));
+    assert.ok(attestations.every(a => a.proof.batchSize === 4));
+    assert.strictEqual(await engine.flush(), null);
+  });
+
+  it('rejects an event that is not the one at the end of the proof path', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 10 });
+    const [a, b] = await Promise.all([engine.attest(event(1)), engine.attest(event(2))]);
+
+    assert.strictEqual(await engine.verify(a, { ...event(1), amount: 2_000_000n }), false);
+    assert.strictEqual(await engine.verify(a, event(2)), false);
+    // Another event's hash and nonce do not lead along this path
+    assert.strictEqual(await engine.verify({ ...b, proof: { ...b.proof, merkleProof: a.proof.merkleProof } }, event(2)), false);
+    // A proof path for a different root is refused by the signature
+    const other = await engine.attest(event(3));
+    assert.strictEqual(await engine.verify({ ...other, signatures: a.signatures }, event(3)), false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { TypedDataEncoder, Wallet, hexlify, id, randomBytes } from 'ethers';
+import {
+  ATTESTATION_DOMAIN_NAME,
+  ATTESTATION_DOMAIN_VERSION,
+  AttestationEngine,
+  CREDIT_ATTESTATION_TYPES,
+  creditAttestationValue,
+} from '../core/attestation';
+import { verifyLegacyAttestation } from '../core/attestation_legacy';
+import { MerkleTree, merkleLeaf } from '../core/merkle';
+import { Attestation, CreditEvent, CreditEventType } from '../events/types';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const VERIFYING_CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const DOMAIN = { chainId: 31337n, verifyingContract: VERIFYING_CONTRACT };
+
+const event: CreditEvent = {
+  id: 'evt_typed',
+  type: CreditEventType.SPEND_AUTHORIZED,
+  userId: 'member',
+  amount: 25_000_000n,
+  timestamp: new Date('2026-01-15T12:00:00.000Z'),
+  metadata: {},
+};
+
+const eventHash = (e: CreditEvent) => id(JSON.stringify({
+  id: e.id, type: e.type, userId: e.userId, amount: e.amount.toString(), timestamp: e.timestamp.toISOString(),
+}));
+
+describe('EIP-712 attestations', () => {
+  it('signs a CreditAttestation under the configured domain', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 1, domain: DOMAIN });
+    const attestation = await engine.attest(event);
+
+    assert.strictEqual(attestation.scheme, 'eip712');
+    assert.deepStrictEqual(engine.getDomain(), {
+      name: ATTESTATION_DOMAIN_NAME, version: ATTESTATION_DOMAIN_VERSION, chainId: 31337n, verifyingContract: VERIFYING_CONTRACT,
+    });
+    // The digest a wallet or contract computes from the same typed data recovers the attestor
+    const digest = TypedDataEncoder.hash(engine.getDomain(), CREDIT_ATTESTATION_TYPES, creditAttestationValue(attestation));
+    assert.strictEqual(new Wallet(TEST_ADMIN_KEY).signingKey.sign(digest).serialized, attestation.signature);
+    assert.ok(await engine.verify(attestation, event));
+  });
+
+  it('refuses signatures from another chain, contract or domain version', async () => {
+    const attestation = await new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 1, domain: DOMAIN }).attest(event);
+
+    for (const domain of [{ chainId: 1n }, { verifyingContract: '0x0000000000000000000000000000000000000001' }, { version: '2' }]) {
+      const verifier = new AttestationEngine(TEST_ADMIN_KEY, { domain: { ...DOMAIN, ...domain } });
+      assert.strictEqual(await verifier.verify(attestation, event), false, JSON.stringify(domain, (_, v) => typeof v === 'bigint' ? v.toString() : v));
+    }
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { domain: DOMAIN });
+    assert.strictEqual(await engine.verify({ ...attestation, timestamp: new Date(attestation.timestamp.getTime() + 1) }, event), false);
+  });
+});
+
+describe('Legacy attestations', () => {
+  const wallet = new Wallet(TEST_ADMIN_KEY);
+
+  it('verifies per-event attestations signed over JSON', async () => {
+    const hash = eventHash(event);
+    const nonce = hexlify(randomBytes(32));
+    const merkleRoot = id(`${hash}${nonce}`);
+    const signature = await wallet.signMessage(JSON.stringify({
+      eventId: event.id, userId: event.userId, amount: event.amount.toString(), type: event.type, merkleRoot,
+      timestamp: event.timestamp.toISOString(),
+    }));
+    const stored: Attestation = {
+      id: id(`${event.id}-1`), eventId: event.id, signature, attestor: wallet.address, timestamp: new Date(),
+      proof: { merkleRoot, merkleProof: [], eventHash: hash, nonce },
+    };
+
+    assert.ok(verifyLegacyAttestation(stored, event));
+    assert.strictEqual(verifyLegacyAttestation(stored, { ...event, amount: 26_000_000n }), false);
+    // The typed-data verifier does not accept the old format
+    assert.strictEqual(await new AttestationEngine(TEST_ADMIN_KEY).verify(stored, event), false);
+  });
+
+  it('verifies batch attestations signed over JSON', async () => {
+    const hash = eventHash(event);
+    const nonce = hexlify(randomBytes(32));
+    const tree = new MerkleTree([merkleLeaf(hash, nonce), id('other event')]);
+    const batchId = id(`${tree.root}-1`);
+    const signature = await wallet.signMessage(JSON.stringify({ batchId, merkleRoot: tree.root, size: 2 }));
+    const stored: Attestation = {
+      id: id(`${event.id}-${batchId}`), eventId: event.id, signature, attestor: wallet.address, timestamp: new Date(),
+      proof: { merkleRoot: tree.root, merkleProof: tree.proof(0), eventHash: hash, nonce, batchId, batchSize: 2, leafIndex: 0 },
+    };
+
+    assert.ok(verifyLegacyAttestation(stored, event));
+    assert.strictEqual(verifyLegacyAttestation({ ...stored, proof: { ...stored.proof, batchSize: 3 } }, event), false);
+
+    const current = await new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 1 }).attest(event);
+    assert.strictEqual(verifyLegacyAttestation(current, event), false);
+  });
+});
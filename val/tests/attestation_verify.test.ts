@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { Wallet } from 'ethers';
+import { AttestationEngine } from '../core/attestation';
+import { AttestorRegistry } from '../core/attestor_registry';
+import { AttestationFormatError, InMemoryAttestationStore, attestationFromJson, creditEventFromJson } from '../core/attestation_store';
+import { AttestationVerifier } from '../core/attestation_verifier';
+import { CreditEvent, CreditEventType } from '../events/types';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService, eventRefFor } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADMIN = new Wallet(TEST_ADMIN_KEY).address;
+const USD = LEDGER_IDS.USD;
+
+const event = (id: string): CreditEvent => ({
+  id,
+  type: CreditEventType.SPEND_AUTHORIZED,
+  userId: 'member',
+  amount: 40_000_000n,
+  timestamp: new Date('2026-04-01T00:00:00.000Z'),
+  metadata: { merchant: 'square', currency: 'USD' },
+});
+
+// JSON as it travels through the API
+const overTheWire = (value: unknown) => JSON.parse(JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v));
+
+async function setup() {
+  const service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+  await service.initializeReferenceAccounts();
+  const member = await service.ensureUserAccount('member');
+  await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION'), member, 100_000_000n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+  const store = new InMemoryAttestationStore();
+  const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 1, store });
+  return { service, member, store, engine, verifier: new AttestationVerifier(engine, service) };
+}
+
+describe('Attestation store', () => {
+  it('keeps each issued attestation with its event and survives a JSON round trip', async () => {
+    const { store, engine } = await setup();
+    const attested = event('evt_stored');
+    const attestation = await engine.attest(attested);
+
+    const record = (await store.get(attestation.id))!;
+    assert.deepStrictEqual([record.attestation, record.event], [attestation, attested]);
+    assert.strictEqual(await store.get('0xunknown'), null);
+
+    const wire = overTheWire(record);
+    const [fromWire, eventFromWire] = [attestationFromJson(wire.attestation), creditEventFromJson(wire.event)];
+    assert.deepStrictEqual([fromWire, eventFromWire], [attestation, attested]);
+    assert.ok(await engine.verify(fromWire, eventFromWire));
+  });
+
+  it('refuses JSON that is not an attestation or event', () => {
+    assert.throws(() => attestationFromJson({ id: '0x1' }), AttestationFormatError);
+    assert.throws(() => attestationFromJson({ id: '0x1', eventId: 'e', timestamp: 'soon', proof: { merkleRoot: '0x' } }), AttestationFormatError);
+    assert.throws(() => creditEventFromJson({ ...overTheWire(event('e')), amount: '1.5' }), AttestationFormatError);
+  });
+});
+
+describe('Attestation verdict', () => {
+  it('follows the event through TigerBeetle from not found to posted', async () => {
+    const { service, member, engine, verifier } = await setup();
+    const attested = event('evt_cleared');
+    const attestation = await engine.attest(attested);
+    const ref = eventRefFor(attested.id);
+
+    const unseen = await verifier.verify(attestation, attested);
+    assert.strictEqual(unseen.valid, true);
+    assert.deepStrictEqual(unseen.clearing, { status: 'not_found', transferId: ref });
+    assert.deepStrictEqual(unseen.signatures, [
+      { attestor: ADMIN, signatureValid: true, registered: true, role: 'issuer', activeAtIssue: true, counted: true },
+    ]);
+
+    const details = { code: TRANSFER_CODES.PAYMENT, eventRef: ref };
+    await service.createPendingTransfer(member, referenceAccountId('HONORING_ADAPTER_ODFI'), attested.amount, 60, USD, details, ref);
+    assert.strictEqual((await verifier.verify(attestation, attested)).clearing.status, 'pending');
+    await service.postPendingTransfer(ref, eventRefFor(`${attested.id}:post`));
+    assert.strictEqual((await verifier.verify(attestation, attested)).clearing.status, 'posted');
+  });
+
+  it('reports a tampered event and a signer outside the registry separately', async () => {
+    const { engine, verifier } = await setup();
+    const attested = event('evt_detail');
+    const attestation = await engine.attest(attested);
+
+    const tampered = await verifier.verify(attestation, { ...attested, amount: 41_000_000n });
+    assert.deepStrictEqual([tampered.valid, tampered.proof.valid, tampered.proof.eventMatches], [false, false, true]);
+
+    // Signed by a key that is valid cryptographically but was never registered with this verifier
+    const outsider = new AttestationEngine(Wallet.createRandom().privateKey, { windowMs: 1 });
+    const foreign = await outsider.attest(attested);
+    const verdict = await verifier.verify(foreign, attested);
+    assert.deepStrictEqual(
+      [verdict.valid, verdict.proof.valid, verdict.quorum.met, verdict.quorum.missing],
+      [false, true, false, [ADMIN]]
+    );
+    assert.deepStrictEqual(
+      [verdict.signatures[0].signatureValid, verdict.signatures[0].registered, verdict.signatures[0].counted],
+      [true, false, false]
+    );
+  });
+
+  it('reports a rotated-out signer as registered but not active at issue', async () => {
+    const { service, engine } = await setup();
+    const attested = event('evt_rotated');
+    const attestation = await engine.attest(attested);
+    const registry = new AttestorRegistry();
+    registry.register({ address: ADMIN, role: 'issuer', activeFrom: new Date(0), activeUntil: new Date(attestation.timestamp.getTime() - 1) });
+
+    const verifier = new AttestationVerifier(new AttestationEngine(TEST_ADMIN_KEY, { registry }), service);
+    const { valid, signatures } = await verifier.verify(attestation, attested);
+    assert.strictEqual(valid, false);
+    assert.deepStrictEqual(
+      [signatures[0].signatureValid, signatures[0].registered, signatures[0].activeAtIssue],
+      [true, true, false]
+    );
+  });
+});
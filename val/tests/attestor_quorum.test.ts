@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { Wallet } from 'ethers';
+import { AttestationEngine, AttestationQuorumError } from '../core/attestation';
+import { InvalidAttestationError, SpendEngine } from '../core/spend_engine';
+import { EventLogger } from '../events/logger';
+import { CreditEvent, CreditEventType } from '../events/types';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+
+// Hardhat accounts #0-#2
+const KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+];
+const [A, B, C] = KEYS.map(key => new Wallet(key).address);
+const QUORUM = { attestors: [A, B, C], threshold: 2, windowMs: 1 };
+
+const event: CreditEvent = {
+  id: 'evt_quorum',
+  type: CreditEventType.SPEND_AUTHORIZED,
+  userId: 'member',
+  amount: 5_000_000n,
+  timestamp: new Date('2026-02-01T00:00:00.000Z'),
+  metadata: {},
+};
+
+describe('Attestor quorum', () => {
+  it('reports who signed and who is missing until the threshold is reached', async () => {
+    const first = new AttestationEngine(KEYS[0], QUORUM);
+    const second = new AttestationEngine(KEYS[1], QUORUM);
+
+    const attestation = await first.attest(event);
+    const partial = await first.verifyQuorum(attestation, event);
+    assert.deepStrictEqual(
+      [partial.valid, partial.proofValid, partial.threshold, partial.signed, partial.missing],
+      [false, true, 2, [A], [B, C]]
+    );
+    assert.strictEqual(await first.verify(attestation, event), false);
+
+    const countersigned = await second.countersign(attestation);
+    assert.deepStrictEqual(countersigned.signatures!.map(s => s.attestor), [A, B]);
+    const quorum = await first.verifyQuorum(countersigned, event);
+    assert.deepStrictEqual([quorum.valid, quorum.signed, quorum.missing, quorum.rejected], [true, [A, B], [C], []]);
+
+    // Signing twice with the same key adds nothing
+    assert.strictEqual((await second.countersign(countersigned)).signatures!.length, 2);
+  });
+
+  it('meets the threshold alone when the engine holds enough keys', async () => {
+    const engine = new AttestationEngine(KEYS.slice(0, 2), QUORUM);
+    const attestation = await engine.attest(event);
+    assert.strictEqual(attestation.signatures!.length, 2);
+    assert.ok(await engine.verify(attestation, event));
+  });
+
+  it('does not count outsiders or signatures claimed for someone else', async () => {
+    const engine = new AttestationEngine(KEYS[0], QUORUM);
+    const outsider = new AttestationEngine(Wallet.createRandom().privateKey, { windowMs: 1 });
+    const attestation = await engine.attest(event);
+
+    const withOutsider = await outsider.countersign(attestation);
+    const forged = {
+      ...attestation,
+      signatures: [...attestation.signatures!, { attestor: B, signature: withOutsider.signatures![1].signature }],
+    };
+
+    const outsiderReport = await engine.verifyQuorum(withOutsider, event);
+    assert.deepStrictEqual([outsiderReport.valid, outsiderReport.signed, outsiderReport.rejected.length], [false, [A], 1]);
+    const forgedReport = await engine.verifyQuorum(forged, event);
+    assert.deepStrictEqual([forgedReport.valid, forgedReport.signed, forgedReport.missing], [false, [A], [B, C]]);
+  });
+
+  it('refuses a threshold it cannot reach and keys outside the attestor set', () => {
+    assert.throws(() => new AttestationEngine(KEYS[0], { attestors: [A, B], threshold: 3 }), AttestationQuorumError);
+    assert.throws(() => new AttestationEngine(KEYS[2], { attestors: [A, B] }), AttestationQuorumError);
+    assert.deepStrictEqual(new AttestationEngine(KEYS[0], { attestors: [A, B, C] }).getQuorum(), { attestors: [A, B, C], threshold: 2 });
+  });
+
+  it('keeps the SpendEngine from acting on an attestation short of the quorum', async () => {
+    const service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    const spendEngine = new SpendEngine(new AttestationEngine(KEYS[0], QUORUM), new EventLogger(), service);
+
+    await assert.rejects(
+      spendEngine.spendCredit({ userId: 'member', merchant: 'square', amount: 5, metadata: {} }),
+      (error: Error) => error instanceof InvalidAttestationError && /quorum not met: 1 of 2 .*missing .*0x70997970/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { Wallet } from 'ethers';
+import { AttestationEngine, AttestationQuorumError } from '../core/attestation';
+import { AttestorRegistry, AttestorRegistryError, AttestorRegistryStore, RegisteredAttestor } from '../core/attestor_registry';
+import { CreditEvent, CreditEventType } from '../events/types';
+
+// Hardhat accounts #0-#1
+const KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+];
+const [A, B] = KEYS.map(key => new Wallet(key).address);
+
+const event: CreditEvent = {
+  id: 'evt_registry',
+  type: CreditEventType.SPEND_AUTHORIZED,
+  userId: 'member',
+  amount: 5_000_000n,
+  timestamp: new Date('2026-03-01T00:00:00.000Z'),
+  metadata: {},
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Attestor registry', () => {
+  it('keeps each key active over its own half-open window across a rotation', () => {
+    const registry = new AttestorRegistry();
+    registry.register({ address: A.toLowerCase(), role: 'issuer', activeFrom: new Date(1_000) });
+    const { retired, replacement } = registry.rotate(A, B, new Date(2_000), 'trustee');
+
+    assert.deepStrictEqual([retired.activeUntil, retired.replacedBy], [new Date(2_000), B]);
+    assert.deepStrictEqual([replacement.role, replacement.activeFrom, replacement.registeredBy], ['issuer', new Date(2_000), 'trustee']);
+    assert.deepStrictEqual(registry.activeAt(new Date(999)), []);
+    assert.deepStrictEqual(registry.activeAt(new Date(1_999)), [A]);
+    assert.deepStrictEqual(registry.activeAt(new Date(2_000)), [B]);
+    assert.deepStrictEqual(registry.list().map(a => a.address), [A, B]);
+  });
+
+  it('refuses re-registration, double retirement and unknown or malformed keys', () => {
+    const registry = new AttestorRegistry();
+    registry.register({ address: A, role: 'issuer', activeFrom: new Date(1_000) });
+    const reason = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        assert.ok(error instanceof AttestorRegistryError);
+        return error.reason;
+      }
+      assert.fail('expected an AttestorRegistryError');
+    };
+
+    assert.strictEqual(reason(() => registry.register({ address: A, role: 'cosigner' })), 'conflict');
+    assert.strictEqual(reason(() => registry.register({ address: 'not-an-address', role: 'cosigner' })), 'invalid');
+    assert.strictEqual(reason(() => registry.retire(B)), 'unregistered');
+    assert.strictEqual(reason(() => registry.retire(A, new Date(500))), 'invalid');
+    assert.strictEqual(reason(() => registry.rotate(A, A)), 'conflict');
+    registry.retire(A, new Date(3_000));
+    assert.strictEqual(reason(() => registry.rotate(A, B)), 'conflict');
+    assert.strictEqual(registry.get(B), undefined);
+  });
+
+  it('writes changes through to the store and loads them back', async () => {
+    const rows = new Map<string, RegisteredAttestor>();
+    const store: AttestorRegistryStore = {
+      load: async () => Array.from(rows.values()),
+      save: async attestor => { rows.set(attestor.address, attestor); },
+    };
+    const registry = new AttestorRegistry(store);
+    registry.seed([A]);
+    registry.rotate(A, B, new Date(5_000));
+    await registry.flush();
+
+    const restarted = new AttestorRegistry(store);
+    assert.strictEqual(await restarted.load(), 2);
+    // Seeding after the load leaves the rotated-out key retired
+    assert.deepStrictEqual(restarted.seed([A, B]), []);
+    assert.deepStrictEqual(restarted.get(A)!.activeUntil, new Date(5_000));
+    assert.deepStrictEqual(restarted.activeAt(new Date()), [B]);
+  });
+});
+
+describe('Verification against the registry', () => {
+  it('keeps old attestations verifiable after rotation and stops the old key from signing', async () => {
+    const registry = new AttestorRegistry();
+    registry.seed([A]);
+    const before = new AttestationEngine(KEYS[0], { registry, windowMs: 1 });
+    const after = new AttestationEngine(KEYS[1], { registry, windowMs: 1 });
+
+    const old = await before.attest(event);
+    registry.rotate(A, B, new Date(old.timestamp.getTime() + 1));
+    await sleep(5);
+
+    assert.ok(await after.verify(old, event));
+    await assert.rejects(before.attest(event), AttestationQuorumError);
+    const current = await after.attest(event);
+    assert.deepStrictEqual((await after.verifyQuorum(current, event)).signed, [B]);
+
+    // The old key still signs elsewhere, but not for attestations timestamped after its window
+    const outOfWindow = await new AttestationEngine(KEYS[0], { windowMs: 1 }).attest(event);
+    const report = await after.verifyQuorum(outOfWindow, event);
+    assert.deepStrictEqual([report.valid, report.signed, report.rejected.map(r => r.attestor)], [false, [], [A]]);
+  });
+
+  it('rejects a key that signs for itself without being registered', async () => {
+    const registry = new AttestorRegistry();
+    registry.seed([A]);
+    const verifier = new AttestationEngine(KEYS[0], { registry });
+    const selfAttested = await new AttestationEngine(Wallet.createRandom().privateKey, { windowMs: 1 }).attest(event);
+
+    const report = await verifier.verifyQuorum(selfAttested, event);
+    assert.deepStrictEqual([report.valid, report.proofValid, report.signed, report.missing], [false, true, [], [A]]);
+    assert.deepStrictEqual(report.rejected, selfAttested.signatures);
+    await assert.rejects(
+      new AttestationEngine(Wallet.createRandom().privateKey, { registry, windowMs: 1 }).attest(event),
+      AttestationQuorumError
+    );
+  });
+});
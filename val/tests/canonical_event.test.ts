@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { Wallet, hexlify, id, randomBytes } from 'ethers';
+import { AttestationEngine, CREDIT_ATTESTATION_TYPES } from '../core/attestation';
+import { legacyEventHash } from '../core/attestation_legacy';
+import { attestationFromJson, creditEventFromJson } from '../core/attestation_store';
+import { CANONICAL_EVENT_ENCODING, CanonicalEncodingError, canonicalEventHash, canonicalize } from '../core/canonical';
+import { MerkleTree, merkleLeaf } from '../core/merkle';
+import { Attestation, CreditEvent, CreditEventType } from '../events/types';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const event: CreditEvent = {
+  id: 'evt_canonical',
+  type: CreditEventType.SPEND_AUTHORIZED,
+  userId: 'member',
+  amount: 12_500_000n,
+  timestamp: new Date('2026-05-01T09:30:00.000Z'),
+  metadata: {
+    merchant: 'tango',
+    currency: 'USD',
+    fundingCurrency: 'EUR',
+    anchorType: 'GROCERY',
+    exchangeRate: '0.92',
+    fundingAmount: '11500000',
+    email: 'member@example.com',
+    recipientId: 'rcpt_1',
+  },
+};
+
+describe('Canonical encoding', () => {
+  it('does not depend on key order and leaves out undefined keys', () => {
+    assert.strictEqual(canonicalize({ b: 1, a: { d: [1, 'x'], c: true } }), '{"a":{"c":true,"d":[1,"x"]},"b":1}');
+    assert.strictEqual(canonicalize({ a: 1, skipped: undefined }), canonicalize({ a: 1 }));
+    const reordered: CreditEvent = { ...event, metadata: Object.fromEntries(Object.entries(event.metadata).reverse()) };
+    assert.strictEqual(canonicalEventHash(reordered), canonicalEventHash(event));
+  });
+
+  it('keeps bigints and dates apart from strings and refuses what JSON would drop or bend', () => {
+    assert.strictEqual(canonicalize(5n), '{"$bigint":"5"}');
+    assert.strictEqual(canonicalize(new Date(0)), '{"$date":"1970-01-01T00:00:00.000Z"}');
+    assert.notStrictEqual(canonicalize({ amount: 5n }), canonicalize({ amount: '5' }));
+    assert.notStrictEqual(canonicalize({ at: new Date(0) }), canonicalize({ at: '1970-01-01T00:00:00.000Z' }));
+    assert.throws(() => canonicalize({ rate: NaN }), (error: Error) => error instanceof CanonicalEncodingError && /\$\.rate/.test(error.message));
+    assert.throws(() => canonicalize({ callback: () => 1 }), CanonicalEncodingError);
+  });
+});
+
+describe('Attestations over the whole event', () => {
+  it('fail verification when any metadata field is changed, added or removed', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 1 });
+    const attestation = await engine.attest(event);
+    assert.strictEqual(attestation.proof.eventEncoding, CANONICAL_EVENT_ENCODING);
+    assert.ok(await engine.verify(attestation, event));
+
+    for (const key of Object.keys(event.metadata)) {
+      const tampered = { ...event, metadata: { ...event.metadata, [key]: `${event.metadata[key]}x` } };
+      assert.strictEqual(await engine.verify(attestation, tampered), false, `changed ${key}`);
+      const { [key]: _, ...rest } = event.metadata;
+      assert.strictEqual(await engine.verify(attestation, { ...event, metadata: rest }), false, `removed ${key}`);
+    }
+    assert.strictEqual(await engine.verify(attestation, { ...event, metadata: { ...event.metadata, memo: 'added' } }), false);
+    assert.strictEqual(await engine.verify(attestation, { ...event, metadata: { ...event.metadata, currency: undefined } }), false);
+    assert.strictEqual(await engine.verify(attestation, { ...event, transactionHash: id('tx') }), false);
+  });
+
+  it('still verifies after the event travels as JSON with its keys reordered', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY, { windowMs: 1 });
+    const attestation = await engine.attest(event);
+    const wire = JSON.parse(JSON.stringify({ attestation, event: { ...event, amount: event.amount.toString() } }));
+    wire.event.metadata = Object.fromEntries(Object.entries(wire.event.metadata).reverse());
+
+    assert.ok(await engine.verify(attestationFromJson(wire.attestation), creditEventFromJson(wire.event)));
+  });
+
+  it('keeps EIP-712 attestations issued before canonical encoding verifiable', async () => {
+    const engine = new AttestationEngine(TEST_ADMIN_KEY);
+    const wallet = new Wallet(TEST_ADMIN_KEY);
+    const eventHash = legacyEventHash(event);
+    const nonce = hexlify(randomBytes(32));
+    const tree = new MerkleTree([merkleLeaf(eventHash, nonce)]);
+    const timestamp = new Date('2026-01-01T00:00:00.000Z');
+    const batchId = id(`${tree.root}-${timestamp.getTime()}`);
+    const signature = await wallet.signTypedData(engine.getDomain(), CREDIT_ATTESTATION_TYPES, {
+      batchId, merkleRoot: tree.root, batchSize: 1, issuedAt: BigInt(timestamp.getTime()),
+    });
+    const earlier: Attestation = {
+      id: id(`${event.id}-${batchId}`), eventId: event.id, signature, attestor: wallet.address, timestamp, scheme: 'eip712',
+      proof: { merkleRoot: tree.root, merkleProof: [], eventHash, nonce, batchId, batchSize: 1, leafIndex: 0 },
+    };
+
+    assert.ok(await engine.verify(earlier, event));
+    // Claiming the canonical encoding for it does not hold
+    assert.strictEqual(await engine.verify({ ...earlier, proof: { ...earlier.proof, eventEncoding: CANONICAL_EVENT_ENCODING } }, event), false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { ClearingChangeFeed, InMemoryChangeFeedCursorStore, transferObservationId } from '../core/clearing_feed';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { RecordNarrativeEntryRequest, RecordNarrativeEntryResponse } from '../shared/narrative-mirror-bridge';
+
+const USD = LEDGER_IDS.USD;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+
+// Records entries in order; refuses the ones listed in `refuse`
+class StubMirror {
+  entries: RecordNarrativeEntryRequest[] = [];
+  refuse: Set<string> = new Set();
+
+  async recordNarrativeEntry(request: RecordNarrativeEntryRequest): Promise<RecordNarrativeEntryResponse> {
+    if (this.refuse.has(request.eventId!)) return { success: false, error: 'mirror unavailable' };
+    this.entries.push(request);
+    return { success: true, narrativeEntryId: `NAR-${this.entries.length}` };
+  }
+
+  async getNarrativeEntriesByEventId(eventId: string): Promise<any[]> {
+    return this.entries.filter(e => e.eventId === eventId);
+  }
+
+  observedTransfers(): string[] {
+    return this.entries.map(e => e.eventId!);
+  }
+}
+
+describe('Clearing change feed', () => {
+  let service: TigerBeetleService;
+  let mirror: StubMirror;
+  let store: InMemoryChangeFeedCursorStore;
+  let member: bigint;
+
+  const deposit = (amount: bigint, id: bigint) =>
+    service.createTransfer(SOURCE, member, amount, USD, { code: TRANSFER_CODES.DEPOSIT }, id);
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    member = await service.ensureUserAccount('member');
+    mirror = new StubMirror();
+    store = new InMemoryChangeFeedCursorStore();
+  });
+
+  it('observes every cleared transfer once, in commit order', async () => {
+    const feed = new ClearingChangeFeed(service, mirror, { store });
+    await deposit(100_000_000n, 1n);
+    await service.createPendingTransfer(member, ODFI, 25_000_000n, 60, USD, { code: TRANSFER_CODES.PAYMENT, eventRef: 0xabcn }, 2n);
+    await service.postPendingTransfer(2n, 3n);
+
+    assert.strictEqual(await feed.poll(), 3);
+    assert.deepStrictEqual(mirror.observedTransfers(), [1n, 2n, 3n].map(transferObservationId));
+
+    const [funded, held, posted] = mirror.entries;
+    assert.strictEqual(funded.source, 'CLEARING_OBSERVATION');
+    assert.strictEqual(funded.userId, 'member');
+    assert.match(funded.description, /DEPOSIT 100\.00 USD \(posted\) - transfer 1$/);
+    assert.match(held.description, /PAYMENT 25\.00 USD \(pending\) - transfer 2, event ref abc/);
+    assert.match(posted.description, /\(post\) - transfer 3, resolves 2/);
+    assert.ok(posted.lines.every(l => l.amount === 0n));
+    assert.strictEqual(held.lines[1].description, 'Credited HONORING ADAPTER ODFI');
+
+    assert.strictEqual(await feed.poll(), 0);
+    assert.strictEqual(feed.getStatus().observed, 3);
+  });
+
+  it('resumes from the stored cursor after a restart', async () => {
+    await deposit(10n, 1n);
+    await new ClearingChangeFeed(service, mirror, { store }).poll();
+    await deposit(20n, 2n);
+    await deposit(30n, 3n);
+
+    const restarted = new ClearingChangeFeed(service, mirror, { store, batchSize: 1 });
+    assert.strictEqual(await restarted.poll(), 2);
+    assert.deepStrictEqual(mirror.observedTransfers(), [1n, 2n, 3n].map(transferObservationId));
+    assert.strictEqual(restarted.getStatus().cursor, await store.load('narrative-mirror'));
+  });
+
+  it('skips a transfer recorded just before a crash that left its cursor unsaved', async () => {
+    await deposit(10n, 1n);
+    await deposit(20n, 2n);
+    await mirror.recordNarrativeEntry({ description: 'recorded before the crash', source: 'CLEARING_OBSERVATION', lines: [], eventId: transferObservationId(1n) });
+
+    assert.strictEqual(await new ClearingChangeFeed(service, mirror, { store }).poll(), 1);
+    assert.deepStrictEqual(mirror.observedTransfers(), [1n, 2n].map(transferObservationId));
+  });
+
+  it('stops at a transfer the mirror refuses and retries it on the next poll', async () => {
+    const feed = new ClearingChangeFeed(service, mirror, { store });
+    await deposit(10n, 1n);
+    await deposit(20n, 2n);
+    await deposit(30n, 3n);
+    mirror.refuse.add(transferObservationId(2n));
+
+    assert.strictEqual(await feed.poll(), 1);
+    assert.match(feed.getStatus().lastError!, /refused transfer 2: mirror unavailable/);
+
+    mirror.refuse.clear();
+    assert.strictEqual(await feed.poll(), 2);
+    assert.strictEqual(feed.getStatus().lastError, null);
+    assert.deepStrictEqual(mirror.observedTransfers(), [1n, 2n, 3n].map(transferObservationId));
+  });
+});
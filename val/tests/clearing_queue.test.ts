@@ -0,0 +1,98 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { CreateTransferError, CreateTransfersError, Transfer, TransferFlags } from 'tigerbeetle-node';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { ClearingQueue } from '../clearing/tigerbeetle/queue';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+
+const USD = LEDGER_IDS.USD;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const DEPOSIT = { code: TRANSFER_CODES.DEPOSIT };
+const PAYMENT = { code: TRANSFER_CODES.PAYMENT };
+
+const transfer = (id: bigint, flags = 0): Transfer => ({
+  id,
+  debit_account_id: 1n,
+  credit_account_id: 2n,
+  amount: 1n,
+  pending_id: 0n,
+  user_data_128: 0n,
+  user_data_64: 0n,
+  user_data_32: 0,
+  timeout: 0,
+  ledger: 1,
+  code: 1,
+  flags,
+  timestamp: 0n,
+});
+
+describe('ClearingQueue', () => {
+  it('coalesces concurrent submissions and hands each its own errors', async () => {
+    const batches: bigint[][] = [];
+    const queue = new ClearingQueue(async (batch) => {
+      batches.push(batch.map(t => t.id));
+      // Reject the third transfer of the batch
+      return [{ index: 2, result: CreateTransferError.exceeds_credits }];
+    });
+
+    const results = await Promise.all([
+      queue.submit([transfer(1n)]),
+      queue.submit([transfer(2n)]),
+      queue.submit([transfer(3n)]),
+    ]);
+
+    assert.deepStrictEqual(batches, [[1n, 2n, 3n]]);
+    assert.deepStrictEqual(results, [[], [], [{ index: 0, result: CreateTransferError.exceeds_credits }]]);
+  });
+
+  it('keeps a linked chain whole when it does not fit the current batch', async () => {
+    const batches: bigint[][] = [];
+    const queue = new ClearingQueue(async (batch) => {
+      batches.push(batch.map(t => t.id));
+      return [];
+    }, { maxBatchSize: 3 });
+
+    await Promise.all([
+      queue.submit([transfer(1n)]),
+      queue.submit([transfer(2n)]),
+      queue.submit([transfer(3n, TransferFlags.linked), transfer(4n)]),
+    ]);
+
+    assert.deepStrictEqual(batches, [[1n, 2n], [3n, 4n]]);
+    assert.deepStrictEqual(queue.getStats(), { batches: 2, transfers: 4, largestBatch: 2 });
+  });
+
+  it('rejects every submission in a batch the client could not send', async () => {
+    const queue = new ClearingQueue(async (): Promise<CreateTransfersError[]> => {
+      throw new Error('connection reset');
+    });
+    const results = await Promise.allSettled([queue.submit([transfer(1n)]), queue.submit([transfer(2n)])]);
+    assert.deepStrictEqual(results.map(r => r.status), ['rejected', 'rejected']);
+  });
+});
+
+describe('TigerBeetleService: batched clearing', () => {
+  let service: TigerBeetleService;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+  });
+
+  it('clears concurrent spends in one batch with per-transfer results', async () => {
+    const user = await service.ensureUserAccount('batch_tester');
+    await service.createTransfer(SOURCE, user, 25n, USD, DEPOSIT, 5001n);
+    const before = service.getQueueStats().batches;
+
+    // 10 each: the third spend overdraws and must fail alone
+    const results = await Promise.all([5002n, 5003n, 5004n].map(id => service.createTransfer(user, ODFI, 10n, USD, PAYMENT, id)));
+
+    assert.deepStrictEqual(results.map(r => r.reason), ['created', 'created', 'insufficient_funds']);
+    assert.strictEqual(service.getQueueStats().batches - before, 1);
+    assert.deepStrictEqual(await service.getUserBalance('batch_tester'), { accountId: user, posted: 5n, pending: 0n });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { ClearingRejectedError, SpendEngine } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { CorrectionError, CorrectionRequest, CorrectionService, CorrectionStore } from '../core/corrections';
+import { getNarrativeMirror } from '../core/narrative-mirror-service';
+import { EventLogger } from '../events/logger';
+import { CreditEventType } from '../events/types';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService, eventRefFor } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { ClearingResult } from '../clearing/tigerbeetle/types';
+import { IMerchantValueAdapter, ValueRequest } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+
+function testAdapter(onIssue: () => void = () => undefined): IMerchantValueAdapter {
+  return {
+    name: 'Test Adapter',
+    type: 'square',
+    enabled: true,
+    issueValue: async (request: ValueRequest) => {
+      onIssue();
+      return { success: true, transactionId: 'txn_1', value: { type: 'gift_card', balance: request.amount }, timestamp: new Date() };
+    },
+    checkStatus: async transactionId => ({ transactionId, status: 'failed', updatedAt: new Date() }),
+    handleWebhook: async () => ({ acknowledged: true, eventType: 'noop', processedAt: new Date() }),
+    validateConfig: async () => true,
+  };
+}
+
+describe('Correcting transfers', () => {
+  let service: TigerBeetleService;
+  let logger: EventLogger;
+  let corrections: CorrectionService;
+  let spentEventId: string;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    logger = new EventLogger();
+    const engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), logger, service);
+    engine.registerAdapter(testAdapter());
+    corrections = engine.getCorrectionService();
+
+    await engine.depositCredit('member', 100);
+    await engine.spendCredit({ userId: 'member', merchant: 'square', amount: 30, metadata: {} });
+    const events = await logger.getEventsForUser('member');
+    spentEventId = events.find(e => e.type === CreditEventType.SPEND_EXECUTED)!.id;
+  });
+
+  it('returns the spend with a new transfer linked to the original once a trustee approves', async () => {
+    const correction = await corrections.request({
+      eventId: spentEventId, userId: 'member', reason: 'gift card never delivered', requestedBy: 'support',
+    });
+    assert.strictEqual(correction.status, 'pending_approval');
+    assert.strictEqual(correction.amount, 30_000_000n);
+    assert.strictEqual(correction.counterparty, ODFI);
+    assert.strictEqual((await service.getUserBalance('member')).posted, 70_000_000n);
+
+    const applied = await corrections.approve(correction.id, '0xtrustee');
+    assert.strictEqual(applied.status, 'applied');
+    assert.strictEqual(applied.decidedBy, '0xtrustee');
+    assert.strictEqual((await service.getUserBalance('member')).posted, 100_000_000n);
+
+    // The original spend stays as it was; the correction sits beside it under the same event ref
+    const linked = await service.getAccountTransfers(service.userAccountId('member'), { eventRef: eventRefFor(spentEventId) });
+    const compensating = linked.find(t => t.id === applied.transferId)!;
+    assert.strictEqual(compensating.code, TRANSFER_CODES.SPEND_CORRECTION);
+    assert.strictEqual(compensating.debit_account_id, ODFI);
+    assert.ok(linked.some(t => t.code === TRANSFER_CODES.PAYMENT && t.amount === 30_000_000n));
+
+    const entries = await getNarrativeMirror().getNarrativeEntriesByEventId(spentEventId);
+    assert.ok(entries.some(e => e.description.startsWith('Fulfillment Observation')));
+    assert.ok(entries.some(e => e.description.startsWith('Correction Requested')));
+    assert.ok(entries.some(e => e.description.startsWith('Correction Observed')));
+  });
+
+  it('never corrects more than the event cleared', async () => {
+    await corrections.request({ eventId: spentEventId, userId: 'member', amount: 20_000_000n, reason: 'partial', requestedBy: 'support' });
+
+    await assert.rejects(
+      corrections.request({ eventId: spentEventId, userId: 'member', amount: 20_000_000n, reason: 'again', requestedBy: 'support' }),
+      CorrectionError
+    );
+    const rest = await corrections.request({ eventId: spentEventId, userId: 'member', reason: 'rest', requestedBy: 'support' });
+    assert.strictEqual(rest.amount, 10_000_000n);
+  });
+
+  it('moves nothing when a trustee rejects the request', async () => {
+    const correction = await corrections.request({ eventId: spentEventId, userId: 'member', reason: 'duplicate claim', requestedBy: 'support' });
+
+    const rejected = await corrections.reject(correction.id, '0xtrustee', 'delivered after all');
+    assert.strictEqual(rejected.status, 'rejected');
+    await assert.rejects(corrections.approve(correction.id, '0xtrustee'), CorrectionError);
+    assert.strictEqual((await service.getUserBalance('member')).posted, 70_000_000n);
+    assert.deepStrictEqual(corrections.list('pending_approval'), []);
+  });
+
+  it('refuses events that cleared no spend for the member', async () => {
+    await assert.rejects(
+      corrections.request({ eventId: 'evt_unknown', userId: 'member', reason: 'typo', requestedBy: 'support' }),
+      CorrectionError
+    );
+    await assert.rejects(corrections.approve('corr_missing', '0xtrustee'), CorrectionError);
+  });
+
+  it('keeps a correction pending when clearing is unreachable and applies it on a later approval', async () => {
+    const correction = await corrections.request({ eventId: spentEventId, userId: 'member', reason: 'never delivered', requestedBy: 'support' });
+    const createTransfer = service.createTransfer;
+    service.createTransfer = async (...args): Promise<ClearingResult> =>
+      ({ ok: false, transferId: args[5]!, reason: 'client_unavailable', detail: 'client_unavailable' });
+
+    const unreachable = await corrections.approve(correction.id, '0xtrustee');
+    assert.deepStrictEqual([unreachable.status, unreachable.detail, unreachable.attempts], ['pending_approval', 'client_unavailable', 1]);
+    const failures = (await logger.getEventsForUser('member')).filter(e => e.type === CreditEventType.CORRECTION_FAILED);
+    assert.deepStrictEqual(failures.map(e => [e.metadata.detail, e.metadata.retryable]), [['client_unavailable', 'true']]);
+
+    service.createTransfer = createTransfer;
+    const applied = await corrections.approve(correction.id, '0xtrustee');
+    assert.deepStrictEqual([applied.status, applied.detail, applied.attempts], ['applied', undefined, 2]);
+    assert.strictEqual((await service.getUserBalance('member')).posted, 100_000_000n);
+  });
+
+  it('fails a correction the ledger rejects and logs the failure', async () => {
+    const correction = await corrections.request({ eventId: spentEventId, userId: 'member', reason: 'never delivered', requestedBy: 'support' });
+    service.createTransfer = async (...args): Promise<ClearingResult> =>
+      ({ ok: false, transferId: args[5]!, reason: 'insufficient_funds', detail: 'exceeds_credits' });
+
+    const failed = await corrections.approve(correction.id, '0xtrustee');
+    assert.deepStrictEqual([failed.status, failed.detail], ['failed', 'insufficient_funds']);
+    const failures = (await logger.getEventsForUser('member')).filter(e => e.type === CreditEventType.CORRECTION_FAILED);
+    assert.deepStrictEqual(failures.map(e => e.metadata.retryable), ['false']);
+    await assert.rejects(corrections.approve(correction.id, '0xtrustee'), CorrectionError);
+  });
+
+  it('lets only one of two concurrent approvals clear the transfer', async () => {
+    const correction = await corrections.request({ eventId: spentEventId, userId: 'member', reason: 'never delivered', requestedBy: 'support' });
+
+    const results = await Promise.allSettled([
+      corrections.approve(correction.id, '0xtrustee'),
+      corrections.approve(correction.id, '0xother'),
+    ]);
+    assert.deepStrictEqual(results.map(r => r.status), ['fulfilled', 'rejected']);
+    assert.ok((results[1] as PromiseRejectedResult).reason instanceof CorrectionError);
+    assert.strictEqual((await service.getUserBalance('member')).posted, 100_000_000n);
+    const applied = (await logger.getEventsForUser('member')).filter(e => e.type === CreditEventType.CORRECTION_APPLIED);
+    assert.strictEqual(applied.length, 1);
+  });
+
+  it('writes corrections through to the store and loads them back', async () => {
+    const rows = new Map<string, CorrectionRequest>();
+    const store: CorrectionStore = {
+      load: async () => Array.from(rows.values()),
+      save: async correction => { rows.set(correction.id, correction); },
+    };
+    const stored = new CorrectionService(service, logger, store);
+    const correction = await stored.request({ eventId: spentEventId, userId: 'member', reason: 'never delivered', requestedBy: 'support' });
+    await stored.approve(correction.id, '0xtrustee');
+    await stored.flush();
+
+    const restarted = new CorrectionService(service, logger, store);
+    assert.strictEqual(await restarted.load(), 1);
+    assert.deepStrictEqual(
+      [restarted.get(correction.id)!.status, restarted.get(correction.id)!.attempts, restarted.get(correction.id)!.amount],
+      ['applied', 1, 30_000_000n]
+    );
+  });
+});
+
+describe('Corrections filed by failed spends', () => {
+  // The post reaches the ledger but its answer is lost on the way back
+  class LostPostAnswer extends TigerBeetleService {
+    async postPendingTransfers(pendingIds: bigint[], ids: bigint[]) {
+      const result = await super.postPendingTransfers(pendingIds, ids);
+      return { ...result, ok: false, reason: 'client_unavailable' as const, detail: 'client_unavailable' };
+    }
+  }
+
+  async function spendThrough(service: TigerBeetleService, onIssue?: () => void) {
+    await service.initializeReferenceAccounts();
+    const engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), new EventLogger(), service);
+    engine.registerAdapter(testAdapter(onIssue));
+    await engine.depositCredit('member', 100);
+    await assert.rejects(engine.spendCredit({ userId: 'member', merchant: 'square', amount: 30, metadata: {} }), ClearingRejectedError);
+    return engine.getCorrectionService();
+  }
+
+  it('files a correction when the spend failed after its post cleared', async () => {
+    const service = new LostPostAnswer({ client: new InMemoryTigerBeetle() });
+    const corrections = await spendThrough(service);
+
+    assert.strictEqual((await service.getUserBalance('member')).posted, 70_000_000n);
+    const [filed] = corrections.list('pending_approval');
+    assert.deepStrictEqual([filed.amount, filed.counterparty, filed.requestedBy], [30_000_000n, ODFI, 'system:spend-engine']);
+    assert.match(filed.reason, /post answered client_unavailable/);
+  });
+
+  it('files nothing when the hold expired before it could be posted', async () => {
+    let now = 1_700_000_000_000_000_000n;
+    const service = new TigerBeetleService({ client: new InMemoryTigerBeetle(() => now) });
+    // Honoring outlasts the reservation
+    const corrections = await spendThrough(service, () => { now += 300_000_000_000n; });
+
+    assert.strictEqual((await service.getUserBalance('member')).posted, 100_000_000n);
+    assert.deepStrictEqual(corrections.list(), []);
+  });
+});
@@ -27,7 +27,7 @@ describe('Canon Validation: SpendEngine.finalize() [REAL WORLD]', async () => {
         
         // 1. Initialize Engines
         const provider = new ethers.JsonRpcProvider(RPC_URL);
-        attestationEngine = new AttestationEngine(TEST_ADMIN_KEY, provider);
+        attestationEngine = new AttestationEngine(TEST_ADMIN_KEY);
         eventLogger = new EventLogger();
         spendEngine = new SpendEngine(attestationEngine, eventLogger);
         
@@ -0,0 +1,92 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Account } from 'tigerbeetle-node';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { ComponentHealth, backoffDelay, summarizeHealth } from '../shared/health';
+
+const BACKOFF = { initialMs: 10, maxMs: 40, factor: 2 };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Lookups never answer while the cluster is "down", like a client whose replicas are unreachable
+class UnreachableTigerBeetle extends InMemoryTigerBeetle {
+  down = false;
+  private lookup = this.lookupAccounts;
+
+  lookupAccounts = async (batch: bigint[]): Promise<Account[]> => {
+    if (this.down) return new Promise<Account[]>(() => {});
+    return this.lookup(batch);
+  };
+}
+
+describe('TigerBeetle health probe', () => {
+  let ledger: UnreachableTigerBeetle;
+  let service: TigerBeetleService;
+
+  beforeEach(() => {
+    ledger = new UnreachableTigerBeetle();
+    service = new TigerBeetleService({ client: ledger, probeTimeoutMs: 20, backoff: BACKOFF });
+  });
+
+  it('is up only once a lookup answers and the reference accounts exist', async () => {
+    assert.strictEqual(service.getHealth().state, 'unknown');
+    const uninitialized = await service.checkHealth();
+    assert.strictEqual(uninitialized.state, 'degraded');
+    assert.match(uninitialized.lastError!, /not initialized/);
+
+    await service.initializeReferenceAccounts();
+    const health = await service.checkHealth();
+    assert.strictEqual(health.state, 'up');
+    assert.strictEqual(typeof health.latencyMs, 'number');
+    assert.strictEqual(health.consecutiveFailures, 0);
+  });
+
+  it('marks clearing unavailable when the cluster stops answering and recovers with backoff', async () => {
+    await service.initializeReferenceAccounts();
+    ledger.down = true;
+
+    const down = await service.checkHealth();
+    assert.strictEqual(down.state, 'down');
+    assert.match(down.lastError!, /did not answer within 20ms/);
+    assert.ok(down.nextReconnectAt);
+    const refused = await service.createTransfer(
+      referenceAccountId('OBSERVED_TOKEN_REALIZATION'),
+      referenceAccountId('HONORING_ADAPTER_ODFI'),
+      1n,
+      LEDGER_IDS.USD,
+      { code: TRANSFER_CODES.DEPOSIT }
+    );
+    assert.strictEqual(refused.reason, 'client_unavailable');
+
+    // Still down after the first retry, so failures accumulate
+    await sleep(50);
+    assert.ok(service.getHealth().consecutiveFailures >= 2);
+
+    ledger.down = false;
+    await sleep(150);
+    const recovered = service.getHealth();
+    assert.strictEqual(recovered.state, 'up');
+    assert.strictEqual(recovered.nextReconnectAt, null);
+    assert.match(recovered.lastError!, /did not answer/);
+  });
+});
+
+describe('Health helpers', () => {
+  it('doubles the reconnect delay up to the cap', () => {
+    assert.deepStrictEqual([0, 1, 2, 3].map(n => backoffDelay(n, BACKOFF)), [10, 20, 40, 40]);
+  });
+
+  it('reports the system down only when a critical component is down', () => {
+    const component = (name: string, state: ComponentHealth['state']): ComponentHealth => ({
+      component: name, state, latencyMs: 1, checkedAt: new Date(), lastError: null, lastErrorAt: null,
+      consecutiveFailures: 0, nextReconnectAt: null,
+    });
+
+    assert.strictEqual(summarizeHealth([component('tigerbeetle', 'up'), component('postgres', 'up')], ['tigerbeetle']).status, 'active');
+    assert.strictEqual(summarizeHealth([component('tigerbeetle', 'up'), component('postgres', 'down')], ['tigerbeetle']).status, 'degraded');
+    assert.strictEqual(summarizeHealth([component('tigerbeetle', 'down'), component('postgres', 'up')], ['tigerbeetle']).status, 'down');
+  });
+});
@@ -35,7 +35,7 @@ async function main() {
   console.log('🔒 HOSTILE ANCHOR REPLAY TEST SUITE (CANON LOCK)');
   console.log('---------------------------------------------------------');
 
-  const attestationEngine = new AttestationEngine(MOCK_PRIVATE_KEY, MOCK_PROVIDER);
+  const attestationEngine = new AttestationEngine(MOCK_PRIVATE_KEY);
 
   console.log('[SETUP] Initializing TigerBeetle Connection...');
   const tigerBeetle = getTigerBeetle();
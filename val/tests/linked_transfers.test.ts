@@ -0,0 +1,75 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { TransferLeg } from '../clearing/tigerbeetle/types';
+
+const USD = LEDGER_IDS.USD;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const FEES = referenceAccountId('HONORING_ADAPTER_CARD');
+const GROCERY_MEMO = referenceAccountId('ANCHOR_GROCERY_AUTHORIZATION_MEMO');
+const UTILITY_MEMO = referenceAccountId('ANCHOR_UTILITY_AUTHORIZATION_MEMO');
+
+describe('TigerBeetleService: linked multi-leg transfers', () => {
+  let service: TigerBeetleService;
+  let alice: bigint;
+  let bob: bigint;
+
+  const posted = async (accountId: bigint) => (await service.getLedgerBalance(accountId))!.posted;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    alice = await service.ensureUserAccount('alice');
+    bob = await service.ensureUserAccount('bob');
+    await service.createTransfer(SOURCE, alice, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+    await service.createTransfer(SOURCE, bob, 10n, USD, { code: TRANSFER_CODES.DEPOSIT }, 2n);
+  });
+
+  // One purchase split across two members, with a fee and a zero-amount memo leg
+  const splitPurchase = (bobShare: bigint): TransferLeg[] => [
+    { id: 11n, debitAccount: alice, creditAccount: ODFI, amount: 30n, ledger: USD, details: { code: TRANSFER_CODES.PAYMENT, eventRef: 99n } },
+    { id: 12n, debitAccount: bob, creditAccount: ODFI, amount: bobShare, ledger: USD, details: { code: TRANSFER_CODES.PAYMENT, eventRef: 99n } },
+    { id: 13n, debitAccount: alice, creditAccount: FEES, amount: 1n, ledger: USD, details: { code: TRANSFER_CODES.FEE, eventRef: 99n } },
+    { id: 14n, debitAccount: GROCERY_MEMO, creditAccount: UTILITY_MEMO, amount: 0n, ledger: USD, details: { code: TRANSFER_CODES.PAYMENT, eventRef: 99n } },
+  ];
+
+  it('creates every leg of a chain together', async () => {
+    const legs = splitPurchase(5n);
+    const result = await service.createLinkedTransfers(legs);
+
+    assert.strictEqual(result.reason, 'created');
+    assert.deepStrictEqual(result.transferIds, [11n, 12n, 13n, 14n]);
+    assert.strictEqual(await posted(alice), 69n);
+    assert.strictEqual(await posted(bob), 5n);
+    assert.strictEqual(await posted(ODFI), 35n);
+
+    const replay = await service.createLinkedTransfers(legs);
+    assert.strictEqual(replay.reason, 'exists');
+  });
+
+  it('reports the leg that broke the chain and rolls back the others', async () => {
+    const result = await service.createLinkedTransfers(splitPurchase(11n)); // Bob only has 10
+
+    assert.strictEqual(result.ok, false);
+    assert.strictEqual(result.failedLeg, 1);
+    assert.strictEqual(result.transferId, 12n);
+    assert.strictEqual(result.reason, 'insufficient_funds');
+    assert.strictEqual(await posted(alice), 100n);
+    assert.strictEqual(await posted(ODFI), 0n);
+  });
+
+  it('names a malformed leg anywhere in the chain', async () => {
+    const legs = splitPurchase(5n);
+    legs[3].creditAccount = 999_999n;
+
+    const result = await service.createLinkedTransfers(legs);
+    assert.strictEqual(result.failedLeg, 3);
+    assert.strictEqual(result.detail, 'credit_account_not_found');
+    assert.strictEqual(await posted(bob), 10n);
+  });
+});
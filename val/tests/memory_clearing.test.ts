@@ -0,0 +1,248 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  Account,
+  AccountFilterFlags,
+  AccountFlags,
+  CreateAccountError,
+  CreateTransferError,
+  Transfer,
+  TransferFlags,
+} from 'tigerbeetle-node';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { asReferenceAccountKey, referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+
+const DEPOSIT = { code: TRANSFER_CODES.DEPOSIT };
+const PAYMENT = { code: TRANSFER_CODES.PAYMENT };
+
+// Manual clock (ns) so expiry is deterministic
+let now = 1_000_000_000_000n;
+const clock = () => now;
+const advanceSeconds = (s: number) => { now += BigInt(s) * 1_000_000_000n; };
+
+const account = (id: bigint, flags: number = 0): Account => ({
+  id,
+  debits_pending: 0n,
+  debits_posted: 0n,
+  credits_pending: 0n,
+  credits_posted: 0n,
+  user_data_128: 0n,
+  user_data_64: 0n,
+  user_data_32: 0,
+  reserved: 0,
+  ledger: 1,
+  code: 1,
+  flags,
+  timestamp: 0n,
+});
+
+const transfer = (id: bigint, debit: bigint, credit: bigint, amount: bigint, fields: Partial<Transfer> = {}): Transfer => ({
+  id,
+  debit_account_id: debit,
+  credit_account_id: credit,
+  amount,
+  pending_id: 0n,
+  user_data_128: 0n,
+  user_data_64: 0n,
+  user_data_32: 0,
+  timeout: 0,
+  ledger: 1,
+  code: 1,
+  flags: 0,
+  timestamp: 0n,
+  ...fields,
+});
+
+describe('InMemoryTigerBeetle: ledger semantics', () => {
+  let ledger: InMemoryTigerBeetle;
+
+  const lookup = async (id: bigint) => (await ledger.lookupAccounts([id]))[0];
+
+  beforeEach(async () => {
+    ledger = new InMemoryTigerBeetle(clock);
+    // 1 = source, 2 = user (no overdraft, history), 3 = sink
+    await ledger.createAccounts([
+      account(1n),
+      account(2n, AccountFlags.debits_must_not_exceed_credits | AccountFlags.history),
+      account(3n),
+    ]);
+    await ledger.createTransfers([transfer(100n, 1n, 2n, 1_000n)]);
+  });
+
+  it('treats a replayed account as exists, and a changed one as a conflict', async () => {
+    const errors = await ledger.createAccounts([account(1n), account(1n, AccountFlags.history)]);
+    assert.deepStrictEqual(errors, [
+      { index: 0, result: CreateAccountError.exists },
+      { index: 1, result: CreateAccountError.exists_with_different_flags },
+    ]);
+  });
+
+  it('is idempotent on transfer ids', async () => {
+    const replay = await ledger.createTransfers([transfer(100n, 1n, 2n, 1_000n)]);
+    assert.deepStrictEqual(replay, [{ index: 0, result: CreateTransferError.exists }]);
+
+    const conflict = await ledger.createTransfers([transfer(100n, 1n, 2n, 999n)]);
+    assert.deepStrictEqual(conflict, [{ index: 0, result: CreateTransferError.exists_with_different_amount }]);
+
+    assert.strictEqual((await lookup(2n)).credits_posted, 1_000n);
+  });
+
+  it('rejects overdrafts on debits_must_not_exceed_credits accounts and burns the id', async () => {
+    const overdraft = await ledger.createTransfers([transfer(101n, 2n, 3n, 1_001n)]);
+    assert.deepStrictEqual(overdraft, [{ index: 0, result: CreateTransferError.exceeds_credits }]);
+
+    const retry = await ledger.createTransfers([transfer(101n, 2n, 3n, 500n)]);
+    assert.deepStrictEqual(retry, [{ index: 0, result: CreateTransferError.id_already_failed }]);
+  });
+
+  it('holds, posts and voids pending transfers', async () => {
+    await ledger.createTransfers([
+      transfer(200n, 2n, 3n, 600n, { flags: TransferFlags.pending }),
+      transfer(201n, 2n, 3n, 300n, { flags: TransferFlags.pending }),
+    ]);
+
+    // 900 of 1000 held: a further 200 would overdraw
+    const over = await ledger.createTransfers([transfer(202n, 2n, 3n, 200n)]);
+    assert.deepStrictEqual(over, [{ index: 0, result: CreateTransferError.exceeds_credits }]);
+
+    const resolved = await ledger.createTransfers([
+      transfer(210n, 0n, 0n, 0n, { pending_id: 200n, ledger: 0, code: 0, flags: TransferFlags.post_pending_transfer, amount: 2n ** 128n - 1n }),
+      transfer(211n, 0n, 0n, 0n, { pending_id: 201n, ledger: 0, code: 0, flags: TransferFlags.void_pending_transfer }),
+    ]);
+    assert.deepStrictEqual(resolved, []);
+
+    const user = await lookup(2n);
+    assert.strictEqual(user.debits_pending, 0n);
+    assert.strictEqual(user.debits_posted, 600n);
+
+    const again = await ledger.createTransfers([
+      transfer(212n, 0n, 0n, 0n, { pending_id: 200n, ledger: 0, code: 0, flags: TransferFlags.void_pending_transfer }),
+    ]);
+    assert.deepStrictEqual(again, [{ index: 0, result: CreateTransferError.pending_transfer_already_posted }]);
+  });
+
+  it('expires pending transfers after their timeout', async () => {
+    await ledger.createTransfers([transfer(300n, 2n, 3n, 400n, { flags: TransferFlags.pending, timeout: 10 })]);
+    advanceSeconds(11);
+
+    assert.strictEqual((await lookup(2n)).debits_pending, 0n);
+    const post = await ledger.createTransfers([
+      transfer(301n, 0n, 0n, 0n, { pending_id: 300n, ledger: 0, code: 0, flags: TransferFlags.post_pending_transfer }),
+    ]);
+    assert.deepStrictEqual(post, [{ index: 0, result: CreateTransferError.pending_transfer_expired }]);
+  });
+
+  it('rolls back a linked chain when any leg fails', async () => {
+    const errors = await ledger.createTransfers([
+      transfer(400n, 2n, 3n, 500n, { flags: TransferFlags.linked }),
+      transfer(401n, 2n, 3n, 600n),
+    ]);
+    assert.deepStrictEqual(errors, [
+      { index: 0, result: CreateTransferError.linked_event_failed },
+      { index: 1, result: CreateTransferError.exceeds_credits },
+    ]);
+    assert.strictEqual((await lookup(2n)).debits_posted, 0n);
+    assert.strictEqual((await ledger.lookupTransfers([400n])).length, 0);
+
+    const open = await ledger.createTransfers([transfer(402n, 1n, 3n, 1n, { flags: TransferFlags.linked })]);
+    assert.deepStrictEqual(open, [{ index: 0, result: CreateTransferError.linked_event_chain_open }]);
+  });
+
+  it('closes accounts with a pending closing transfer and reopens on void', async () => {
+    await ledger.createTransfers([
+      transfer(500n, 2n, 3n, 0n, { flags: TransferFlags.pending | TransferFlags.closing_debit }),
+    ]);
+    const blocked = await ledger.createTransfers([transfer(501n, 1n, 2n, 1n)]);
+    assert.deepStrictEqual(blocked, [{ index: 0, result: CreateTransferError.credit_account_already_closed }]);
+
+    await ledger.createTransfers([
+      transfer(502n, 0n, 0n, 0n, { pending_id: 500n, ledger: 0, code: 0, flags: TransferFlags.void_pending_transfer }),
+    ]);
+    assert.strictEqual((await lookup(2n)).flags & AccountFlags.closed, 0);
+  });
+
+  it('records balance history for history accounts', async () => {
+    await ledger.createTransfers([transfer(600n, 2n, 3n, 250n)]);
+    const balances = await ledger.getAccountBalances({
+      account_id: 2n,
+      user_data_128: 0n,
+      user_data_64: 0n,
+      user_data_32: 0,
+      code: 0,
+      timestamp_min: 0n,
+      timestamp_max: 0n,
+      limit: 10,
+      flags: AccountFilterFlags.debits | AccountFilterFlags.credits,
+    });
+    assert.deepStrictEqual(balances.map(b => [b.credits_posted, b.debits_posted]), [[1_000n, 0n], [1_000n, 250n]]);
+  });
+});
+
+describe('TigerBeetleService over the in-memory backend', () => {
+  it('clears a two-phase spend without a replica', async () => {
+    const service = new TigerBeetleService({ client: new InMemoryTigerBeetle(clock) });
+    await service.initializeReferenceAccounts();
+    const userAccount = await service.ensureUserAccount('memory_tester');
+
+    const source = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+    const odfi = referenceAccountId('HONORING_ADAPTER_ODFI');
+
+    const deposit = await service.createTransfer(source, userAccount, 50n, 1, DEPOSIT, 9001n);
+    assert.strictEqual(deposit.reason, 'created');
+
+    const hold = await service.createPendingTransfer(userAccount, odfi, 20n, 60, 1, PAYMENT, 9002n);
+    assert.strictEqual(hold.reason, 'created');
+    assert.deepStrictEqual(await service.getUserBalance('memory_tester'), { accountId: userAccount, posted: 50n, pending: 20n });
+
+    const post = await service.postPendingTransfer(9002n, 9003n);
+    assert.strictEqual(post.reason, 'created');
+    const replay = await service.postPendingTransfer(9002n, 9003n);
+    assert.strictEqual(replay.reason, 'exists');
+
+    assert.deepStrictEqual(await service.getUserBalance('memory_tester'), { accountId: userAccount, posted: 30n, pending: 0n });
+  });
+
+  it('filters account transfer and balance history', async () => {
+    const service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    const userAccount = await service.ensureUserAccount('history_tester');
+    const source = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+    const odfi = referenceAccountId('HONORING_ADAPTER_ODFI');
+
+    await service.createTransfer(source, userAccount, 100n, 1, DEPOSIT, 9101n);
+    await service.createTransfer(userAccount, odfi, 10n, 1, PAYMENT, 9102n);
+    await service.createTransfer(userAccount, odfi, 20n, 1, PAYMENT, 9103n);
+
+    const all = await service.getAccountTransfers(userAccount);
+    assert.deepStrictEqual(all.map(t => t.id), [9101n, 9102n, 9103n]);
+
+    const debits = await service.getAccountTransfers(userAccount, { side: 'debits', reverse: true, limit: 1 });
+    assert.deepStrictEqual(debits.map(t => t.id), [9103n]);
+
+    const since = await service.getAccountTransfers(userAccount, { timestampMin: all[1].timestamp, side: 'both' });
+    assert.deepStrictEqual(since.map(t => t.id), [9102n, 9103n]);
+
+    const balances = await service.getAccountBalances(userAccount, { reverse: true });
+    assert.deepStrictEqual(balances.map(b => b.credits_posted - b.debits_posted), [70n, 90n, 100n]);
+  });
+
+  it('gives transfers created in the same millisecond distinct generated ids', async () => {
+    const service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    const userAccount = await service.ensureUserAccount('burst_tester');
+    const source = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+
+    const results = await Promise.all(Array.from({ length: 200 }, () => service.createTransfer(source, userAccount, 1n, 1, DEPOSIT)));
+    assert.ok(results.every(r => r.reason === 'created'));
+    assert.strictEqual(new Set(results.map(r => r.transferId)).size, 200);
+  });
+
+  it('only resolves chart keys, not names inherited by every object', () => {
+    assert.strictEqual(asReferenceAccountKey('HONORING_ADAPTER_ODFI'), 'HONORING_ADAPTER_ODFI');
+    for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      assert.strictEqual(asReferenceAccountKey(name), undefined, name);
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { SpendEngine, ClearingRejectedError } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { EventLogger } from '../events/logger';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS, UnsupportedCurrencyError, resolveCurrency } from '../clearing/tigerbeetle/ledgers';
+import { ExchangeRateTable } from '../clearing/tigerbeetle/exchange';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { IMerchantValueAdapter, ValueRequest } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const USD = LEDGER_IDS.USD;
+const EUR = LEDGER_IDS.EUR;
+const DEPOSIT = { code: TRANSFER_CODES.DEPOSIT };
+
+// Records requests and succeeds unless told to fail
+class RecordingAdapter implements IMerchantValueAdapter {
+  name = 'Recording Adapter';
+  type = 'square' as const;
+  enabled = true;
+  requests: ValueRequest[] = [];
+  fail = false;
+
+  async issueValue(request: ValueRequest) {
+    this.requests.push(request);
+    return {
+      success: !this.fail,
+      transactionId: `txn_${this.requests.length}`,
+      value: { type: 'gift_card' as const, balance: request.amount },
+      error: this.fail ? { code: 'DECLINED', message: 'Merchant declined' } : undefined,
+      timestamp: new Date(),
+    };
+  }
+  async checkStatus(transactionId: string) {
+    return { transactionId, status: 'completed' as const, updatedAt: new Date() };
+  }
+  async handleWebhook() {
+    return { acknowledged: true, eventType: 'noop', processedAt: new Date() };
+  }
+  async validateConfig() {
+    return true;
+  }
+}
+
+describe('ExchangeRateTable', () => {
+  it('charges the payer the rounded-up source amount', () => {
+    const rates = new ExchangeRateTable({ EUR: '0.92' });
+    const quote = rates.quoteForDestination('USD', 'EUR', 1_000_000n); // 1.00 EUR
+    assert.strictEqual(quote.sourceAmount, 1_086_957n);                 // 1.086956.. USD, rounded up
+    assert.strictEqual(quote.rate, '0.92');
+  });
+
+  it('resolves currency codes to ledgers and rejects unknown ones', () => {
+    assert.strictEqual(resolveCurrency('usdc'), 'USDC');
+    assert.strictEqual(resolveCurrency(undefined), 'USD');
+    assert.throws(() => resolveCurrency('JPY'), UnsupportedCurrencyError);
+  });
+});
+
+describe('SpendEngine: multi-currency clearing', () => {
+  let service: TigerBeetleService;
+  let engine: SpendEngine;
+  let adapter: RecordingAdapter;
+
+  const balance = async (accountId: bigint) => (await service.getLedgerBalance(accountId))!.posted;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), new EventLogger(), service, new ExchangeRateTable({ EUR: '0.92' }));
+    adapter = new RecordingAdapter();
+    engine.registerAdapter(adapter);
+
+    // Fund the user in USD and the exchange desk in EUR
+    const user = await service.ensureUserAccount('fx_tester', USD);
+    await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION', USD), user, 100_000000n, USD, DEPOSIT, 1n);
+    await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION', EUR), referenceAccountId('FX_LIQUIDITY', EUR), 1_000_000000n, EUR, DEPOSIT, 2n);
+  });
+
+  it('provisions every reference account on every ledger', async () => {
+    assert.notStrictEqual(referenceAccountId('HONORING_ADAPTER_ODFI', EUR), referenceAccountId('HONORING_ADAPTER_ODFI', USD));
+    assert.ok(await service.getLedgerBalance(referenceAccountId('HONORING_ADAPTER_ODFI', LEDGER_IDS.sFIAT)));
+  });
+
+  it('clears a same-currency spend on its own ledger', async () => {
+    const eurUser = await service.ensureUserAccount('fx_tester', EUR);
+    await service.createTransfer(referenceAccountId('OBSERVED_TOKEN_REALIZATION', EUR), eurUser, 10_000000n, EUR, DEPOSIT, 3n);
+
+    await engine.spendCredit({ userId: 'fx_tester', merchant: 'square', amount: 4, currency: 'EUR', metadata: {} });
+
+    assert.strictEqual(adapter.requests[0].currency, 'EUR');
+    assert.strictEqual((await engine.getCreditBalance('fx_tester', 'EUR')).available, 6_000000n);
+    assert.strictEqual((await engine.getCreditBalance('fx_tester', 'USD')).available, 100_000000n);
+  });
+
+  it('exchanges through liquidity accounts for a cross-currency spend', async () => {
+    await engine.spendCredit({ userId: 'fx_tester', merchant: 'square', amount: 46, currency: 'EUR', fundingCurrency: 'USD', metadata: {} });
+
+    assert.strictEqual(adapter.requests[0].currency, 'EUR');
+    assert.strictEqual((await engine.getCreditBalance('fx_tester', 'USD')).available, 50_000000n);
+    assert.strictEqual(await balance(referenceAccountId('FX_LIQUIDITY', USD)), 50_000000n);
+    assert.strictEqual(await balance(referenceAccountId('FX_LIQUIDITY', EUR)), 954_000000n);
+    assert.strictEqual(await balance(referenceAccountId('HONORING_ADAPTER_ODFI', EUR)), 46_000000n);
+  });
+
+  it('voids both legs when honoring fails', async () => {
+    adapter.fail = true;
+    await assert.rejects(
+      engine.spendCredit({ userId: 'fx_tester', merchant: 'square', amount: 46, currency: 'EUR', fundingCurrency: 'USD', metadata: {} })
+    );
+
+    const usd = await engine.getCreditBalance('fx_tester', 'USD');
+    assert.strictEqual(usd.available, 100_000000n);
+    assert.strictEqual(usd.pending, 0n);
+    assert.strictEqual(await balance(referenceAccountId('FX_LIQUIDITY', EUR)), 1_000_000000n);
+  });
+
+  it('rejects the whole exchange when the destination liquidity is short', async () => {
+    await assert.rejects(
+      engine.spendCredit({ userId: 'fx_tester', merchant: 'square', amount: 20, currency: 'GBP', fundingCurrency: 'USD', metadata: {} }),
+      (error: ClearingRejectedError) => error.reason === 'insufficient_funds' && error.failedLeg === 1
+    );
+    assert.strictEqual(adapter.requests.length, 0);
+    assert.strictEqual((await engine.getCreditBalance('fx_tester', 'USD')).pending, 0n);
+  });
+});
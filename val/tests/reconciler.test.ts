@@ -0,0 +1,132 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { BalanceReconciler } from '../core/reconciler';
+import { SpendEngine } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { getNarrativeMirror } from '../core/narrative-mirror-service';
+import { EventLogger } from '../events/logger';
+import { CreditEventType } from '../events/types';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { NARRATIVE_ACCOUNTS } from '../shared/narrative-mirror-bridge';
+import { IMerchantValueAdapter } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// Observed balances keyed by chart number, debit-normal like the Narrative Mirror
+class StubMirror {
+  observed: Map<number, bigint> = new Map();
+
+  async getObservedAccountBalances(accountIds: number[]): Promise<Record<number, bigint>> {
+    return Object.fromEntries(accountIds.map(id => [id, this.observed.get(id) || 0n]));
+  }
+}
+
+describe('BalanceReconciler', () => {
+  let service: TigerBeetleService;
+  let mirror: StubMirror;
+  let logger: EventLogger;
+  let reconciler: BalanceReconciler;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    mirror = new StubMirror();
+    logger = new EventLogger();
+    reconciler = new BalanceReconciler(service, mirror, logger);
+
+    // Clearing: 500 realized into ODFI
+    await service.createTransfer(
+      referenceAccountId('OBSERVED_TOKEN_REALIZATION'),
+      referenceAccountId('HONORING_ADAPTER_ODFI'),
+      500n,
+      LEDGER_IDS.USD,
+      { code: TRANSFER_CODES.DEPOSIT },
+      1n
+    );
+  });
+
+  it('verifies integrity when every observed balance matches clearing', async () => {
+    mirror.observed.set(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, -500n);
+    mirror.observed.set(NARRATIVE_ACCOUNTS.OBSERVED_TOKEN_REALIZATION, 500n);
+
+    const report = await reconciler.reconcile();
+
+    assert.strictEqual(report.status, 'verified');
+    assert.strictEqual(report.accounts.length, Object.keys(NARRATIVE_ACCOUNTS).length);
+    const [event] = await logger.getEventsForUser('system:reconciler');
+    assert.strictEqual(event.type, CreditEventType.INTEGRITY_VERIFIED);
+  });
+
+  it('reports drift per account and logs a drift event', async () => {
+    mirror.observed.set(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, -450n);
+    mirror.observed.set(NARRATIVE_ACCOUNTS.OBSERVED_TOKEN_REALIZATION, 500n);
+    mirror.observed.set(NARRATIVE_ACCOUNTS.OBSERVED_AP, 20n);
+
+    const report = await reconciler.reconcile();
+
+    assert.strictEqual(report.status, 'drift');
+    assert.deepStrictEqual(report.drifted.map(a => [a.key, a.drift]), [['HONORING_ADAPTER_ODFI', 50n], ['OBSERVED_AP', 20n]]);
+    assert.strictEqual(report.totalDrift, 70n);
+    assert.strictEqual(reconciler.getLatestReport(), report);
+
+    const [event] = await logger.getEventsForUser('system:reconciler');
+    assert.strictEqual(event.type, CreditEventType.BALANCE_DRIFT_DETECTED);
+    assert.strictEqual(event.metadata.driftedAccounts, 2);
+  });
+
+  it('logs a finding only when the status or the drift changes', async () => {
+    mirror.observed.set(NARRATIVE_ACCOUNTS.HONORING_ADAPTER_ODFI, -500n);
+    mirror.observed.set(NARRATIVE_ACCOUNTS.OBSERVED_TOKEN_REALIZATION, 500n);
+    const logged = async () => (await logger.getEventsForUser('system:reconciler')).map(e => e.type);
+
+    await reconciler.reconcile();
+    await reconciler.reconcile();
+    assert.deepStrictEqual(await logged(), [CreditEventType.INTEGRITY_VERIFIED]);
+
+    mirror.observed.set(NARRATIVE_ACCOUNTS.OBSERVED_AP, 20n);
+    await reconciler.reconcile();
+    await reconciler.reconcile();
+    mirror.observed.set(NARRATIVE_ACCOUNTS.OBSERVED_AP, 30n);
+    await reconciler.reconcile();
+    mirror.observed.delete(NARRATIVE_ACCOUNTS.OBSERVED_AP);
+    await reconciler.reconcile();
+    assert.deepStrictEqual(await logged(), [
+      CreditEventType.INTEGRITY_VERIFIED,
+      CreditEventType.BALANCE_DRIFT_DETECTED,
+      CreditEventType.BALANCE_DRIFT_DETECTED,
+      CreditEventType.INTEGRITY_VERIFIED,
+    ]);
+  });
+
+  it('agrees with the Narrative Mirror after a real deposit and spend', async () => {
+    const clearing = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await clearing.initializeReferenceAccounts();
+    const spendLogger = new EventLogger();
+    const engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), spendLogger, clearing);
+    const adapter: IMerchantValueAdapter = {
+      name: 'Test Adapter',
+      type: 'square',
+      enabled: true,
+      issueValue: async request => ({ success: true, transactionId: 'txn_1', value: { type: 'gift_card', balance: request.amount }, timestamp: new Date() }),
+      checkStatus: async transactionId => ({ transactionId, status: 'completed', updatedAt: new Date() }),
+      handleWebhook: async () => ({ acknowledged: true, eventType: 'noop', processedAt: new Date() }),
+      validateConfig: async () => true,
+    };
+    engine.registerAdapter(adapter);
+    await engine.depositCredit('member', 100);
+    await engine.spendCredit({ userId: 'member', merchant: 'square', amount: 30, metadata: {} });
+
+    const report = await new BalanceReconciler(clearing, getNarrativeMirror(), spendLogger).reconcile();
+
+    assert.deepStrictEqual(report.drifted, []);
+    assert.strictEqual(report.status, 'verified');
+    const entitlements = report.accounts.find(a => a.key === 'HONORING_ADAPTER_STABLECOIN')!;
+    assert.ok(entitlements.accountIds.includes(clearing.userAccountId('member')));
+    assert.strictEqual(entitlements.clearing, -70_000_000n);
+    assert.strictEqual(report.accounts.find(a => a.key === 'HONORING_ADAPTER_ODFI')!.clearing, -30_000_000n);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { SpendEngine, ClearingRejectedError } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { EventLogger } from '../events/logger';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { ReserveThresholdError } from '../clearing/tigerbeetle/registry';
+import { IMerchantValueAdapter } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const USD = LEDGER_IDS.USD;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const PAYMENT = { code: TRANSFER_CODES.PAYMENT };
+
+describe('Reserve thresholds (balance-conditional transfers)', () => {
+  let service: TigerBeetleService;
+  let pool: bigint;
+  let member: bigint;
+
+  const posted = async (accountId: bigint) => (await service.getLedgerBalance(accountId))!.posted;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    pool = await service.ensureUserAccount('operating-pool');
+    member = await service.ensureUserAccount('member');
+    await service.createTransfer(SOURCE, pool, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+    await service.createTransfer(SOURCE, member, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 2n);
+    await service.setReserveThreshold(pool, 30n);
+  });
+
+  it('clears debits that leave the reserve in place and rejects the rest', async () => {
+    assert.strictEqual((await service.createTransfer(pool, ODFI, 70n, USD, PAYMENT, 10n)).reason, 'created');
+    assert.strictEqual((await service.createTransfer(pool, ODFI, 70n, USD, PAYMENT, 10n)).reason, 'exists');
+
+    const breach = await service.createTransfer(pool, ODFI, 1n, USD, PAYMENT, 11n);
+    assert.strictEqual(breach.ok, false);
+    assert.strictEqual(breach.reason, 'below_reserve');
+    assert.strictEqual(breach.transferId, 11n);
+    assert.strictEqual(await posted(pool), 30n);
+    assert.strictEqual(service.getRegistry().get(pool)!.reserve, 30n);
+  });
+
+  it('counts held funds against the reserve so racing holds cannot both pass', async () => {
+    const holds = await Promise.all([
+      service.createPendingTransfer(pool, ODFI, 40n, 60, USD, PAYMENT, 20n),
+      service.createPendingTransfer(pool, ODFI, 40n, 60, USD, PAYMENT, 21n),
+    ]);
+
+    assert.deepStrictEqual(holds.map(h => h.reason).sort(), ['below_reserve', 'created']);
+    assert.strictEqual((await service.getLedgerBalance(pool))!.pending, 40n);
+  });
+
+  it('reports the caller leg that breached the reserve in a linked chain', async () => {
+    const result = await service.createLinkedTransfers([
+      { id: 30n, debitAccount: member, creditAccount: ODFI, amount: 50n, ledger: USD, details: PAYMENT },
+      { id: 31n, debitAccount: pool, creditAccount: ODFI, amount: 80n, ledger: USD, details: PAYMENT },
+    ]);
+
+    assert.strictEqual(result.reason, 'below_reserve');
+    assert.strictEqual(result.failedLeg, 1);
+    assert.strictEqual(result.transferId, 31n);
+    assert.deepStrictEqual(result.transferIds, [30n, 31n]);
+    assert.strictEqual(await posted(member), 100n);
+  });
+
+  it('only accepts reserves on accounts that cap debits at credits', async () => {
+    await assert.rejects(service.setReserveThreshold(SOURCE, 10n), ReserveThresholdError);
+    await assert.rejects(service.setReserveThreshold(pool, -1n), ReserveThresholdError);
+
+    await service.setReserveThreshold(pool, 0n);
+    assert.strictEqual((await service.createTransfer(pool, ODFI, 100n, USD, PAYMENT, 40n)).reason, 'created');
+  });
+
+  it('rejects a spend that would breach a member reserve', async () => {
+    const engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), new EventLogger(), service);
+    const adapter: IMerchantValueAdapter = {
+      name: 'Unreachable Adapter',
+      type: 'square',
+      enabled: true,
+      issueValue: async () => assert.fail('value issued despite the reserve'),
+      checkStatus: async () => assert.fail('unexpected status check'),
+      handleWebhook: async () => assert.fail('unexpected webhook'),
+      validateConfig: async () => true,
+    };
+    engine.registerAdapter(adapter);
+    await engine.depositCredit('saver', 100);
+    await service.setReserveThreshold(service.userAccountId('saver'), 90_000_000n);
+
+    await assert.rejects(
+      engine.spendCredit({ userId: 'saver', merchant: 'square', amount: 20, metadata: {} }),
+      (error: ClearingRejectedError) => error.reason === 'below_reserve' && error.failedLeg === 0
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { BufferedTransferAuditLog, InMemoryTransferAuditLog, TransferAuditLog, TransferSubmission } from '../clearing/tigerbeetle/audit';
+
+const USD = LEDGER_IDS.USD;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const PAYMENT = { code: TRANSFER_CODES.PAYMENT, eventRef: 77n };
+
+// Manual clock (ns) so holds expire on demand
+let now = 1_700_000_000_000_000_000n;
+const clock = () => now;
+
+describe('Transfer audit log', () => {
+  let service: TigerBeetleService;
+  let audit: TransferAuditLog;
+  let member: bigint;
+
+  const row = async (transferId: bigint) =>
+    (await audit.findByAccount(member)).find(t => t.transferId === transferId);
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle(clock) });
+    audit = service.getTransferAudit();
+    await service.initializeReferenceAccounts();
+    member = await service.ensureUserAccount('member');
+    await service.createTransfer(SOURCE, member, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+  });
+
+  it('records each transfer once with its outcome', async () => {
+    await service.createTransfer(SOURCE, member, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+
+    const deposits = (await audit.findByAccount(member)).filter(t => t.transferId === 1n);
+    assert.strictEqual(deposits.length, 1);
+    assert.deepStrictEqual(
+      [deposits[0].status, deposits[0].result, deposits[0].amount, deposits[0].debitAccountId],
+      ['posted', 'created', 100n, SOURCE]
+    );
+  });
+
+  it('follows a pending transfer to posted and links the post to it', async () => {
+    await service.createPendingTransfer(member, ODFI, 40n, 60, USD, PAYMENT, 10n);
+    assert.strictEqual((await row(10n))!.status, 'pending');
+
+    await service.postPendingTransfer(10n, 11n);
+    const pending = (await row(10n))!;
+    const post = (await row(11n))!;
+    assert.strictEqual(pending.status, 'posted');
+    assert.ok(pending.postedAt);
+    assert.deepStrictEqual(
+      [post.status, post.pendingId, post.amount, post.debitAccountId, post.creditAccountId, post.eventRef],
+      ['posted', 10n, 40n, member, ODFI, 77n]
+    );
+    assert.deepStrictEqual((await audit.findByEventRef(77n)).map(t => t.transferId), [10n, 11n]);
+  });
+
+  it('marks voided and expired holds', async () => {
+    await service.createPendingTransfer(member, ODFI, 10n, 60, USD, PAYMENT, 20n);
+    await service.voidPendingTransfer(20n, 21n);
+    assert.strictEqual((await row(20n))!.status, 'voided');
+    assert.strictEqual((await row(21n))!.amount, 10n);
+
+    await service.createPendingTransfer(member, ODFI, 10n, 1, USD, PAYMENT, 30n);
+    now += 2_000_000_000n;
+    await service.postPendingTransfer(30n, 31n);
+    assert.strictEqual((await row(30n))!.status, 'expired');
+    assert.deepStrictEqual([(await row(31n))!.status, (await row(31n))!.result], ['rejected', 'pending_transfer_expired']);
+  });
+
+  it('records rejections with the latest attempt', async () => {
+    const rejected = await service.createTransfer(member, ODFI, 500n, USD, PAYMENT, 40n);
+    assert.strictEqual(rejected.reason, 'insufficient_funds');
+    const failed = (await row(40n))!;
+    assert.deepStrictEqual([failed.status, failed.detail], ['rejected', 'exceeds_credits']);
+
+    // TigerBeetle remembers an id that failed transiently, so the retry is refused too
+    await service.createTransfer(member, ODFI, 50n, USD, PAYMENT, 40n);
+    const retried = (await row(40n))!;
+    assert.deepStrictEqual([retried.status, retried.result, retried.amount], ['rejected', 'id_already_failed', 50n]);
+  });
+
+  it('marks a hold expired once its timeout lapses with nothing resolving it', async () => {
+    await service.createPendingTransfer(member, ODFI, 10n, 1, USD, PAYMENT, 50n);
+    await service.createPendingTransfer(member, ODFI, 10n, 0, USD, PAYMENT, 51n);
+    assert.ok((await row(50n))!.expiresAt);
+
+    const lapsed = await audit.expireLapsed(new Date(Date.now() + 2_000));
+    assert.deepStrictEqual(lapsed.map(t => t.transferId), [50n]);
+    assert.deepStrictEqual([(await row(50n))!.status, (await row(51n))!.status], ['expired', 'pending']);
+
+    // TigerBeetle's clock has the last word: a post it still accepted moves the row on
+    await service.postPendingTransfer(50n, 52n);
+    assert.strictEqual((await row(50n))!.status, 'posted');
+  });
+});
+
+describe('Background audit writer', () => {
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const deposit = (id: bigint): TransferSubmission => ({
+    transfer: {
+      id, debit_account_id: SOURCE, credit_account_id: ODFI, amount: 1n, pending_id: 0n,
+      user_data_128: 0n, user_data_64: 0n, user_data_32: 0, timeout: 0, ledger: USD,
+      code: TRANSFER_CODES.DEPOSIT, flags: 0, timestamp: 0n,
+    },
+    result: 'created',
+  });
+
+  // An audit store that only writes when let through
+  class GatedAuditLog extends InMemoryTransferAuditLog {
+    writes: bigint[][] = [];
+    gate: Promise<void>;
+    open!: () => void;
+
+    constructor() {
+      super();
+      this.gate = new Promise(resolve => (this.open = resolve));
+    }
+
+    async record(submissions: TransferSubmission[]): Promise<void> {
+      await this.gate;
+      this.writes.push(submissions.map(s => s.transfer.id));
+      await super.record(submissions);
+    }
+  }
+
+  it('clears without waiting on the audit store and writes in submission order', async () => {
+    const store = new GatedAuditLog();
+    const service = new TigerBeetleService({ client: new InMemoryTigerBeetle(), audit: store, queue: { maxBatchSize: 1 } });
+    await service.initializeReferenceAccounts();
+    const member = await service.ensureUserAccount('member');
+    await service.createTransfer(SOURCE, member, 100n, USD, { code: TRANSFER_CODES.DEPOSIT }, 1n);
+    await service.createPendingTransfer(member, ODFI, 40n, 60, USD, PAYMENT, 10n);
+    assert.strictEqual((await service.postPendingTransfer(10n, 11n)).ok, true);
+    assert.strictEqual(store.writes.length, 0);
+
+    store.open();
+    const audit = service.getTransferAudit();
+    await audit.flush();
+    assert.deepStrictEqual(store.writes.flat().slice(-3), [1n, 10n, 11n]);
+    assert.strictEqual((await audit.findByAccount(member)).find(t => t.transferId === 10n)!.status, 'posted');
+  });
+
+  it('drops and counts submissions beyond its limit instead of holding them', async () => {
+    const store = new GatedAuditLog();
+    const audit = new BufferedTransferAuditLog(store, { limit: 2, writeBatch: 1 });
+
+    // The write in flight stays buffered until it lands, so it counts against the limit
+    await audit.record([deposit(1n), deposit(2n), deposit(3n)]);
+    await audit.record([deposit(4n)]);
+    assert.deepStrictEqual(audit.getStatus(), { buffered: 2, dropped: 2, failedWrites: 0 });
+    assert.strictEqual(audit.getHealth().state, 'degraded');
+
+    store.open();
+    await audit.flush();
+    assert.deepStrictEqual(store.writes, [[1n], [2n]]);
+    assert.strictEqual(audit.getStatus().buffered, 0);
+    assert.strictEqual(audit.getHealth().state, 'degraded');
+  });
+
+  it('keeps a failed batch at the head of the buffer and retries it with backoff', async () => {
+    class FlakyAuditLog extends InMemoryTransferAuditLog {
+      failures = 2;
+      writes: bigint[][] = [];
+
+      async record(submissions: TransferSubmission[]): Promise<void> {
+        if (this.failures > 0) {
+          this.failures--;
+          throw new Error('connection refused');
+        }
+        this.writes.push(submissions.map(s => s.transfer.id));
+        await super.record(submissions);
+      }
+    }
+    const store = new FlakyAuditLog();
+    const audit = new BufferedTransferAuditLog(store, { writeBatch: 2, backoff: { initialMs: 5, maxMs: 20, factor: 2 } });
+
+    await audit.record([deposit(1n), deposit(2n)]);
+    await audit.flush();
+    await audit.record([deposit(3n)]);
+    assert.deepStrictEqual(audit.getStatus(), { buffered: 3, dropped: 0, failedWrites: 1 });
+    const failing = audit.getHealth();
+    assert.strictEqual(failing.state, 'degraded');
+    assert.strictEqual(failing.lastError, 'connection refused');
+    assert.ok(failing.nextReconnectAt);
+
+    while (audit.getStatus().buffered > 0) await sleep(5);
+    await audit.flush();
+    assert.deepStrictEqual(store.writes, [[1n, 2n], [3n]]);
+    assert.deepStrictEqual(audit.getStatus(), { buffered: 0, dropped: 0, failedWrites: 0 });
+    assert.strictEqual(audit.getHealth().state, 'up');
+  });
+});
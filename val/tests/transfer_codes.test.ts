@@ -0,0 +1,93 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { ethers } from 'ethers';
+import { SpendEngine } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { EventLogger } from '../events/logger';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { ANCHOR_TYPE_CODES, TRANSFER_CODES, anchorTypeFromCode } from '../clearing/tigerbeetle/codes';
+import { MerchantType } from '../events/types';
+import { IMerchantValueAdapter, ValueRequest } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+
+const eventRef = (eventId: string) => BigInt(ethers.id(eventId)) & 0xffffffffffffffffffffffffffffffffn;
+
+class ApprovingAdapter implements IMerchantValueAdapter {
+  name = 'Approving Adapter';
+  enabled = true;
+  requests: ValueRequest[] = [];
+
+  constructor(public type: MerchantType) {}
+
+  async issueValue(request: ValueRequest) {
+    this.requests.push(request);
+    return {
+      success: true,
+      transactionId: `txn_${this.requests.length}`,
+      value: { type: 'gift_card' as const, balance: request.amount },
+      timestamp: new Date(),
+    };
+  }
+  async checkStatus(transactionId: string) {
+    return { transactionId, status: 'completed' as const, updatedAt: new Date() };
+  }
+  async handleWebhook() {
+    return { acknowledged: true, eventType: 'noop', processedAt: new Date() };
+  }
+  async validateConfig() {
+    return true;
+  }
+}
+
+describe('Transfer codes and event references', () => {
+  let service: TigerBeetleService;
+  let engine: SpendEngine;
+  let logger: EventLogger;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle() });
+    await service.initializeReferenceAccounts();
+    logger = new EventLogger();
+    engine = new SpendEngine(new AttestationEngine(TEST_ADMIN_KEY), logger, service);
+    engine.registerAdapter(new ApprovingAdapter('square'));
+    engine.registerAdapter(new ApprovingAdapter('instacart'));
+  });
+
+  it('tags deposits with DEPOSIT and the deposit event id', async () => {
+    const balance = await engine.depositCredit('codes_tester', 25);
+    assert.strictEqual(balance.available, 25_000000n);
+
+    const [deposit] = await service.getAccountTransfers(service.userAccountId('codes_tester'));
+    assert.strictEqual(deposit.code, TRANSFER_CODES.DEPOSIT);
+    assert.strictEqual(deposit.user_data_128, deposit.id);
+    assert.strictEqual(deposit.user_data_64, 0n);
+  });
+
+  it('tags a plain spend as PAYMENT on both phases', async () => {
+    await engine.depositCredit('codes_tester', 25);
+    const result = await engine.spendCredit({ userId: 'codes_tester', merchant: 'square', amount: 5, metadata: {} });
+
+    const [hold, post] = await service.getAccountTransfers(ODFI);
+    const ref = eventRef(result.attestation.eventId);
+    for (const transfer of [hold, post]) {
+      assert.strictEqual(transfer.code, TRANSFER_CODES.PAYMENT);
+      assert.strictEqual(transfer.user_data_128, ref);
+      assert.strictEqual(transfer.user_data_64, 0n);
+    }
+  });
+
+  it('tags an anchor-backed spend with its anchor type', async () => {
+    await engine.depositCredit('codes_tester', 25);
+    await engine.spendCredit({ userId: 'codes_tester', merchant: 'instacart', amount: 5, metadata: {} });
+    await engine.spendCredit({ userId: 'codes_tester', merchant: 'square', amount: 5, anchorType: 'FUEL', metadata: {} });
+
+    const [groceryHold, , fuelHold] = await service.getAccountTransfers(ODFI);
+    assert.strictEqual(groceryHold.code, TRANSFER_CODES.ANCHOR_AUTHORIZATION);
+    assert.strictEqual(anchorTypeFromCode(Number(groceryHold.user_data_64)), 'GROCERY');
+    assert.strictEqual(fuelHold.user_data_64, BigInt(ANCHOR_TYPE_CODES.FUEL));
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { SpendEngine, VelocityLimitExceededError } from '../core/spend_engine';
+import { AttestationEngine } from '../core/attestation';
+import { EventLogger } from '../events/logger';
+import { CreditEvent, CreditEventType } from '../events/types';
+import { InMemoryTigerBeetle } from '../clearing/tigerbeetle/memory';
+import { TigerBeetleService } from '../clearing/tigerbeetle/client';
+import { referenceAccountId } from '../clearing/tigerbeetle/accounts';
+import { LEDGER_IDS } from '../clearing/tigerbeetle/ledgers';
+import { TRANSFER_CODES } from '../clearing/tigerbeetle/codes';
+import { TransferLeg } from '../clearing/tigerbeetle/types';
+import { IMerchantValueAdapter } from '../merchant_triggers/adapter_interface';
+
+const TEST_ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const USD = LEDGER_IDS.USD;
+const SOURCE = referenceAccountId('OBSERVED_TOKEN_REALIZATION');
+const ODFI = referenceAccountId('HONORING_ADAPTER_ODFI');
+const DAY = 86_400;
+
+// Manual clock (ns) so windows age out deterministically
+let now = 1_700_000_000_000_000_000n;
+const clock = () => now;
+const advanceSeconds = (s: number) => { now += BigInt(s) * 1_000_000_000n; };
+
+const LIMITS = { daily: 100n, weekly: 150n };
+
+describe('Velocity limits', () => {
+  let service: TigerBeetleService;
+  let member: bigint;
+  let nextEvent: bigint;
+
+  // One spend as the engine clears it: the spend leg followed by the daily and weekly limit legs
+  const spend = async (amount: bigint) => {
+    const details = { code: TRANSFER_CODES.PAYMENT, eventRef: nextEvent++ };
+    const legs: TransferLeg[] = [{ debitAccount: member, creditAccount: ODFI, amount, ledger: USD, details }];
+    return service.createLinkedTransfers([...legs, ...(await service.velocityLegs('member', USD, amount, details))]);
+  };
+  const remaining = async () => Object.fromEntries(
+    (await service.getVelocityAllowance('member')).map(a => [a.window, a.remaining])
+  );
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({ client: new InMemoryTigerBeetle(clock), velocityLimits: LIMITS });
+    await service.initializeReferenceAccounts();
+    member = await service.ensureUserAccount('member');
+    await service.createTransfer(SOURCE, member, 1_000n, USD, { code: TRANSFER_CODES.DEPOSIT });
+    nextEvent = 1n;
+  });
+
+  it('reports the default caps before the first spend', async () => {
+    const [daily, weekly] = await service.getVelocityAllowance('member');
+    assert.deepStrictEqual([daily.window, daily.limit, daily.used, daily.remaining], ['daily', 100n, 0n, 100n]);
+    assert.deepStrictEqual([weekly.window, weekly.limit, weekly.remaining], ['weekly', 150n, 150n]);
+  });
+
+  it('rejects the spend that would exceed the daily cap', async () => {
+    assert.strictEqual((await spend(60n)).ok, true);
+    assert.deepStrictEqual(await remaining(), { daily: 40n, weekly: 90n });
+
+    const over = await spend(50n);
+    assert.strictEqual(over.ok, false);
+    assert.strictEqual(over.failedLeg, 1);
+    assert.strictEqual(over.reason, 'insufficient_funds');
+    assert.strictEqual((await service.getUserBalance('member')).posted, 940n);
+  });
+
+  it('lets only one of two racing spends through', async () => {
+    await spend(60n);
+    const results = await Promise.all([spend(30n), spend(30n)]);
+
+    assert.deepStrictEqual(results.map(r => r.ok).sort(), [false, true]);
+    assert.deepStrictEqual(await remaining(), { daily: 10n, weekly: 60n });
+  });
+
+  it('refills each window as old spends age out', async () => {
+    await spend(100n);
+    advanceSeconds(DAY + 1);
+
+    assert.deepStrictEqual(await remaining(), { daily: 100n, weekly: 50n });
+    const over = await spend(60n);
+    assert.strictEqual(over.failedLeg, 2); // weekly leg
+    assert.strictEqual((await spend(50n)).ok, true);
+
+    advanceSeconds(7 * DAY + 1);
+    assert.deepStrictEqual(await remaining(), { daily: 100n, weekly: 150n });
+  });
+
+  it('changes caps without dropping below what was already used', async () => {
+    await spend(80n);
+
+    assert.strictEqual((await service.setVelocityLimits('member', { daily: 50n })).reason, 'insufficient_funds');
+    assert.strictEqual((await service.setVelocityLimits('member', { daily: 200n, weekly: 100n })).ok, true);
+    assert.deepStrictEqual(await remaining(), { daily: 120n, weekly: 20n });
+  });
+});
+
+describe('SpendEngine: velocity limits', () => {
+  let service: TigerBeetleService;
+  let engine: SpendEngine;
+  let logger: EventLogger;
+  let attestor: AttestationEngine;
+  let approve: boolean;
+
+  beforeEach(async () => {
+    service = new TigerBeetleService({
+      client: new InMemoryTigerBeetle(),
+      velocityLimits: { daily: 10_000_000n, weekly: 50_000_000n }, // 10 and 50 units
+    });
+    await service.initializeReferenceAccounts();
+    logger = new EventLogger();
+    attestor = new AttestationEngine(TEST_ADMIN_KEY);
+    engine = new SpendEngine(attestor, logger, service);
+    approve = true;
+    const adapter: IMerchantValueAdapter = {
+      name: 'Test Adapter',
+      type: 'square',
+      enabled: true,
+      issueValue: async request => {
+        if (!approve) throw new Error('declined');
+        return { success: true, transactionId: 'txn_1', value: { type: 'gift_card', balance: request.amount }, timestamp: new Date() };
+      },
+      checkStatus: async transactionId => ({ transactionId, status: 'completed', updatedAt: new Date() }),
+      handleWebhook: async () => ({ acknowledged: true, eventType: 'noop', processedAt: new Date() }),
+      validateConfig: async () => true,
+    };
+    engine.registerAdapter(adapter);
+    await engine.depositCredit('member', 100);
+  });
+
+  it('names the window that rejected a spend', async () => {
+    await engine.spendCredit({ userId: 'member', merchant: 'square', amount: 8, metadata: {} });
+
+    await assert.rejects(
+      engine.spendCredit({ userId: 'member', merchant: 'square', amount: 3, metadata: {} }),
+      (error: VelocityLimitExceededError) =>
+        error instanceof VelocityLimitExceededError && error.window === 'daily' && error.allowance.remaining === 2_000_000n
+    );
+    const events = await logger.getEventsForUser('member');
+    const rejected = events.find(e => e.type === CreditEventType.SPEND_REJECTED_BY_LEDGER)!;
+    assert.strictEqual(rejected.metadata.reason, 'velocity_limit_exceeded');
+    assert.strictEqual(rejected.metadata.detail, 'velocity_daily');
+  });
+
+  it('holds finalized clearings to the same caps', async () => {
+    const finalize = async (id: string, amount: bigint) => {
+      const event: CreditEvent = { id, type: CreditEventType.SPEND_AUTHORIZED, userId: 'member', amount, timestamp: new Date(), metadata: {} };
+      return engine.finalize(event, await attestor.attest(event));
+    };
+    await finalize('evt_finalize_1', 8_000_000n);
+
+    await assert.rejects(
+      finalize('evt_finalize_2', 3_000_000n),
+      (error: VelocityLimitExceededError) => error instanceof VelocityLimitExceededError && error.window === 'daily'
+    );
+    assert.strictEqual((await engine.getCreditBalance('member')).available, 92_000_000n);
+    const [daily] = await engine.getVelocityAllowance('member');
+    assert.strictEqual(daily.remaining, 2_000_000n);
+  });
+
+  it('returns the allowance when honoring fails', async () => {
+    approve = false;
+    await assert.rejects(engine.spendCredit({ userId: 'member', merchant: 'square', amount: 8, metadata: {} }));
+
+    const [daily] = await engine.getVelocityAllowance('member');
+    assert.strictEqual(daily.remaining, 10_000_000n);
+  });
+});